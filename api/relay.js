@@ -0,0 +1,8 @@
+// Vercel Edge Function served at /api/relay; allowlist in the RELAY_ALLOWED_HOSTS env var
+import { handleRelay, parseAllowedHosts } from '../relay/relayCore.js';
+
+export const config = { runtime: 'edge' };
+
+export default function handler(request) {
+  return handleRelay(request, { allowedHosts: parseAllowedHosts(process.env.RELAY_ALLOWED_HOSTS) });
+}
@@ -0,0 +1,203 @@
+import { OutputFormat, ParseMode, TimeRange } from '../src/types';
+import { ClipPlanner } from '../src/utils/clipPlanner';
+import { FILENAME_TOKENS, FileNameTemplate } from '../src/utils/fileNameTemplate';
+import { OUTPUT_FORMATS } from '../src/utils/outputFormats';
+import { MAX_RETRIES_LIMIT } from '../src/utils/retryPolicy';
+import { MAX_CONCURRENCY, MIN_CONCURRENCY } from '../src/utils/segmentScheduler';
+import { UrlResolver } from '../src/utils/urlResolver';
+
+export interface CliOptions {
+  urls: string[];
+  // A text or CSV file of URLs, read the same way as the queue's import
+  inputFile?: string;
+  output?: string;
+  // Names the files written into an output directory
+  fileNameTemplate?: string;
+  quality?: string;
+  outputFormat?: OutputFormat;
+  concurrency?: number;
+  maxRetries?: number;
+  headers: Record<string, string>;
+  clip?: TimeRange;
+  forwardQueryParams: string[];
+  allowGaps: boolean;
+  json: boolean;
+  verbose: boolean;
+  parseMode: ParseMode;
+  help: boolean;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const USAGE = `Usage: edumaster [options] <url...>
+
+Downloads HLS (M3U8) streams with the same engine as the web app.
+
+Options:
+  -i, --input <file>        Read URLs from a text or CSV file (one per line, optional title)
+  -o, --output <path>       Output file, or a directory for several downloads (default: .)
+  -n, --filename <template> File name for downloads saved into a directory (default: {title})
+  -q, --quality <quality>   Variant to pick: highest, lowest, 720p or a bandwidth (default: highest)
+  -f, --format <format>     mp4, ts, hls for a ZIP of the original HLS files, or m4a/aac for audio only (default: mp4)
+  -c, --concurrency <n>     Parallel segment downloads, ${MIN_CONCURRENCY}-${MAX_CONCURRENCY}
+  -r, --retries <n>         Retries per segment, 0-${MAX_RETRIES_LIMIT}
+  -H, --header <header>     Extra request header "Name: value", repeatable
+      --start <time>        Clip start, in seconds or h:mm:ss
+      --end <time>          Clip end, in seconds or h:mm:ss
+      --forward <names>     Query parameters to copy from the playlist URL onto segments
+      --allow-gaps          Save what was downloaded when segments keep failing
+      --strict              Reject playlists that break RFC 8216
+      --json                Print progress as JSON lines on stdout
+  -v, --verbose             Log downloader details to stderr
+  -h, --help                Show this help
+
+File name tokens: ${FILENAME_TOKENS.map(({ token }) => token).join(' ')}
+
+Exit codes: 0 done, 1 failed, 2 usage error, 3 saved with missing segments, 130 interrupted`;
+
+const SHORT_FLAGS: Record<string, string> = {
+  i: 'input',
+  o: 'output',
+  n: 'filename',
+  q: 'quality',
+  f: 'format',
+  c: 'concurrency',
+  r: 'retries',
+  H: 'header',
+  v: 'verbose',
+  h: 'help'
+};
+
+const BOOLEAN_FLAGS = new Set(['allow-gaps', 'strict', 'json', 'verbose', 'help']);
+const VALUE_FLAGS = new Set(['input', 'output', 'filename', 'quality', 'format', 'concurrency', 'retries', 'header', 'start', 'end', 'forward']);
+
+export class CliArgs {
+  static parse(argv: string[]): CliOptions {
+    const options: CliOptions = {
+      urls: [],
+      headers: {},
+      forwardQueryParams: [],
+      allowGaps: false,
+      json: false,
+      verbose: false,
+      parseMode: 'lenient',
+      help: false
+    };
+    let start: string | undefined;
+    let end: string | undefined;
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '--') {
+        options.urls.push(...argv.slice(i + 1));
+        break;
+      }
+      if (!arg.startsWith('-') || arg === '-') {
+        options.urls.push(arg);
+        continue;
+      }
+
+      // --name=value, --name value and -x value
+      const separator = arg.indexOf('=');
+      const rawName = arg.startsWith('--') ? arg.slice(2, separator === -1 ? undefined : separator) : arg.slice(1);
+      const name = arg.startsWith('--') ? rawName : SHORT_FLAGS[rawName];
+      if (!name || (!BOOLEAN_FLAGS.has(name) && !VALUE_FLAGS.has(name))) {
+        throw new UsageError(`Unknown option ${arg}`);
+      }
+
+      if (BOOLEAN_FLAGS.has(name)) {
+        switch (name) {
+          case 'allow-gaps': options.allowGaps = true; break;
+          case 'strict': options.parseMode = 'strict'; break;
+          case 'json': options.json = true; break;
+          case 'verbose': options.verbose = true; break;
+          case 'help': options.help = true; break;
+        }
+        continue;
+      }
+
+      let value: string | undefined;
+      if (arg.startsWith('--') && separator !== -1) {
+        value = arg.slice(separator + 1);
+      } else {
+        value = argv[++i];
+      }
+      if (value === undefined) {
+        throw new UsageError(`Option ${arg} needs a value`);
+      }
+
+      switch (name) {
+        case 'input': options.inputFile = value; break;
+        case 'output': options.output = value; break;
+        case 'filename': options.fileNameTemplate = this.parseTemplate(value); break;
+        case 'quality': options.quality = value; break;
+        case 'format': options.outputFormat = this.parseFormat(value); break;
+        case 'concurrency': options.concurrency = this.parseInteger(arg, value, MIN_CONCURRENCY, MAX_CONCURRENCY); break;
+        case 'retries': options.maxRetries = this.parseInteger(arg, value, 0, MAX_RETRIES_LIMIT); break;
+        case 'header': this.addHeader(options.headers, value); break;
+        case 'start': start = value; break;
+        case 'end': end = value; break;
+        case 'forward': options.forwardQueryParams.push(...UrlResolver.parseNames(value)); break;
+        default: throw new UsageError(`Unknown option ${arg}`);
+      }
+    }
+
+    options.clip = this.parseClip(start, end);
+    if (!options.help && options.urls.length === 0 && !options.inputFile) {
+      throw new UsageError('No playlist URL given');
+    }
+    return options;
+  }
+
+  private static parseFormat(value: string): OutputFormat {
+    if (!(value in OUTPUT_FORMATS)) {
+      throw new UsageError(`Unknown format "${value}", use ${Object.keys(OUTPUT_FORMATS).join(' or ')}`);
+    }
+    return value as OutputFormat;
+  }
+
+  private static parseTemplate(value: string): string {
+    const unknown = FileNameTemplate.unknownTokens(value);
+    if (unknown.length > 0) {
+      throw new UsageError(`Unknown file name token ${unknown.join(', ')}`);
+    }
+    return value;
+  }
+
+  private static parseInteger(arg: string, value: string, min: number, max: number): number {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw new UsageError(`${arg} must be a whole number from ${min} to ${max}`);
+    }
+    return number;
+  }
+
+  private static addHeader(headers: Record<string, string>, value: string): void {
+    const separator = value.indexOf(':');
+    const name = value.substring(0, separator).trim();
+    if (separator <= 0 || !/^[!#$%&'*+.^`|~\w-]+$/.test(name)) {
+      throw new UsageError(`Invalid header "${value}", expected "Name: value"`);
+    }
+    headers[name] = value.substring(separator + 1).trim();
+  }
+
+  private static parseClip(start?: string, end?: string): TimeRange | undefined {
+    try {
+      const clip = { start: ClipPlanner.parseTime(start), end: ClipPlanner.parseTime(end) };
+      if (clip.start === undefined && clip.end === undefined) {
+        return undefined;
+      }
+      if (clip.start !== undefined && clip.end !== undefined && clip.end <= clip.start) {
+        throw new Error('Clip end must be after its start');
+      }
+      return clip;
+    } catch (error) {
+      throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
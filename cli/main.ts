@@ -0,0 +1,277 @@
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { format } from 'node:util';
+import { DownloadAttachment, DownloadOptions, DownloadProgress, DownloadResult, FileNameContext, M3U8Variant, QueueEntry } from '../src/types';
+import { ClipPlanner } from '../src/utils/clipPlanner';
+import { DownloadQueue } from '../src/utils/downloadQueue';
+import { DEFAULT_FILENAME_TEMPLATE, FileNameTemplate } from '../src/utils/fileNameTemplate';
+import { HttpClient } from '../src/utils/httpClient';
+import { M3U8Parser } from '../src/utils/m3u8Parser';
+import { OUTPUT_FORMATS, resolveOutputFormat } from '../src/utils/outputFormats';
+import { PlaylistLoader } from '../src/utils/playlistLoader';
+import { SegmentDownloadError } from '../src/utils/retryPolicy';
+import { VariantSelector } from '../src/utils/variantSelector';
+import { VideoDownloader } from '../src/utils/videoDownloader';
+import { CliArgs, CliOptions, USAGE, UsageError } from './args';
+import { NodeFileSink } from './nodeFileSink';
+import { CliJob, JobReport, ProgressReporter, createProgressReporter } from './progress';
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_PARTIAL = 3;
+const EXIT_INTERRUPTED = 130;
+
+// Downloads the entries one after another; each already fetches its segments in parallel
+class CliRunner {
+  private current: { downloader: VideoDownloader; live: boolean } | null = null;
+  private interrupted = false;
+  // Lower-cased base names already used in this run, so a batch never overwrites its own files
+  private takenNames = new Set<string>();
+
+  constructor(private options: CliOptions, private reporter: ProgressReporter) {}
+
+  async run(entries: QueueEntry[]): Promise<number> {
+    const reports: JobReport[] = [];
+    const outputIsDirectory = entries.length > 1 || await this.isDirectory(this.options.output);
+
+    for (let i = 0; i < entries.length && !this.interrupted; i++) {
+      const job: CliJob = { index: i + 1, total: entries.length, url: entries[i].url };
+      const report = await this.download(job, entries[i], outputIsDirectory);
+      this.reporter.finish(job, report);
+      reports.push(report);
+    }
+
+    const outcomes = new Set(reports.map(report => report.outcome));
+    if (outcomes.has('interrupted')) {
+      return EXIT_INTERRUPTED;
+    }
+    if (outcomes.has('failed')) {
+      return EXIT_FAILED;
+    }
+    return outcomes.has('partial') ? EXIT_PARTIAL : EXIT_OK;
+  }
+
+  // The first Ctrl+C stops a live recording and keeps what was recorded, or cancels a download
+  interrupt(): void {
+    this.interrupted = true;
+    if (this.current?.live) {
+      this.reporter.note('Stopping the recording…');
+      this.current.downloader.stopRecording();
+    } else {
+      this.current?.downloader.cancelDownload();
+    }
+  }
+
+  private async download(job: CliJob, entry: QueueEntry, outputIsDirectory: boolean): Promise<JobReport> {
+    const downloadOptions: DownloadOptions = {
+      outputFormat: this.options.outputFormat,
+      concurrency: this.options.concurrency,
+      maxRetries: this.options.maxRetries,
+      clip: this.options.clip,
+      forwardQueryParams: this.options.forwardQueryParams
+    };
+    const downloader = new VideoDownloader();
+
+    try {
+      const { playlist, variant, audioRendition, audioOnly } = await PlaylistLoader.loadMedia(
+        entry.url,
+        downloadOptions,
+        'highest',
+        this.options.quality,
+        { mode: this.options.parseMode }
+      );
+      for (const diagnostic of playlist.diagnostics ?? []) {
+        if (diagnostic.severity === 'error' || this.options.verbose) {
+          this.reporter.note(`Playlist ${diagnostic.severity} on line ${diagnostic.line}: ${diagnostic.message}`);
+        }
+      }
+
+      const live = M3U8Parser.isLive(playlist);
+      if (playlist.segments.length === 0 && !live) {
+        throw new Error('No video segments found in M3U8 playlist');
+      }
+      const bandwidth = audioOnly ? VariantSelector.audioBitrate(variant) : variant && VariantSelector.bitrate(variant);
+      const options = { ...downloadOptions, audioRendition: audioRendition ?? downloadOptions.audioRendition, bandwidth, variant };
+      const extension = OUTPUT_FORMATS[resolveOutputFormat(playlist, options)].extension;
+      job.output = await this.outputPath(extension, outputIsDirectory, {
+        url: entry.url,
+        title: entry.title,
+        variant,
+        duration: live ? undefined : ClipPlanner.plan(playlist, options.clip).duration,
+        index: job.index,
+        total: job.total
+      });
+
+      if (this.interrupted) {
+        return { outcome: 'interrupted' };
+      }
+      this.reporter.start(job, { segments: playlist.segments.length, live, variant: variant && CliRunner.describeVariant(variant) });
+      this.current = { downloader, live };
+      const sink = await NodeFileSink.open(job.output);
+      const onProgress = (progress: DownloadProgress) => this.reporter.progress(job, progress);
+
+      let result: DownloadResult;
+      let missingSegments = 0;
+      try {
+        result = live
+          ? await downloader.recordLive(playlist.url ?? entry.url, playlist, onProgress, () => {}, options, sink)
+          : await downloader.downloadM3U8(playlist, onProgress, () => {}, options, undefined, sink);
+      } catch (error) {
+        if (!(error instanceof SegmentDownloadError) || !this.options.allowGaps) {
+          throw error;
+        }
+        for (const failure of error.failures) {
+          this.reporter.note(`Segment ${failure.index + 1} skipped: ${failure.message}`);
+        }
+        missingSegments = error.failures.length;
+        result = await downloader.saveWithGaps();
+      }
+
+      const recovered = result.validation?.issues.filter(issue => issue.recovered) ?? [];
+      for (const issue of recovered) {
+        const times = issue.rejections === 1 ? 'once' : `${issue.rejections} times`;
+        this.reporter.note(`Segment ${issue.index + 1} was rejected ${times} before a valid copy arrived: ${issue.message}`);
+      }
+      const attachments = await this.writeAttachments(job.output, result.attachments ?? []);
+      return {
+        outcome: missingSegments > 0 ? 'partial' : 'completed',
+        size: result.size,
+        missingSegments: missingSegments || undefined,
+        recoveredSegments: recovered.length || undefined,
+        attachments: attachments.length > 0 ? attachments : undefined
+      };
+
+    } catch (error) {
+      // Releases the .part file a download with failed segments keeps open
+      downloader.cancelDownload();
+      if (this.interrupted && !this.current?.live) {
+        return { outcome: 'interrupted' };
+      }
+      return { outcome: 'failed', error: error instanceof Error ? error.message : String(error) };
+
+    } finally {
+      this.current = null;
+    }
+  }
+
+  // A single download goes to --output as given; a batch, or an existing directory, gets one file per entry
+  private async outputPath(extension: string, outputIsDirectory: boolean, context: FileNameContext): Promise<string> {
+    const target = this.options.output ?? '.';
+    if (!outputIsDirectory && this.options.output && !/[\\/]$/.test(target)) {
+      await mkdir(path.dirname(path.resolve(target)), { recursive: true });
+      return target;
+    }
+
+    await mkdir(target, { recursive: true });
+    const baseName = FileNameTemplate.render(this.options.fileNameTemplate ?? DEFAULT_FILENAME_TEMPLATE, context);
+    return path.join(target, `${FileNameTemplate.unique(baseName, this.takenNames)}.${extension}`);
+  }
+
+  // Subtitles and separate audio go next to the video as video.<suffix>.<extension>
+  private async writeAttachments(output: string, attachments: DownloadAttachment[]): Promise<string[]> {
+    const base = output.slice(0, output.length - path.extname(output).length);
+    const written: string[] = [];
+    for (const attachment of attachments) {
+      const file = `${base}.${attachment.suffix}.${attachment.extension}`;
+      await writeFile(file, new Uint8Array(await attachment.blob.arrayBuffer()));
+      written.push(file);
+    }
+    return written;
+  }
+
+  private async isDirectory(target?: string): Promise<boolean> {
+    if (!target) {
+      return true;
+    }
+    try {
+      return (await stat(target)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  private static describeVariant(variant: M3U8Variant): string {
+    const kbps = `${Math.round(variant.bandwidth / 1000)} kbps`;
+    return variant.resolution ? `${variant.resolution.height}p, ${kbps}` : kbps;
+  }
+}
+
+const readEntries = async (options: CliOptions): Promise<QueueEntry[]> => {
+  const entries: QueueEntry[] = options.urls.map(url => {
+    if (!/^https?:\/\//i.test(url)) {
+      throw new UsageError(`Not an http(s) URL: ${url}`);
+    }
+    return { url };
+  });
+
+  if (options.inputFile) {
+    const listed = DownloadQueue.parseEntries(await readFile(options.inputFile, 'utf8'));
+    if (listed.length === 0) {
+      throw new UsageError(`No URLs found in ${options.inputFile}`);
+    }
+    entries.push(...listed.filter(entry => !entries.some(existing => existing.url === entry.url)));
+  }
+  return entries;
+};
+
+// Custom headers (cookies, Referer, Authorization) are sent with every playlist, key and segment request
+const installHeaders = (headers: Record<string, string>): void => {
+  if (Object.keys(headers).length === 0) {
+    return;
+  }
+  HttpClient.setAdapter((url, init) => {
+    const merged = new Headers(init?.headers);
+    for (const [name, value] of Object.entries(headers)) {
+      if (!merged.has(name)) {
+        merged.set(name, value);
+      }
+    }
+    return fetch(url, { ...init, headers: merged });
+  });
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  let options: CliOptions;
+  let entries: QueueEntry[];
+  try {
+    options = CliArgs.parse(argv);
+    if (options.help) {
+      process.stdout.write(`${USAGE}\n`);
+      return EXIT_OK;
+    }
+    entries = await readEntries(options);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+    if (error instanceof UsageError) {
+      process.stderr.write('Run with --help for usage\n');
+      return EXIT_USAGE;
+    }
+    return EXIT_FAILED;
+  }
+
+  const reporter = createProgressReporter(options.json);
+  // The shared core logs through console; keep stdout free for --json and the terminal free for the bar
+  const log = (...args: unknown[]) => reporter.note(format(...args));
+  console.log = console.info = console.debug = options.verbose ? log : () => {};
+  console.warn = console.error = log;
+  installHeaders(options.headers);
+
+  const runner = new CliRunner(options, reporter);
+  let interrupts = 0;
+  process.on('SIGINT', () => {
+    if (++interrupts > 1) {
+      process.exit(EXIT_INTERRUPTED);
+    }
+    runner.interrupt();
+  });
+  return runner.run(entries);
+};
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    process.stderr.write(`${error instanceof Error ? error.stack : error}\n`);
+    process.exitCode = EXIT_FAILED;
+  }
+);
@@ -0,0 +1,28 @@
+import { open, rename, rm, type FileHandle } from 'node:fs/promises';
+import { OutputSink, OutputSinkKind } from '../src/types';
+
+// Writes to "<path>.part" and renames it when the download completes, so a file at path is always whole
+export class NodeFileSink implements OutputSink {
+  readonly kind: OutputSinkKind = 'file-system';
+
+  private constructor(private handle: FileHandle, private path: string) {}
+
+  static async open(path: string): Promise<NodeFileSink> {
+    return new NodeFileSink(await open(`${path}.part`, 'w'), path);
+  }
+
+  async write(chunk: Uint8Array): Promise<void> {
+    await this.handle.write(chunk);
+  }
+
+  async close(): Promise<Blob | null> {
+    await this.handle.close();
+    await rename(`${this.path}.part`, this.path);
+    return null;
+  }
+
+  async abort(): Promise<void> {
+    await this.handle.close().catch(() => {});
+    await rm(`${this.path}.part`, { force: true }).catch(error => console.warn('Failed to remove partial file:', error));
+  }
+}
@@ -0,0 +1,182 @@
+import { DownloadProgress } from '../src/types';
+import { ClipPlanner } from '../src/utils/clipPlanner';
+
+export interface CliJob {
+  // 1-based position in the batch
+  index: number;
+  total: number;
+  url: string;
+  output?: string;
+}
+
+export type JobOutcome = 'completed' | 'partial' | 'failed' | 'interrupted';
+
+export interface JobReport {
+  outcome: JobOutcome;
+  size?: number;
+  missingSegments?: number;
+  // Segments that failed validation at least once but were refetched intact
+  recoveredSegments?: number;
+  attachments?: string[];
+  error?: string;
+}
+
+export interface ProgressReporter {
+  start(job: CliJob, details: { segments: number; live: boolean; variant?: string }): void;
+  progress(job: CliJob, progress: DownloadProgress): void;
+  // Log output from the downloader, which must not tear through a progress bar
+  note(message: string): void;
+  finish(job: CliJob, report: JobReport): void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+const describe = (job: CliJob, report: JobReport): string => {
+  const prefix = job.total > 1 ? `[${job.index}/${job.total}] ` : '';
+  const recovered = report.recoveredSegments ? `, ${report.recoveredSegments} corrupt segments refetched` : '';
+  switch (report.outcome) {
+    case 'completed':
+      return `${prefix}Saved ${job.output} (${formatBytes(report.size ?? 0)}${recovered})`;
+    case 'partial':
+      return `${prefix}Saved ${job.output} (${formatBytes(report.size ?? 0)}${recovered}) without ${report.missingSegments} failed segments`;
+    case 'interrupted':
+      return `${prefix}Interrupted ${job.url}`;
+    default:
+      return `${prefix}Failed ${job.url}: ${report.error}`;
+  }
+};
+
+// One machine-readable event per line on stdout; everything else goes to stderr
+class JsonProgressReporter implements ProgressReporter {
+  start(job: CliJob, details: { segments: number; live: boolean; variant?: string }): void {
+    this.emit({ event: 'start', ...job, ...details });
+  }
+
+  progress(job: CliJob, progress: DownloadProgress): void {
+    this.emit({ event: 'progress', index: job.index, ...progress });
+  }
+
+  note(message: string): void {
+    process.stderr.write(`${message}\n`);
+  }
+
+  finish(job: CliJob, report: JobReport): void {
+    this.emit({ event: 'finish', ...job, ...report });
+  }
+
+  private emit(event: Record<string, unknown>): void {
+    process.stdout.write(`${JSON.stringify(event)}\n`);
+  }
+}
+
+// Redraws a single status line on the terminal
+class TtyProgressReporter implements ProgressReporter {
+  private line = '';
+  private lastDraw = 0;
+
+  start(job: CliJob, details: { segments: number; live: boolean; variant?: string }): void {
+    const variant = details.variant ? `, ${details.variant}` : '';
+    const kind = details.live ? 'live stream' : `${details.segments} segments`;
+    this.note(`${job.total > 1 ? `[${job.index}/${job.total}] ` : ''}${job.url} (${kind}${variant}) -> ${job.output}`);
+  }
+
+  progress(_job: CliJob, progress: DownloadProgress): void {
+    // Segments can finish hundreds of times a second; the terminal does not need every one
+    const now = Date.now();
+    if (now - this.lastDraw < 100 && progress.percentage < 100) {
+      return;
+    }
+    this.lastDraw = now;
+
+    const speed = progress.bytesPerSecond ? `  ${formatBytes(progress.bytesPerSecond)}/s` : '';
+    if (progress.isLive) {
+      this.draw(`Recording ${ClipPlanner.formatTime(progress.elapsedSeconds ?? 0)}  ${progress.segmentIndex} segments  ${formatBytes(progress.downloadedBytes)}${speed}  (Ctrl+C to stop)`);
+      return;
+    }
+    const width = 30;
+    const filled = Math.round((progress.percentage / 100) * width);
+    const bar = `${'#'.repeat(filled)}${'-'.repeat(width - filled)}`;
+    const size = progress.sizeEstimate
+      ? `${formatBytes(progress.downloadedBytes)}/${progress.sizeEstimate === 'exact' ? '' : '~'}${formatBytes(progress.totalBytes)}`
+      : formatBytes(progress.downloadedBytes);
+    const eta = progress.etaSeconds !== undefined ? `  ETA ${ClipPlanner.formatTime(progress.etaSeconds)}` : '';
+    this.draw(`[${bar}] ${progress.percentage}%  ${progress.segmentIndex}/${progress.totalSegments}  ${size}${speed}${eta}`);
+  }
+
+  note(message: string): void {
+    this.clear();
+    process.stderr.write(`${message}\n`);
+    this.restore();
+  }
+
+  finish(job: CliJob, report: JobReport): void {
+    this.clear();
+    this.line = '';
+    process.stderr.write(`${describe(job, report)}\n`);
+  }
+
+  private draw(line: string): void {
+    this.clear();
+    this.line = line.slice(0, (process.stderr.columns || 80) - 1);
+    this.restore();
+  }
+
+  private clear(): void {
+    if (this.line) {
+      process.stderr.write('\r\x1b[2K');
+    }
+  }
+
+  private restore(): void {
+    if (this.line) {
+      process.stderr.write(this.line);
+    }
+  }
+}
+
+// Pipes and log files get a line every 10% instead of a redrawn bar
+class PlainProgressReporter implements ProgressReporter {
+  private lastStep = -1;
+
+  start(job: CliJob, details: { segments: number; live: boolean; variant?: string }): void {
+    this.lastStep = -1;
+    const kind = details.live ? 'live stream' : `${details.segments} segments`;
+    this.note(`Downloading ${job.url} (${kind}) -> ${job.output}`);
+  }
+
+  progress(_job: CliJob, progress: DownloadProgress): void {
+    const step = progress.isLive ? Math.floor((progress.elapsedSeconds ?? 0) / 60) : Math.floor(progress.percentage / 10);
+    if (step === this.lastStep) {
+      return;
+    }
+    this.lastStep = step;
+    this.note(progress.isLive
+      ? `Recorded ${ClipPlanner.formatTime(progress.elapsedSeconds ?? 0)}, ${progress.segmentIndex} segments`
+      : `${progress.percentage}% (${progress.segmentIndex}/${progress.totalSegments} segments)`);
+  }
+
+  note(message: string): void {
+    process.stderr.write(`${message}\n`);
+  }
+
+  finish(job: CliJob, report: JobReport): void {
+    this.note(describe(job, report));
+  }
+}
+
+export const createProgressReporter = (json: boolean): ProgressReporter => {
+  if (json) {
+    return new JsonProgressReporter();
+  }
+  return process.stderr.isTTY ? new TtyProgressReporter() : new PlainProgressReporter();
+};
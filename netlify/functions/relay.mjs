@@ -0,0 +1,4 @@
+// Netlify Function behind /api/relay (see public/_redirects); allowlist in the RELAY_ALLOWED_HOSTS env var
+import { handleRelay, parseAllowedHosts } from '../../relay/relayCore.js';
+
+export default request => handleRelay(request, { allowedHosts: parseAllowedHosts(process.env.RELAY_ALLOWED_HOSTS) });
@@ -0,0 +1,67 @@
+// Streams downloads assembled in the page straight to disk.
+// The page posts a MessagePort per download and then navigates a hidden frame to
+// the matching path; this worker answers that navigation with a ReadableStream that
+// pulls chunks from the port one at a time, so neither side buffers the whole file.
+
+const STREAM_PATH_PREFIX = '/__edumaster-stream/';
+const streams = new Map();
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', event => {
+  const data = event.data;
+  if (!data || data.type !== 'stream') return;
+
+  const port = data.port;
+  let pullResolver = null;
+
+  const stream = new ReadableStream({
+    pull(controller) {
+      return new Promise(resolve => {
+        pullResolver = resolve;
+        port.onmessage = message => {
+          const payload = message.data;
+          if (payload.type === 'chunk') {
+            controller.enqueue(new Uint8Array(payload.chunk));
+          } else if (payload.type === 'close') {
+            controller.close();
+          } else if (payload.type === 'abort') {
+            controller.error(new Error('Download aborted'));
+          }
+          pullResolver = null;
+          resolve();
+        };
+        port.postMessage({ type: 'pull' });
+      });
+    },
+    cancel() {
+      // The user cancelled the download in the browser UI
+      port.postMessage({ type: 'cancel' });
+      if (pullResolver) pullResolver();
+    }
+  });
+
+  streams.set(data.path, { stream, fileName: data.fileName, mimeType: data.mimeType });
+});
+
+self.addEventListener('fetch', event => {
+  const url = new URL(event.request.url);
+  if (!url.pathname.startsWith(STREAM_PATH_PREFIX)) return;
+
+  const entry = streams.get(url.pathname);
+  if (!entry) {
+    event.respondWith(new Response('Download not found', { status: 404 }));
+    return;
+  }
+  streams.delete(url.pathname);
+
+  const encodedName = encodeURIComponent(entry.fileName);
+  event.respondWith(new Response(entry.stream, {
+    headers: {
+      'Content-Type': entry.mimeType,
+      'Content-Disposition': `attachment; filename="${encodedName}"; filename*=UTF-8''${encodedName}`,
+      'X-Content-Type-Options': 'nosniff'
+    }
+  }));
+});
@@ -0,0 +1,123 @@
+// CORS relay shared by the Netlify function, the Vercel function and the local Node server.
+// GET ?url=<target>[&referer=<url>][&origin=<url>][&header=Name:%20value ...]
+// Only hosts on the allowlist are fetched, including every redirect hop, so it is not an open proxy.
+
+const MAX_REDIRECTS = 5;
+
+// Headers the caller may not override: they describe the relay connection, not the upstream request
+const BLOCKED_HEADERS = new Set(['host', 'connection', 'content-length', 'transfer-encoding', 'upgrade', 'te', 'trailer', 'keep-alive']);
+
+const RESPONSE_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges', 'cache-control', 'etag', 'last-modified'];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Expose-Headers': 'Content-Length, Content-Range, Accept-Ranges, X-Relay-Final-Url',
+  'Access-Control-Max-Age': '86400'
+};
+
+// "cdn.example.com, *.akamaized.net" -> ['cdn.example.com', '*.akamaized.net']
+export function parseAllowedHosts(value) {
+  return (value ?? '').split(/[\s,]+/).map(host => host.trim().toLowerCase()).filter(host => host);
+}
+
+export function isHostAllowed(hostname, allowedHosts) {
+  const host = hostname.toLowerCase();
+  return allowedHosts.some(pattern => {
+    if (pattern === '*') return true;
+    if (pattern.startsWith('*.')) return host.endsWith(pattern.substring(1)) || host === pattern.substring(2);
+    return host === pattern;
+  });
+}
+
+function errorResponse(status, message) {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+  });
+}
+
+function parseTarget(value, allowedHosts) {
+  let target;
+  try {
+    target = new URL(value);
+  } catch {
+    return { error: errorResponse(400, 'The url parameter must be an absolute URL') };
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    return { error: errorResponse(400, 'Only http and https URLs can be relayed') };
+  }
+  if (!isHostAllowed(target.hostname, allowedHosts)) {
+    return { error: errorResponse(403, `Host ${target.hostname} is not on the relay allowlist`) };
+  }
+  return { target };
+}
+
+function upstreamHeaders(request, params) {
+  const headers = new Headers();
+  for (const value of params.getAll('header')) {
+    const separator = value.indexOf(':');
+    const name = separator > 0 ? value.substring(0, separator).trim() : '';
+    if (!name || BLOCKED_HEADERS.has(name.toLowerCase())) continue;
+    headers.set(name, value.substring(separator + 1).trim());
+  }
+  if (params.get('referer')) headers.set('Referer', params.get('referer'));
+  if (params.get('origin')) headers.set('Origin', params.get('origin'));
+  // Byte-range segments and resumable requests need Range passed through
+  const range = request.headers.get('range');
+  if (range) headers.set('Range', range);
+  return headers;
+}
+
+export async function handleRelay(request, { allowedHosts = [] } = {}) {
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return errorResponse(405, 'Only GET and HEAD requests are relayed');
+  }
+  if (allowedHosts.length === 0) {
+    return errorResponse(503, 'The relay has no allowed hosts; set RELAY_ALLOWED_HOSTS');
+  }
+
+  const params = new URL(request.url).searchParams;
+  if (!params.get('url')) {
+    return errorResponse(400, 'Missing url parameter');
+  }
+  let { target, error } = parseTarget(params.get('url'), allowedHosts);
+  if (error) return error;
+
+  const headers = upstreamHeaders(request, params);
+  let upstream;
+  try {
+    // Redirects are followed by hand so every hop is checked against the allowlist
+    for (let hop = 0; ; hop++) {
+      upstream = await fetch(target, { method: request.method, headers, redirect: 'manual' });
+      const location = upstream.headers.get('location');
+      if (upstream.status < 300 || upstream.status >= 400 || !location) break;
+      if (hop >= MAX_REDIRECTS) return errorResponse(508, 'Too many redirects');
+
+      ({ target, error } = parseTarget(new URL(location, target).href, allowedHosts));
+      if (error) return error;
+    }
+  } catch (fetchError) {
+    return errorResponse(502, `Upstream request failed: ${fetchError instanceof Error ? fetchError.message : fetchError}`);
+  }
+
+  const responseHeaders = new Headers(CORS_HEADERS);
+  // fetch() decompresses encoded bodies, so their upstream length no longer applies
+  const encoded = upstream.headers.has('content-encoding');
+  for (const name of RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value && !(encoded && name === 'content-length')) responseHeaders.set(name, value);
+  }
+  // The client resolves relative playlist URIs against the URL the content really came from
+  responseHeaders.set('X-Relay-Final-Url', target.href);
+
+  return new Response(request.method === 'HEAD' ? null : upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: responseHeaders
+  });
+}
@@ -0,0 +1,47 @@
+// Local CORS relay: RELAY_ALLOWED_HOSTS=cdn.example.com node relay/server.mjs
+// Then enable the relay in the app with the endpoint http://localhost:8787/relay
+import { createServer } from 'node:http';
+import { Readable } from 'node:stream';
+import { handleRelay, parseAllowedHosts } from './relayCore.js';
+
+const port = parseInt(process.env.RELAY_PORT ?? '8787');
+const allowedHosts = parseAllowedHosts(process.env.RELAY_ALLOWED_HOSTS ?? process.argv.slice(2).join(','));
+
+if (allowedHosts.length === 0) {
+  console.error('No allowed hosts. Pass them as arguments or set RELAY_ALLOWED_HOSTS, e.g. "cdn.example.com,*.akamaized.net"');
+  process.exit(1);
+}
+
+const server = createServer(async (req, res) => {
+  try {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? `localhost:${port}`}`);
+    if (url.pathname !== '/relay') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (typeof value === 'string') headers.set(name, value);
+    }
+    const response = await handleRelay(new Request(url, { method: req.method, headers }), { allowedHosts });
+
+    res.writeHead(response.status, response.statusText || undefined, Object.fromEntries(response.headers));
+    if (!response.body) {
+      res.end();
+      return;
+    }
+    const body = Readable.fromWeb(response.body);
+    // Stop the upstream download when the browser goes away (e.g. a cancelled segment)
+    res.on('close', () => body.destroy());
+    body.pipe(res);
+  } catch (error) {
+    console.error('Relay request failed:', error);
+    if (!res.headersSent) res.writeHead(500);
+    res.end();
+  }
+});
+
+server.listen(port, () => {
+  console.log(`CORS relay listening on http://localhost:${port}/relay for ${allowedHosts.join(', ')}`);
+});
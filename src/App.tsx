@@ -1,24 +1,199 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { UrlInput } from './components/UrlInput';
 import { VideoInfo } from './components/VideoInfo';
+import { VariantPicker } from './components/VariantPicker';
+import { AdvancedOptions } from './components/AdvancedOptions';
+import { FailedSegments } from './components/FailedSegments';
+import { ValidationReport } from './components/ValidationReport';
+import { ResumeJobs } from './components/ResumeJobs';
+import { ClipRange } from './components/ClipRange';
+import { PreviewPlayer } from './components/PreviewPlayer';
+import { RenditionPicker } from './components/RenditionPicker';
+import { RelaySettings } from './components/RelaySettings';
+import { DownloadQueuePanel } from './components/DownloadQueuePanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { FileNameSettings } from './components/FileNameSettings';
 import { ProgressBar } from './components/ProgressBar';
 import { ErrorMessage } from './components/ErrorMessage';
 import { M3U8Parser } from './utils/m3u8Parser';
-import { VideoDownloader } from './utils/videoDownloader';
-import { M3U8Playlist, DownloadProgress } from './types';
-import { Video, Github, AlertTriangle, Sparkles, Zap, Clock } from 'lucide-react';
+import { PlaylistLoader } from './utils/playlistLoader';
+import { VariantSelector } from './utils/variantSelector';
+import { RenditionSelector } from './utils/renditionSelector';
+import { DownloadEngineFactory } from './utils/workerDownloader';
+import { SegmentDownloadError } from './utils/retryPolicy';
+import { PlaylistParseError } from './utils/hlsTags';
+import { UrlResolver } from './utils/urlResolver';
+import { DEFAULT_RELAY_URL } from './utils/relayClient';
+import { DownloadJournal } from './utils/downloadJournal';
+import { DownloadHistory } from './utils/downloadHistory';
+import { FileNameTemplate } from './utils/fileNameTemplate';
+import { MemorySegmentStore } from './utils/segmentStore';
+import { OutputSinkFactory } from './utils/outputSink';
+import { DownloadQueue } from './utils/downloadQueue';
+import { ClipPlanner } from './utils/clipPlanner';
+import { PreviewSession } from './utils/previewSession';
+import { SegmentCache } from './utils/segmentCache';
+import { OUTPUT_FORMATS, isAudioFormat, resolveOutputFormat } from './utils/outputFormats';
+import { M3U8Playlist, M3U8MasterPlaylist, M3U8Rendition, M3U8Variant, DownloadAttachment, DownloadProgress, DownloadOptions, DownloadResult, FileNameContext, HistoryEntry, HistoryResult, OutputSink, ParseOptions, PlaylistDiagnostic, QualityPreference, RelayConfig, SegmentFailure, SegmentStore, ResumableJob, QueueEntry, QueueJob, TimeRange } from './types';
+import { Video, Github, AlertTriangle, Sparkles, Zap, Clock, Paperclip } from 'lucide-react';
 
-type AppState = 'idle' | 'parsing' | 'ready' | 'downloading' | 'completed';
+type AppState = 'idle' | 'parsing' | 'selecting' | 'ready' | 'downloading' | 'partial' | 'completed';
+
+// Problems that lenient parsing worked around in one playlist
+interface PlaylistIssues {
+  label: string;
+  diagnostics: PlaylistDiagnostic[];
+}
+
+// The video a download saves and the names it is saved under, fixed when the download starts
+interface DownloadTarget {
+  sourceUrl: string | null;
+  variant: M3U8Variant | null;
+  // Shared by the video and its attachments
+  baseName: string;
+  fileName: string;
+}
+
+const attachmentFileName = (baseName: string, attachment: DownloadAttachment): string =>
+  `${baseName}.${attachment.suffix}.${attachment.extension}`;
+
+const getDeepLinkParam = (name: string): string | null => {
+  try {
+    return new URLSearchParams(window.location.search).get(name);
+  } catch (error) {
+    console.warn(`Failed to read ?${name}= parameter:`, error);
+    return null;
+  }
+};
+
+// ?start= and ?end= accept seconds or h:mm:ss
+const getDeepLinkClip = (): TimeRange | undefined => {
+  try {
+    const range = {
+      start: ClipPlanner.parseTime(getDeepLinkParam('start')),
+      end: ClipPlanner.parseTime(getDeepLinkParam('end'))
+    };
+    return ClipPlanner.isActive(range) ? range : undefined;
+  } catch (error) {
+    console.warn('Ignoring invalid clip parameters:', error);
+    return undefined;
+  }
+};
+
+// ?strict=1 rejects playlists that break RFC 8216 instead of working around them
+const getDeepLinkParseOptions = (): ParseOptions => ({
+  mode: getDeepLinkParam('strict') === '1' ? 'strict' : 'lenient'
+});
+
+// ?forward= lists query parameters of the playlist URL to copy onto variant, segment and key requests
+const getDeepLinkForwardParams = (): string[] | undefined => {
+  const names = UrlResolver.parseNames(getDeepLinkParam('forward'));
+  return names.length > 0 ? names : undefined;
+};
+
+// ?relay=1 uses the deployment's own relay, ?relay=<endpoint> another one
+const getDeepLinkRelay = (): RelayConfig | undefined => {
+  const relay = getDeepLinkParam('relay');
+  if (!relay || relay === '0') return undefined;
+  return { url: relay === '1' ? DEFAULT_RELAY_URL : relay };
+};
+
+// ?audio= picks an audio language and ?subtitles= a comma-separated list of subtitle languages
+const getDeepLinkRenditions = (master: M3U8MasterPlaylist, variant: M3U8Variant): Pick<DownloadOptions, 'audioRendition' | 'subtitleRenditions'> => {
+  const audio = RenditionSelector.forVariant(master, variant, 'AUDIO');
+  const subtitles = RenditionSelector.forVariant(master, variant, 'SUBTITLES');
+  const audioLanguage = getDeepLinkParam('audio');
+  const audioRendition = (audioLanguage && RenditionSelector.matchLanguage(audio, audioLanguage)) || RenditionSelector.defaultAudio(audio);
+  const subtitleRenditions = (getDeepLinkParam('subtitles') ?? '')
+    .split(',')
+    .map(language => RenditionSelector.matchLanguage(subtitles, language))
+    .filter((rendition): rendition is M3U8Rendition => !!rendition?.uri);
+
+  return { audioRendition: audioRendition?.uri ? audioRendition : undefined, subtitleRenditions };
+};
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
 
 function App() {
   const [state, setState] = useState<AppState>('idle');
   const [playlist, setPlaylist] = useState<M3U8Playlist | null>(null);
+  const [masterPlaylist, setMasterPlaylist] = useState<M3U8MasterPlaylist | null>(null);
+  const [selectedVariant, setSelectedVariant] = useState<M3U8Variant | null>(null);
+  const [qualityPreference, setQualityPreference] = useState<QualityPreference>(() =>
+    getDeepLinkParam('quality') === 'lowest' ? 'lowest' : 'highest'
+  );
   const [progress, setProgress] = useState<DownloadProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [downloadedBlob, setDownloadedBlob] = useState<Blob | null>(null);
-  const [videoDownloader] = useState(() => new VideoDownloader());
+  const [errorDiagnostics, setErrorDiagnostics] = useState<PlaylistDiagnostic[]>([]);
+  const [playlistIssues, setPlaylistIssues] = useState<PlaylistIssues[]>([]);
+  const [downloadOptions, setDownloadOptions] = useState<DownloadOptions>(() => {
+    const clip = getDeepLinkClip();
+    const forwardQueryParams = getDeepLinkForwardParams();
+    const relay = getDeepLinkRelay();
+    return { ...(clip && { clip }), ...(forwardQueryParams && { forwardQueryParams }), ...(relay && { relay }) };
+  });
+  const [failedSegments, setFailedSegments] = useState<SegmentFailure[]>([]);
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+  const [mediaPlaylistUrl, setMediaPlaylistUrl] = useState<string | null>(null);
+  // A ref so callbacks captured before the journal job exists still see its id
+  const activeJobIdRef = useRef<string | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [resumableJobs, setResumableJobs] = useState<ResumableJob[]>([]);
+  const [downloadResult, setDownloadResult] = useState<DownloadResult | null>(null);
+  const [videoDownloader] = useState(() => DownloadEngineFactory.create());
   const [directUrl, setDirectUrl] = useState<string | null>(null);
   const [autoDownloadCountdown, setAutoDownloadCountdown] = useState<number | null>(null);
+  const [downloadQueue] = useState(() => new DownloadQueue());
+  const [segmentCache] = useState(() => new SegmentCache());
+  const [queueJobs, setQueueJobs] = useState<QueueJob[]>([]);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [keepCopies, setKeepCopies] = useState(() => DownloadHistory.keepsCopies());
+  // ?filename= sets the template for this visit without replacing the saved one
+  const [fileNameTemplate, setFileNameTemplate] = useState(() => getDeepLinkParam('filename') || FileNameTemplate.load());
+  const [queueConcurrency, setQueueConcurrency] = useState(downloadQueue.maxConcurrent);
+
+  const outputFormat = OUTPUT_FORMATS[resolveOutputFormat(playlist, downloadOptions)];
+
+  const isLive = !!playlist && M3U8Parser.isLive(playlist);
+
+  const audioRenditions = masterPlaylist ? RenditionSelector.forVariant(masterPlaylist, selectedVariant, 'AUDIO') : [];
+  const subtitleRenditions = masterPlaylist ? RenditionSelector.forVariant(masterPlaylist, selectedVariant, 'SUBTITLES') : [];
+  // Audio-only downloads take an audio-only variant unless an audio rendition is chosen
+  const audioOnlyVariant = masterPlaylist && !downloadOptions.audioRendition?.uri ? VariantSelector.selectAudioOnly(masterPlaylist.variants) : null;
+  const audioBitrate = VariantSelector.audioBitrate(audioOnlyVariant ?? selectedVariant);
+
+  const clipPlan = useMemo(() => {
+    if (!playlist || M3U8Parser.isLive(playlist) || !ClipPlanner.isActive(downloadOptions.clip)) return null;
+    try {
+      return ClipPlanner.plan(playlist, downloadOptions.clip);
+    } catch (error) {
+      console.warn('Clip range does not fit this video:', error);
+      return null;
+    }
+  }, [playlist, downloadOptions.clip]);
+
+  const outputDuration = isLive ? undefined : clipPlan?.duration ?? playlist?.totalDuration;
+  const fileNameContext: FileNameContext | undefined = useMemo(
+    () => sourceUrl ? { url: sourceUrl, variant: selectedVariant, duration: outputDuration } : undefined,
+    [sourceUrl, selectedVariant, outputDuration]
+  );
+  const outputBaseName = FileNameTemplate.render(fileNameTemplate, fileNameContext ?? { url: '' });
+  const outputFileName = `${outputBaseName}.${outputFormat.extension}`;
+
+  // Built from what is being saved rather than from state, which a resumed job sets in the same tick it starts
+  const downloadTarget = useCallback((context: FileNameContext | undefined, extension: string): DownloadTarget => {
+    const baseName = FileNameTemplate.render(fileNameTemplate, context ?? { url: '' });
+    return { sourceUrl: context?.url ?? null, variant: context?.variant ?? null, baseName, fileName: `${baseName}.${extension}` };
+  }, [fileNameTemplate]);
 
   // Enhanced URL validation for M3U8 files
   const isValidM3U8Url = useCallback((url: string): boolean => {
@@ -125,8 +300,8 @@ function App() {
         if (urlToProcess) {
           console.log('Valid direct M3U8 URL detected:', urlToProcess);
           setDirectUrl(urlToProcess);
-          // Start processing immediately for direct URLs
-          handleUrlSubmit(urlToProcess);
+          // Start processing immediately for direct URLs, picking the default quality automatically
+          handleUrlSubmit(urlToProcess, true);
         } else {
           // Clear any previous direct URL state if no valid URL found
           setDirectUrl(null);
@@ -142,6 +317,20 @@ function App() {
     return () => clearTimeout(timer);
   }, [extractUrlFromPath]);
 
+  // Offer to resume downloads left unfinished by a reload, crash or sleep
+  useEffect(() => {
+    if (!DownloadJournal.isAvailable()) return;
+
+    DownloadJournal.listUnfinished()
+      .then(jobs => {
+        if (jobs.length > 0) {
+          console.log('Found unfinished downloads:', jobs.length);
+          setResumableJobs(jobs);
+        }
+      })
+      .catch(error => console.warn('Failed to read download journal:', error));
+  }, []);
+
   // Auto-download countdown for direct URLs
   useEffect(() => {
     if (directUrl && state === 'ready' && playlist) {
@@ -152,7 +341,7 @@ function App() {
             return prev - 1;
           } else {
             clearInterval(countdown);
-            handleDownload();
+            handleDownload(false);
             return null;
           }
         });
@@ -162,11 +351,110 @@ function App() {
     }
   }, [directUrl, state, playlist]);
 
-  const handleUrlSubmit = useCallback(async (url: string) => {
+  useEffect(() => downloadQueue.subscribe(setQueueJobs), [downloadQueue]);
+
+  useEffect(() => {
+    downloadQueue.setQualityPreference(qualityPreference);
+  }, [downloadQueue, qualityPreference]);
+
+  useEffect(() => {
+    downloadQueue.setFileNameTemplate(fileNameTemplate);
+  }, [downloadQueue, fileNameTemplate]);
+
+  // Queue jobs add to the history too, so the list follows every change
+  useEffect(() => {
+    if (!DownloadHistory.isAvailable()) return;
+
+    const refresh = () => {
+      DownloadHistory.list()
+        .then(setHistoryEntries)
+        .catch(error => console.warn('Failed to read download history:', error));
+    };
+    refresh();
+    return DownloadHistory.subscribe(refresh);
+  }, []);
+
+  // Cached segments are already decrypted, so a different key makes them useless
+  useEffect(() => {
+    segmentCache.clear();
+  }, [segmentCache, downloadOptions.keyOverride]);
+
+  const handleLoadError = useCallback((error: unknown, fallbackState: AppState) => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error('M3U8 processing error:', error);
+
+    // Enhanced error handling with specific messages
+    if (error instanceof PlaylistParseError) {
+      setError(errorMessage);
+      setErrorDiagnostics(error.diagnostics);
+    } else if (errorMessage.includes('Failed to fetch') || errorMessage.includes('NetworkError')) {
+      setError(`Network Error: Unable to access the M3U8 file. This could be due to:
+        • CORS restrictions on the server
+        • Invalid or unreachable URL
+        • Network connectivity issues
+        Please ensure the URL is correct and the server allows cross-origin requests, or enable the CORS relay.`);
+    } else if (errorMessage.includes('Invalid M3U8') || errorMessage.includes('No video segments')) {
+      setError(`Invalid M3U8 Format: The provided URL does not contain a valid M3U8 playlist or has no video segments.`);
+    } else if (errorMessage.includes('HTTP')) {
+      setError(`Server Error: ${errorMessage}. The M3U8 file might be temporarily unavailable.`);
+    } else {
+      setError(`Processing Error: ${errorMessage}`);
+    }
+    setState(fallbackState);
+  }, []);
+
+  // Warnings only go to the console; errors that lenient parsing worked around are shown as well
+  const reportPlaylistIssues = useCallback((label: string, diagnostics: PlaylistDiagnostic[] = []) => {
+    diagnostics.forEach(diagnostic =>
+      console.warn(`${label} line ${diagnostic.line}${diagnostic.tag ? ` ${diagnostic.tag}` : ''}: ${diagnostic.message}`)
+    );
+    const hasErrors = diagnostics.some(diagnostic => diagnostic.severity === 'error');
+    setPlaylistIssues(issues => [
+      ...issues.filter(issue => issue.label !== label),
+      ...(hasErrors ? [{ label, diagnostics }] : [])
+    ]);
+  }, []);
+
+  const loadMediaPlaylist = useCallback(async (url: string) => {
+    const loaded = await PlaylistLoader.load(url, downloadOptions.relay);
+    console.log('M3U8 content received, length:', loaded.content.length);
+
+    const parsedPlaylist = M3U8Parser.parsePlaylist(loaded.content, loaded.url, getDeepLinkParseOptions());
+    reportPlaylistIssues('Media playlist', parsedPlaylist.diagnostics);
+    console.log('Playlist parsed successfully:', {
+      segments: parsedPlaylist.segments.length,
+      duration: parsedPlaylist.totalDuration,
+      version: parsedPlaylist.version
+    });
+
+    // A live playlist may not have published its first segment yet
+    if (parsedPlaylist.segments.length === 0 && !M3U8Parser.isLive(parsedPlaylist)) {
+      throw new Error('No video segments found in M3U8 playlist');
+    }
+
+    setPlaylist(parsedPlaylist);
+    setMediaPlaylistUrl(url);
+    setState('ready');
+  }, [reportPlaylistIssues, downloadOptions.relay]);
+
+  const handleUrlSubmit = useCallback(async (url: string, autoSelectVariant = false) => {
     setState('parsing');
     setError(null);
+    setErrorDiagnostics([]);
+    setPlaylistIssues([]);
     setPlaylist(null);
+    setMasterPlaylist(null);
+    setSelectedVariant(null);
     setAutoDownloadCountdown(null);
+    setSourceUrl(url);
+    // A clip range and manual key only make sense for the video they were chosen for; a clip can come with the deep link
+    setDownloadOptions(options => ({
+      ...options,
+      clip: autoSelectVariant ? options.clip : undefined,
+      keyOverride: undefined,
+      audioRendition: undefined,
+      subtitleRenditions: undefined
+    }));
     
     if (!isValidM3U8Url(url)) {
       setError('Please provide a valid M3U8 URL (must be HTTP/HTTPS and contain .m3u8)');
@@ -177,152 +465,436 @@ function App() {
     try {
       console.log('Processing M3U8 URL:', url);
       
-      // Enhanced fetch with better headers and error handling
-      const response = await fetch(url, { 
-        mode: 'cors',
-        method: 'GET',
-        headers: {
-          'Accept': 'application/x-mpegURL, application/vnd.apple.mpegurl, application/octet-stream, text/plain, */*',
-          'User-Agent': 'EduMaster-VideoDownloader/1.0',
-          'Cache-Control': 'no-cache',
-          'Pragma': 'no-cache'
-        },
-        cache: 'no-cache',
-        credentials: 'omit'
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const content = await response.text();
+      const loaded = await PlaylistLoader.load(url, downloadOptions.relay);
       
-      if (!content || content.trim().length === 0) {
-        throw new Error('Received empty response from M3U8 URL');
+      if (!M3U8Parser.isMasterPlaylist(loaded.content)) {
+        await loadMediaPlaylist(url);
+        return;
       }
-      
-      console.log('M3U8 content received, length:', content.length);
-      
-      const parsedPlaylist = M3U8Parser.parsePlaylist(content, url);
-      console.log('Playlist parsed successfully:', {
-        segments: parsedPlaylist.segments.length,
-        duration: parsedPlaylist.totalDuration,
-        version: parsedPlaylist.version
+
+      const parsedMaster = M3U8Parser.parseMasterPlaylist(loaded.content, loaded.url, getDeepLinkParseOptions());
+      reportPlaylistIssues('Master playlist', parsedMaster.diagnostics);
+      const defaultVariant = VariantSelector.select(
+        parsedMaster.variants,
+        qualityPreference,
+        getDeepLinkParam('quality')
+      );
+      console.log('Master playlist parsed:', {
+        variants: parsedMaster.variants.length,
+        selected: VariantSelector.label(defaultVariant)
       });
-      
-      if (parsedPlaylist.segments.length === 0) {
-        throw new Error('No video segments found in M3U8 playlist');
+
+      setMasterPlaylist(parsedMaster);
+      setSelectedVariant(defaultVariant);
+
+      if (autoSelectVariant) {
+        setDownloadOptions(options => ({ ...options, ...getDeepLinkRenditions(parsedMaster, defaultVariant) }));
+        await loadMediaPlaylist(UrlResolver.forwardQueryParams(defaultVariant.uri, parsedMaster.url, downloadOptions.forwardQueryParams));
+      } else {
+        setState('selecting');
       }
       
-      setPlaylist(parsedPlaylist);
-      setState('ready');
-      
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      console.error('M3U8 processing error:', error);
-      
-      // Enhanced error handling with specific messages
-      if (errorMessage.includes('Failed to fetch') || errorMessage.includes('NetworkError')) {
-        setError(`Network Error: Unable to access the M3U8 file. This could be due to:
-        • CORS restrictions on the server
-        • Invalid or unreachable URL
-        • Network connectivity issues
-        Please ensure the URL is correct and the server allows cross-origin requests.`);
-      } else if (errorMessage.includes('Invalid M3U8') || errorMessage.includes('No video segments')) {
-        setError(`Invalid M3U8 Format: The provided URL does not contain a valid M3U8 playlist or has no video segments.`);
-      } else if (errorMessage.includes('HTTP')) {
-        setError(`Server Error: ${errorMessage}. The M3U8 file might be temporarily unavailable.`);
-      } else {
-        setError(`Processing Error: ${errorMessage}`);
-      }
-      setState('idle');
+      handleLoadError(error, 'idle');
     }
-  }, [isValidM3U8Url]);
+  }, [isValidM3U8Url, loadMediaPlaylist, reportPlaylistIssues, handleLoadError, qualityPreference, downloadOptions.forwardQueryParams, downloadOptions.relay]);
 
-  const handleDownload = useCallback(async () => {
-    if (!playlist) return;
+  const handleQualityPreferenceChange = useCallback((preference: QualityPreference) => {
+    setQualityPreference(preference);
+    if (masterPlaylist) {
+      setSelectedVariant(VariantSelector.select(masterPlaylist.variants, preference));
+    }
+  }, [masterPlaylist]);
+
+  const handleVariantConfirm = useCallback(async () => {
+    if (!selectedVariant || !masterPlaylist) return;
+
+    setState('parsing');
+    setError(null);
+    setErrorDiagnostics([]);
+    // Rendition groups differ between variants, so pick the defaults of the confirmed one
+    setDownloadOptions(options => ({ ...options, ...getDeepLinkRenditions(masterPlaylist, selectedVariant) }));
+
+    try {
+      console.log('Loading variant playlist:', selectedVariant.uri);
+      await loadMediaPlaylist(UrlResolver.forwardQueryParams(selectedVariant.uri, masterPlaylist.url, downloadOptions.forwardQueryParams));
+    } catch (error) {
+      handleLoadError(error, 'selecting');
+    }
+  }, [selectedVariant, masterPlaylist, loadMediaPlaylist, handleLoadError, downloadOptions.forwardQueryParams]);
+
+  const discardActiveJob = useCallback(() => {
+    const jobId = activeJobIdRef.current;
+    if (!jobId) return;
+    DownloadJournal.deleteJob(jobId).catch(error => console.warn('Failed to clear download journal:', error));
+    activeJobIdRef.current = null;
+  }, []);
+
+  const recordHistory = useCallback((target: DownloadTarget, result: HistoryResult, downloadResult?: DownloadResult, error?: string) => {
+    const { sourceUrl, variant } = target;
+    if (!DownloadHistory.isAvailable() || !sourceUrl) return;
+
+    const blob = downloadResult?.blob;
+    DownloadHistory.record({
+      sourceUrl,
+      title: FileNameTemplate.titleFromUrl(sourceUrl),
+      variant: variant ? VariantSelector.label(variant) : undefined,
+      duration: downloadResult?.duration ?? 0,
+      size: downloadResult?.size ?? 0,
+      result,
+      fileName: target.fileName,
+      error
+    }, blob && keepCopies ? { blob, attachments: downloadResult.attachments } : undefined)
+      .catch(error => console.warn('Failed to record download history:', error));
+  }, [keepCopies]);
+
+  const completeDownload = useCallback((result: DownloadResult, target: DownloadTarget, outcome: HistoryResult = 'completed') => {
+    console.log('Download completed, size:', result.size, 'written via', result.sinkKind);
+    recordHistory(target, outcome, result);
+    setDownloadResult(result);
+    setFailedSegments([]);
+    setState('completed');
+    discardActiveJob();
     
+    // Auto-save for direct URLs; streamed sinks have already saved the video but not its attachments
+    const blob = result.blob;
+    if (directUrl) {
+      setTimeout(() => {
+        if (blob) {
+          saveBlob(blob, target.fileName);
+        }
+        result.attachments?.forEach(attachment => saveBlob(attachment.blob, attachmentFileName(target.baseName, attachment)));
+        console.log('Auto-download triggered for direct URL');
+      }, 1000);
+    }
+  }, [directUrl, discardActiveJob, recordHistory]);
+
+  const handleDownloadError = useCallback((error: unknown, target: DownloadTarget) => {
+    if (error instanceof SegmentDownloadError) {
+      console.warn('Download finished with failed segments:', error.failures);
+      setFailedSegments(error.failures);
+      setError(null);
+      setState('partial');
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Download failed';
+    console.error('Download error:', errorMessage);
+    recordHistory(target, errorMessage.includes('cancelled') ? 'cancelled' : 'failed', undefined, errorMessage);
+    
+    // Enhanced download error handling
+    if (errorMessage.includes('cancelled')) {
+      setError('Download was cancelled by user');
+    } else if (errorMessage.includes('Failed to fetch') || errorMessage.includes('NetworkError')) {
+      setError('Network error during download. Please check your connection and try again.');
+    } else {
+      setError(`Download failed: ${errorMessage}`);
+    }
+    setState('ready');
+  }, [recordHistory]);
+
+  const createSegmentStore = useCallback(async (targetPlaylist: M3U8Playlist, options: DownloadOptions): Promise<SegmentStore> => {
+    if (DownloadJournal.isAvailable() && sourceUrl) {
+      try {
+        const store = await DownloadJournal.createJob(sourceUrl, targetPlaylist, options, selectedVariant);
+        activeJobIdRef.current = store.jobId;
+        return store;
+      } catch (error) {
+        console.warn('Download journal unavailable, progress will not survive a reload:', error);
+      }
+    }
+    activeJobIdRef.current = null;
+    return new MemorySegmentStore();
+  }, [sourceUrl, selectedVariant]);
+
+  const runDownload = useCallback(async (
+    initialProgress: DownloadProgress,
+    targetPlaylist: M3U8Playlist,
+    options: DownloadOptions,
+    target: DownloadTarget,
+    fromUserGesture: boolean,
+    run: (sink: OutputSink) => Promise<DownloadResult>
+  ) => {
+    const format = OUTPUT_FORMATS[resolveOutputFormat(targetPlaylist, options)];
+
     setState('downloading');
     setAutoDownloadCountdown(null);
-    setProgress({
+    setFailedSegments([]);
+    setIsPaused(false);
+    setProgress(initialProgress);
+
+    try {
+      console.log('Starting download process...');
+      // Opened first: the save picker only works while the click's user activation lasts
+      const sink = await OutputSinkFactory.create(target.fileName, format.mimeType, format.extension, fromUserGesture);
+      completeDownload(await run(sink), target);
+    } catch (error) {
+      handleDownloadError(error, target);
+    }
+  }, [completeDownload, handleDownloadError]);
+
+  // prepare swaps in another playlist once the output is open, since the save picker needs the click's activation
+  const startDownload = useCallback(async (
+    targetPlaylist: M3U8Playlist,
+    options: DownloadOptions,
+    target: DownloadTarget,
+    getStore: (targetPlaylist: M3U8Playlist, options: DownloadOptions) => Promise<SegmentStore>,
+    fromUserGesture: boolean,
+    prepare?: () => Promise<{ playlist: M3U8Playlist; options: DownloadOptions } | null>
+  ) => {
+    const initialProgress = {
       segmentIndex: 0,
-      totalSegments: playlist.segments.length,
+      totalSegments: targetPlaylist.segments.length,
       downloadedBytes: 0,
       totalBytes: 0,
       percentage: 0
+    };
+    await runDownload(initialProgress, targetPlaylist, options, target, fromUserGesture, async sink => {
+      let source = { playlist: targetPlaylist, options };
+      try {
+        source = (await prepare?.()) ?? source;
+      } catch (error) {
+        await sink.abort();
+        throw error;
+      }
+      const store = await getStore(source.playlist, source.options);
+      // Segments already watched in the preview are not fetched again
+      const seeded = await segmentCache.seed(store, source.playlist, source.options.clip);
+      if (seeded > 0) {
+        console.log(`Reusing ${seeded} segments from the preview`);
+      }
+      return videoDownloader.downloadM3U8(source.playlist, setProgress, setError, source.options, store, sink);
     });
+  }, [videoDownloader, runDownload, segmentCache]);
 
-    try {
-      console.log('Starting download process...');
-      const blob = await videoDownloader.downloadM3U8(
-        playlist,
-        setProgress,
-        setError
-      );
-      
-      console.log('Download completed, blob size:', blob.size);
-      setDownloadedBlob(blob);
-      setState('completed');
-      
-      // Auto-save for direct URLs
-      if (directUrl) {
-        setTimeout(() => {
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = 'edumaster-video.mp4';
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
-          console.log('Auto-download triggered for direct URL');
-        }, 1000);
+  // Live recordings are not journaled: segments that left the window cannot be fetched again
+  const startRecording = useCallback(async (
+    targetPlaylist: M3U8Playlist,
+    url: string,
+    options: DownloadOptions,
+    target: DownloadTarget,
+    fromUserGesture: boolean
+  ) => {
+    const initialProgress = {
+      segmentIndex: 0,
+      totalSegments: 0,
+      downloadedBytes: 0,
+      totalBytes: 0,
+      percentage: 0,
+      isLive: true,
+      elapsedSeconds: 0
+    };
+    await runDownload(initialProgress, targetPlaylist, options, target, fromUserGesture, sink => videoDownloader.recordLive(
+      url,
+      targetPlaylist,
+      setProgress,
+      setError,
+      options,
+      sink
+    ));
+  }, [videoDownloader, runDownload]);
+
+  const handleDownload = useCallback(async (fromUserGesture = true) => {
+    if (!playlist) return;
+    const target = downloadTarget(fileNameContext, outputFormat.extension);
+    if (isLive && mediaPlaylistUrl) {
+      await startRecording(playlist, mediaPlaylistUrl, downloadOptions, target, fromUserGesture);
+      return;
+    }
+    const options = {
+      ...downloadOptions,
+      bandwidth: selectedVariant ? VariantSelector.bitrate(selectedVariant) : undefined,
+      variant: selectedVariant ?? undefined
+    };
+    // Audio-only output downloads the audio rendition or an audio-only variant instead of the video when there is one
+    const prepare = masterPlaylist && isAudioFormat(downloadOptions.outputFormat)
+      ? async () => {
+        const audio = await PlaylistLoader.loadAudioOnly(masterPlaylist, selectedVariant, downloadOptions.audioRendition, downloadOptions);
+        // The output was opened for the video's format, which raw AAC from an fMP4 audio track would not match
+        if (audio && resolveOutputFormat(audio.playlist, downloadOptions) !== resolveOutputFormat(playlist, downloadOptions)) {
+          throw new Error('The audio track uses fMP4 segments, which can only be saved as M4A audio');
+        }
+        return audio && {
+          playlist: audio.playlist,
+          options: { ...downloadOptions, audioRendition: undefined, bandwidth: VariantSelector.audioBitrate(audio.variant), variant: audio.variant }
+        };
       }
+      : undefined;
+    await startDownload(playlist, options, target, createSegmentStore, fromUserGesture, prepare);
+  }, [playlist, isLive, mediaPlaylistUrl, downloadOptions, masterPlaylist, selectedVariant, fileNameContext, outputFormat.extension, downloadTarget, startDownload, startRecording, createSegmentStore]);
+
+  const handleStopRecording = useCallback(() => {
+    console.log('Stopping live recording');
+    videoDownloader.stopRecording();
+  }, [videoDownloader]);
+
+  const handleResumeJob = useCallback(async ({ job }: ResumableJob) => {
+    console.log('Resuming journaled download:', job.playlistUrl);
+    setResumableJobs(jobs => jobs.filter(resumable => resumable.job.id !== job.id));
+    setError(null);
+    setSourceUrl(job.playlistUrl);
+    setPlaylist(job.playlist);
+    setSelectedVariant(job.variant ?? null);
+    setDownloadOptions(job.options);
+    activeJobIdRef.current = job.id;
+    DownloadJournal.setStatus(job.id, 'active').catch(error => console.warn('Failed to update journal:', error));
+    const clip = ClipPlanner.isActive(job.options.clip) ? ClipPlanner.plan(job.playlist, job.options.clip) : null;
+    const target = downloadTarget(
+      { url: job.playlistUrl, variant: job.variant, duration: clip?.duration ?? job.playlist.totalDuration },
+      OUTPUT_FORMATS[resolveOutputFormat(job.playlist, job.options)].extension
+    );
+    await startDownload(job.playlist, job.options, target, () => DownloadJournal.openJob(job.id), true);
+  }, [downloadTarget, startDownload]);
+
+  const handleDiscardJob = useCallback(async ({ job }: ResumableJob) => {
+    setResumableJobs(jobs => jobs.filter(resumable => resumable.job.id !== job.id));
+    try {
+      await DownloadJournal.deleteJob(job.id);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Download failed';
-      console.error('Download error:', errorMessage);
-      
-      // Enhanced download error handling
-      if (errorMessage.includes('cancelled')) {
-        setError('Download was cancelled by user');
-      } else if (errorMessage.includes('Failed to fetch') || errorMessage.includes('NetworkError')) {
-        setError('Network error during download. Please check your connection and try again.');
-      } else {
-        setError(`Download failed: ${errorMessage}`);
-      }
-      setState('ready');
+      console.warn('Failed to discard journaled download:', error);
     }
-  }, [playlist, videoDownloader, directUrl]);
+  }, []);
+
+  const handlePauseDownload = useCallback(() => {
+    videoDownloader.pause();
+    setIsPaused(true);
+    if (activeJobIdRef.current) {
+      DownloadJournal.setStatus(activeJobIdRef.current, 'paused').catch(error => console.warn('Failed to update journal:', error));
+    }
+  }, [videoDownloader]);
+
+  const handleResumeDownload = useCallback(() => {
+    videoDownloader.resume();
+    setIsPaused(false);
+    if (activeJobIdRef.current) {
+      DownloadJournal.setStatus(activeJobIdRef.current, 'active').catch(error => console.warn('Failed to update journal:', error));
+    }
+  }, [videoDownloader]);
+
+  const handleRetryFailed = useCallback(async () => {
+    setState('downloading');
+    setError(null);
+
+    const target = downloadTarget(fileNameContext, outputFormat.extension);
+    try {
+      console.log('Retrying failed segments:', failedSegments.length);
+      const result = await videoDownloader.retryFailedSegments(setProgress, setError);
+      completeDownload(result, target);
+    } catch (error) {
+      handleDownloadError(error, target);
+    }
+  }, [videoDownloader, failedSegments, fileNameContext, outputFormat.extension, downloadTarget, completeDownload, handleDownloadError]);
+
+  const handleSaveWithGaps = useCallback(async () => {
+    const target = downloadTarget(fileNameContext, outputFormat.extension);
+    try {
+      console.log('Saving with gaps, missing segments:', failedSegments.map(failure => failure.index + 1));
+      completeDownload(await videoDownloader.saveWithGaps(), target, 'partial');
+    } catch (error) {
+      handleDownloadError(error, target);
+    }
+  }, [videoDownloader, failedSegments, fileNameContext, outputFormat.extension, downloadTarget, completeDownload, handleDownloadError]);
 
   const handleCancelDownload = useCallback(() => {
     videoDownloader.cancelDownload();
     setState('ready');
     setProgress(null);
+    setIsPaused(false);
     setAutoDownloadCountdown(null);
-  }, [videoDownloader]);
+    discardActiveJob();
+  }, [videoDownloader, discardActiveJob]);
 
   const handleSaveFile = useCallback(() => {
-    if (!downloadedBlob) return;
-    
-    const url = URL.createObjectURL(downloadedBlob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'edumaster-video.mp4';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [downloadedBlob]);
+    if (!downloadResult?.blob) return;
+    saveBlob(downloadResult.blob, outputFileName);
+  }, [downloadResult, outputFileName]);
+
+  const handleQueueAdd = useCallback((entries: QueueEntry[]) => {
+    console.log('Adding to download queue:', entries.length);
+    // A clip range and renditions only make sense for the video they were chosen for
+    downloadQueue.add(entries, { ...downloadOptions, clip: undefined, audioRendition: undefined, subtitleRenditions: undefined });
+  }, [downloadQueue, downloadOptions]);
+
+  const handleQueueConcurrencyChange = useCallback((concurrency: number) => {
+    downloadQueue.setConcurrency(concurrency);
+    setQueueConcurrency(downloadQueue.maxConcurrent);
+  }, [downloadQueue]);
+
+  const handleQueueSave = useCallback((job: QueueJob) => {
+    if (!job.result || !job.fileName) return;
+    if (job.result.blob) {
+      saveBlob(job.result.blob, job.fileName);
+    }
+    const baseName = job.fileName.replace(/\.[^.]+$/, '');
+    job.result.attachments?.forEach(attachment => saveBlob(attachment.blob, `${baseName}.${attachment.suffix}.${attachment.extension}`));
+  }, []);
 
   const handleReset = useCallback(() => {
+    // Leaving failed segments behind gives up on the download
+    if (state === 'partial') {
+      recordHistory(downloadTarget(fileNameContext, outputFormat.extension), 'failed', undefined, `${failedSegments.length} segments failed to download`);
+    }
+    videoDownloader.cancelDownload();
     setState('idle');
     setPlaylist(null);
+    setMasterPlaylist(null);
+    setSelectedVariant(null);
     setProgress(null);
     setError(null);
-    setDownloadedBlob(null);
+    setErrorDiagnostics([]);
+    setPlaylistIssues([]);
+    setDownloadResult(null);
+    setFailedSegments([]);
+    setSourceUrl(null);
+    setMediaPlaylistUrl(null);
+    setDownloadOptions(options => ({
+      ...options,
+      clip: undefined,
+      keyOverride: undefined,
+      audioRendition: undefined,
+      subtitleRenditions: undefined
+    }));
+    activeJobIdRef.current = null;
+    setIsPaused(false);
     setDirectUrl(null);
     setAutoDownloadCountdown(null);
+    segmentCache.clear();
     window.history.pushState({}, '', '/');
+  }, [videoDownloader, segmentCache, state, failedSegments, fileNameContext, outputFormat.extension, downloadTarget, recordHistory]);
+
+  const handleRedownload = useCallback((entry: HistoryEntry) => {
+    handleReset();
+    handleUrlSubmit(entry.sourceUrl);
+  }, [handleReset, handleUrlSubmit]);
+
+  const handleSaveCopy = useCallback(async (entry: HistoryEntry) => {
+    try {
+      const copy = await DownloadHistory.getCopy(entry.id);
+      if (!copy) {
+        setError('The stored copy of this download is no longer available');
+        return;
+      }
+      saveBlob(copy.blob, entry.fileName);
+      const baseName = entry.fileName.replace(/\.[^.]+$/, '');
+      copy.attachments.forEach(attachment => saveBlob(attachment.blob, `${baseName}.${attachment.suffix}.${attachment.extension}`));
+    } catch (error) {
+      console.error('Failed to read the stored copy:', error);
+      setError('Failed to read the stored copy from browser storage');
+    }
+  }, []);
+
+  const handleDeleteHistory = useCallback((entry: HistoryEntry) => {
+    DownloadHistory.delete(entry.id).catch(error => console.warn('Failed to delete history entry:', error));
+  }, []);
+
+  const handleFileNameTemplateChange = useCallback((template: string) => {
+    setFileNameTemplate(template);
+    FileNameTemplate.save(template);
+  }, []);
+
+  const handleKeepCopiesChange = useCallback((keep: boolean) => {
+    setKeepCopies(keep);
+    DownloadHistory.setKeepCopies(keep);
   }, []);
 
   const formatDuration = (seconds: number): string => {
@@ -390,7 +962,12 @@ function App() {
             <ProgressBar
               progress={progress}
               onCancel={handleCancelDownload}
-              playlist={playlist}
+              // Live recordings and HLS packages cannot be paused
+              onPause={isLive || downloadOptions.outputFormat === 'hls' ? undefined : handlePauseDownload}
+              onResume={handleResumeDownload}
+              onStop={isLive ? handleStopRecording : undefined}
+              isPaused={isPaused}
+              playlist={clipPlan?.playlist ?? playlist}
             />
           </div>
         )}
@@ -404,7 +981,7 @@ function App() {
                 <h3 className="text-sm font-medium text-yellow-300">CORS Security Notice</h3>
                 <div className="mt-1 text-sm text-gray-300">
                   Due to browser security, some M3U8 URLs may require CORS headers. 
-                  EduMaster works best with properly configured video servers.
+                  If a video server does not send them, turn on the CORS relay below to fetch it through the relay function.
                 </div>
               </div>
             </div>
@@ -413,6 +990,43 @@ function App() {
 
         {/* Main Content */}
         <div className="max-w-4xl mx-auto space-y-6">
+          {/* Unfinished downloads from a previous session */}
+          {resumableJobs.length > 0 && state !== 'downloading' && (
+            <ResumeJobs
+              jobs={resumableJobs}
+              onResume={handleResumeJob}
+              onDiscard={handleDiscardJob}
+            />
+          )}
+
+          {/* Batch Queue - Many playlist URLs downloaded side by side */}
+          {(state === 'idle' || queueJobs.length > 0) && (
+            <DownloadQueuePanel
+              jobs={queueJobs}
+              concurrency={queueConcurrency}
+              onConcurrencyChange={handleQueueConcurrencyChange}
+              onAdd={handleQueueAdd}
+              onMove={(jobId, offset) => downloadQueue.move(jobId, offset)}
+              onCancel={jobId => downloadQueue.cancel(jobId)}
+              onRetry={jobId => downloadQueue.retry(jobId)}
+              onRemove={jobId => downloadQueue.remove(jobId)}
+              onSave={handleQueueSave}
+              onClearFinished={() => downloadQueue.clearFinished()}
+            />
+          )}
+
+          {/* History - Finished, failed and cancelled downloads, with an optional local library */}
+          {(state === 'idle' || state === 'completed') && DownloadHistory.isAvailable() && (
+            <HistoryPanel
+              entries={historyEntries}
+              keepCopies={keepCopies}
+              onKeepCopiesChange={handleKeepCopiesChange}
+              onRedownload={handleRedownload}
+              onSaveCopy={handleSaveCopy}
+              onDelete={handleDeleteHistory}
+            />
+          )}
+
           {/* Direct URL Display */}
           {directUrl && (
             <div className="bg-gradient-to-r from-green-500/10 to-emerald-500/10 border border-green-500/20 rounded-xl p-4 backdrop-blur-sm">
@@ -448,18 +1062,109 @@ function App() {
             />
           )}
 
+          {/* CORS Relay - For video servers that do not send CORS headers */}
+          {(state === 'idle' || state === 'parsing') && (
+            <RelaySettings
+              relay={downloadOptions.relay}
+              onChange={relay => setDownloadOptions(options => ({ ...options, relay }))}
+            />
+          )}
+
+          {/* File Name - Template for saved files, used by the queue too */}
+          {state === 'idle' && (
+            <FileNameSettings
+              template={fileNameTemplate}
+              onChange={handleFileNameTemplateChange}
+              extension={outputFormat.extension}
+            />
+          )}
+
           {/* Error Message */}
           {error && (
             <ErrorMessage
               message={error}
-              onDismiss={() => setError(null)}
+              diagnostics={errorDiagnostics}
+              onDismiss={() => {
+                setError(null);
+                setErrorDiagnostics([]);
+              }}
+            />
+          )}
+
+          {/* Playlist Issues - Spec violations that were worked around */}
+          {playlistIssues.map(issue => (
+            <ErrorMessage
+              key={issue.label}
+              title={`${issue.label} issues`}
+              message="This playlist does not follow the HLS specification. The problems below were worked around, but the download may be incomplete. Add ?strict=1 to the page URL to reject such playlists instead."
+              diagnostics={issue.diagnostics}
+              onDismiss={() => setPlaylistIssues(issues => issues.filter(other => other !== issue))}
+            />
+          ))}
+
+          {/* Quality Picker - Shown when a master playlist offers several variants */}
+          {state === 'selecting' && masterPlaylist && (
+            <VariantPicker
+              variants={masterPlaylist.variants}
+              selected={selectedVariant}
+              preference={qualityPreference}
+              onPreferenceChange={handleQualityPreferenceChange}
+              onSelect={setSelectedVariant}
+              onConfirm={handleVariantConfirm}
             />
           )}
 
           {/* Video Info - Show for all states when playlist is available */}
-          {playlist && (state === 'ready' || state === 'downloading' || state === 'completed') && (
+          {playlist && (state === 'ready' || state === 'downloading' || state === 'partial' || state === 'completed') && (
             <div className="space-y-6">
-              <VideoInfo playlist={playlist} />
+              <VideoInfo playlist={playlist} variant={selectedVariant} clip={clipPlan} audioBitrate={audioBitrate} />
+
+              {state === 'ready' && !isLive && PreviewSession.isSupported() && (
+                <PreviewPlayer
+                  playlist={playlist}
+                  options={downloadOptions}
+                  cache={segmentCache}
+                  codecs={selectedVariant?.codecs}
+                  onClipChange={clip => setDownloadOptions(options => ({ ...options, clip }))}
+                />
+              )}
+
+              {state === 'ready' && !isLive && (
+                <ClipRange
+                  range={downloadOptions.clip}
+                  totalDuration={playlist.totalDuration}
+                  onChange={clip => setDownloadOptions(options => ({ ...options, clip }))}
+                />
+              )}
+
+              {state === 'ready' && !isLive && (audioRenditions.length > 0 || subtitleRenditions.length > 0) && (
+                <RenditionPicker
+                  audioRenditions={audioRenditions}
+                  subtitleRenditions={subtitleRenditions}
+                  options={downloadOptions}
+                  onChange={setDownloadOptions}
+                />
+              )}
+
+              {state === 'ready' && (
+                <AdvancedOptions
+                  options={downloadOptions}
+                  onChange={setDownloadOptions}
+                  encrypted={playlist.segments.some(segment => segment.key)}
+                  fragmented={M3U8Parser.isFragmentedMp4(playlist)}
+                  audioSource={!!downloadOptions.audioRendition?.uri || !!audioOnlyVariant}
+                  queryParams={UrlResolver.queryParamNames(playlist.url ?? '')}
+                />
+              )}
+
+              {state === 'ready' && (
+                <FileNameSettings
+                  template={fileNameTemplate}
+                  onChange={handleFileNameTemplateChange}
+                  context={fileNameContext}
+                  extension={outputFormat.extension}
+                />
+              )}
               
               {/* Auto-download countdown for direct URLs */}
               {directUrl && state === 'ready' && autoDownloadCountdown && (
@@ -475,7 +1180,7 @@ function App() {
                     Video Duration: {formatDuration(playlist.totalDuration)} • {playlist.segments.length} segments
                   </div>
                   <button
-                    onClick={handleDownload}
+                    onClick={() => handleDownload()}
                     className="mt-3 inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 focus:ring-offset-gray-900 transition-all duration-200"
                   >
                     Start Now
@@ -487,19 +1192,29 @@ function App() {
               {!directUrl && state === 'ready' && (
                 <div className="text-center">
                   <button
-                    onClick={handleDownload}
+                    onClick={() => handleDownload()}
                     className="inline-flex items-center px-8 py-4 border border-transparent text-base font-medium rounded-xl text-white bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 focus:ring-offset-gray-900 transition-all duration-200 shadow-lg shadow-green-500/25"
                   >
                     <Video className="h-5 w-5 mr-2" />
-                    Start Download
+                    {isLive ? 'Start Recording' : 'Start Download'}
                   </button>
                 </div>
               )}
             </div>
           )}
 
+          {/* Partial Download - Some segments failed after all retries */}
+          {state === 'partial' && playlist && failedSegments.length > 0 && (
+            <FailedSegments
+              failures={failedSegments}
+              totalSegments={playlist.segments.length}
+              onRetry={handleRetryFailed}
+              onSaveWithGaps={handleSaveWithGaps}
+            />
+          )}
+
           {/* Download Complete */}
-          {state === 'completed' && downloadedBlob && (
+          {state === 'completed' && downloadResult && (
             <div className="bg-gradient-to-r from-green-500/10 to-emerald-500/10 border border-green-500/20 rounded-xl p-6 text-center backdrop-blur-sm">
               <div className="mb-4">
                 <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-gradient-to-r from-green-500 to-emerald-600 shadow-lg shadow-green-500/25">
@@ -508,25 +1223,49 @@ function App() {
               </div>
               <h3 className="text-xl font-medium text-green-300 mb-2">Download Complete!</h3>
               <div className="text-sm text-gray-300 mb-2">
-                Your video has been successfully converted to MP4 format by EduMaster.
+                Your video has been successfully saved in {outputFormat.label} format by EduMaster.
               </div>
               {playlist && (
                 <div className="text-xs text-gray-400 mb-6">
-                  Duration: {formatDuration(playlist.totalDuration)} • Size: {(downloadedBlob.size / (1024 * 1024)).toFixed(2)} MB • {playlist.segments.length} segments processed
+                  {isLive && progress?.elapsedSeconds !== undefined
+                    ? `Recorded: ${formatDuration(progress.elapsedSeconds)} • Size: ${(downloadResult.size / (1024 * 1024)).toFixed(2)} MB • ${progress.segmentIndex} segments recorded`
+                    : `Duration: ${formatDuration(clipPlan?.duration ?? playlist.totalDuration)} • Size: ${(downloadResult.size / (1024 * 1024)).toFixed(2)} MB • ${(clipPlan?.playlist ?? playlist).segments.length} segments processed`}
                 </div>
               )}
-              {directUrl && (
+              {downloadResult.validation && (downloadResult.validation.checkedSegments > 0 || downloadResult.validation.issues.length > 0) && (
+                <div className="mb-6">
+                  <ValidationReport report={downloadResult.validation} />
+                </div>
+              )}
+              {directUrl && downloadResult.blob && (
                 <div className="text-xs text-green-400 mb-4">
                   Auto-download should start automatically. If not, click "Save Video" below.
                 </div>
               )}
+              {!downloadResult.blob && (
+                <div className="text-xs text-green-400 mb-4">
+                  The video was written straight to disk while downloading. Check your downloads or the location you picked.
+                </div>
+              )}
               <div className="space-x-4">
-                <button
-                  onClick={handleSaveFile}
-                  className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-lg text-white bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 focus:ring-offset-gray-900 transition-all duration-200"
-                >
-                  Save Video
-                </button>
+                {downloadResult.blob && (
+                  <button
+                    onClick={handleSaveFile}
+                    className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-lg text-white bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 focus:ring-offset-gray-900 transition-all duration-200"
+                  >
+                    Save Video
+                  </button>
+                )}
+                {downloadResult.attachments?.map(attachment => (
+                  <button
+                    key={attachmentFileName(outputBaseName, attachment)}
+                    onClick={() => saveBlob(attachment.blob, attachmentFileName(outputBaseName, attachment))}
+                    className="inline-flex items-center px-6 py-3 border border-cyan-500/40 text-sm font-medium rounded-lg text-cyan-300 bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500 focus:ring-offset-gray-900 transition-all duration-200"
+                  >
+                    <Paperclip className="h-4 w-4 mr-2" />
+                    Save {attachment.label}
+                  </button>
+                ))}
                 <button
                   onClick={handleReset}
                   className="inline-flex items-center px-6 py-3 border border-gray-600 text-sm font-medium rounded-lg text-gray-300 bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-gray-900 transition-all duration-200"
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { DownloadOptions, OutputFormat } from '../types';
+import { DEFAULT_OUTPUT_FORMAT, OUTPUT_FORMATS } from '../utils/outputFormats';
+import { DEFAULT_CONCURRENCY, MAX_CONCURRENCY, MIN_CONCURRENCY } from '../utils/segmentScheduler';
+import { DEFAULT_MAX_RETRIES, MAX_RETRIES_LIMIT } from '../utils/retryPolicy';
+import { Settings, ChevronDown, ChevronUp, Lock, FileVideo, Gauge, RefreshCw, KeyRound } from 'lucide-react';
+
+interface AdvancedOptionsProps {
+  options: DownloadOptions;
+  onChange: (options: DownloadOptions) => void;
+  encrypted?: boolean;
+  // fMP4 segments can only be saved as MP4, or as M4A from a separate audio track
+  fragmented?: boolean;
+  // The master offers an audio rendition or audio-only variant to download instead of the video
+  audioSource?: boolean;
+  // Query parameter names on the playlist URL that can be forwarded to segment requests
+  queryParams?: string[];
+}
+
+export const AdvancedOptions: React.FC<AdvancedOptionsProps> = ({ options, onChange, encrypted = false, fragmented = false, audioSource = false, queryParams = [] }) => {
+  const requestedFormat = options.outputFormat ?? DEFAULT_OUTPUT_FORMAT;
+  const selectedFormat = fragmented && requestedFormat === 'ts' ? 'mp4' : fragmented && requestedFormat === 'aac' ? 'm4a' : requestedFormat;
+  const isUnavailable = (format: OutputFormat) => fragmented && (format === 'ts' || format === 'aac' || (format === 'm4a' && !audioSource));
+
+  const describeFormat = (): string => {
+    switch (selectedFormat) {
+      case 'hls':
+        return 'Keeps the original segments, keys and subtitle tracks in a ZIP with playlists that play offline in any HLS player. A clip is rounded out to whole segments.';
+      case 'm4a':
+        return 'Keeps only the AAC or MP3 audio, from the separate audio track or audio-only variant when the stream has one, otherwise taken out of the video segments.';
+      case 'aac':
+        return 'Keeps only the AAC audio as a raw ADTS stream. A clip is rounded out to whole segments.';
+      default:
+        return fragmented
+          ? 'This stream uses fMP4 segments, which are saved as MP4 with their init sections.'
+          : 'MP4 is converted in the browser. MPEG-TS keeps the original stream untouched.';
+    }
+  };
+
+  const [isOpen, setIsOpen] = useState(false);
+  const forwarded = options.forwardQueryParams ?? [];
+  // Names chosen through ?forward= stay listed even when this playlist URL lacks them
+  const forwardable = [...new Set([...queryParams, ...forwarded])];
+
+  const toggleForwarded = (name: string) => {
+    const next = forwarded.includes(name) ? forwarded.filter(other => other !== name) : [...forwarded, name];
+    onChange({ ...options, forwardQueryParams: next.length > 0 ? next : undefined });
+  };
+
+  const updateKeyOverride = (field: 'key' | 'iv', value: string) => {
+    const keyOverride = { key: '', ...options.keyOverride, [field]: value };
+    onChange({
+      ...options,
+      keyOverride: keyOverride.key || keyOverride.iv ? keyOverride : undefined
+    });
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl border border-gray-700 backdrop-blur-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="flex items-center text-sm font-medium text-gray-300">
+          <Settings className="h-4 w-4 text-cyan-400 mr-2" />
+          Advanced Options
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4 text-gray-400" /> : <ChevronDown className="h-4 w-4 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center text-xs font-medium text-gray-300">
+              <FileVideo className="h-3 w-3 text-cyan-400 mr-2" />
+              Output Format
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => onChange({ ...options, outputFormat: format })}
+                  disabled={isUnavailable(format)}
+                  className={`px-3 py-1.5 rounded-lg text-xs border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                    selectedFormat === format
+                      ? 'bg-cyan-500/20 border-cyan-500/40 text-cyan-300'
+                      : 'bg-gray-900/50 border-gray-600 text-gray-300 hover:border-gray-500'
+                  }`}
+                >
+                  {OUTPUT_FORMATS[format].label} (.{OUTPUT_FORMATS[format].extension})
+                </button>
+              ))}
+            </div>
+            <div className="text-xs text-gray-400">
+              {describeFormat()}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs font-medium text-gray-300">
+              <span className="flex items-center">
+                <Gauge className="h-3 w-3 text-cyan-400 mr-2" />
+                Parallel Segment Downloads
+              </span>
+              <span className="text-cyan-300">{options.concurrency ?? DEFAULT_CONCURRENCY}</span>
+            </div>
+            <input
+              type="range"
+              min={MIN_CONCURRENCY}
+              max={MAX_CONCURRENCY}
+              value={options.concurrency ?? DEFAULT_CONCURRENCY}
+              onChange={(e) => onChange({ ...options, concurrency: parseInt(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+            <div className="text-xs text-gray-400">
+              Higher values speed up high-latency CDNs but may trigger rate limiting.
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs font-medium text-gray-300">
+              <span className="flex items-center">
+                <RefreshCw className="h-3 w-3 text-cyan-400 mr-2" />
+                Retries Per Segment
+              </span>
+              <span className="text-cyan-300">{options.maxRetries ?? DEFAULT_MAX_RETRIES}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={MAX_RETRIES_LIMIT}
+              value={options.maxRetries ?? DEFAULT_MAX_RETRIES}
+              onChange={(e) => onChange({ ...options, maxRetries: parseInt(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+            <div className="text-xs text-gray-400">
+              Network errors, timeouts and 5xx responses are retried with exponential backoff. 403/404 are not.
+            </div>
+          </div>
+
+          {forwardable.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center text-xs font-medium text-gray-300">
+                <KeyRound className="h-3 w-3 text-cyan-400 mr-2" />
+                Forward URL Tokens
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {forwardable.map(name => (
+                  <button
+                    key={name}
+                    onClick={() => toggleForwarded(name)}
+                    className={`px-3 py-1.5 rounded-lg text-xs border font-mono transition-colors ${
+                      forwarded.includes(name)
+                        ? 'bg-cyan-500/20 border-cyan-500/40 text-cyan-300'
+                        : 'bg-gray-900/50 border-gray-600 text-gray-300 hover:border-gray-500'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+              <div className="text-xs text-gray-400">
+                Selected query parameters of the playlist URL are added to segment, key and track requests. Use this when a signed playlist loads but its segments return 403.
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center text-xs font-medium text-gray-300">
+              <Lock className="h-3 w-3 text-yellow-400 mr-2" />
+              Decryption Key Override
+              {encrypted && (
+                <span className="ml-2 text-yellow-300 bg-yellow-500/10 px-2 py-0.5 rounded">AES-128 detected</span>
+              )}
+            </div>
+            <div className="text-xs text-gray-400">
+              Only needed when the key URI requires authentication the browser cannot send. Hex or base64, 16 bytes.
+            </div>
+            <input
+              type="text"
+              value={options.keyOverride?.key || ''}
+              onChange={(e) => updateKeyOverride('key', e.target.value)}
+              placeholder="Key (e.g. 0x00112233445566778899aabbccddeeff)"
+              className="block w-full px-3 py-2 bg-gray-900/50 border border-gray-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-100 placeholder-gray-500 text-xs font-mono"
+            />
+            <input
+              type="text"
+              value={options.keyOverride?.iv || ''}
+              onChange={(e) => updateKeyOverride('iv', e.target.value)}
+              placeholder="IV (optional, defaults to playlist IV or media sequence)"
+              className="block w-full px-3 py-2 bg-gray-900/50 border border-gray-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-100 placeholder-gray-500 text-xs font-mono"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { TimeRange } from '../types';
+import { ClipPlanner } from '../utils/clipPlanner';
+import { Scissors, X } from 'lucide-react';
+
+interface ClipRangeProps {
+  range?: TimeRange;
+  totalDuration: number;
+  onChange: (range: TimeRange | undefined) => void;
+}
+
+const formatOptional = (seconds?: number) => seconds === undefined ? '' : ClipPlanner.formatTime(seconds);
+
+export const ClipRange: React.FC<ClipRangeProps> = ({ range, totalDuration, onChange }) => {
+  const [start, setStart] = useState(formatOptional(range?.start));
+  const [end, setEnd] = useState(formatOptional(range?.end));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStart(formatOptional(range?.start));
+    setEnd(formatOptional(range?.end));
+  }, [range?.start, range?.end]);
+
+  const apply = (startText: string, endText: string) => {
+    try {
+      const next: TimeRange = {
+        start: ClipPlanner.parseTime(startText),
+        end: ClipPlanner.parseTime(endText)
+      };
+      if (next.start !== undefined && next.start >= totalDuration) {
+        throw new Error(`Start must be before the end of the video (${ClipPlanner.formatTime(totalDuration)})`);
+      }
+      if (next.start !== undefined && next.end !== undefined && next.end <= next.start) {
+        throw new Error('End must be after start');
+      }
+      setError(null);
+      onChange(ClipPlanner.isActive(next) ? next : undefined);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Invalid time');
+    }
+  };
+
+  const inputClassName = 'w-28 px-3 py-2 bg-gray-900/50 border border-gray-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-100 placeholder-gray-500 text-xs font-mono';
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl border border-gray-700 p-4 backdrop-blur-sm space-y-2">
+      <div className="flex items-center text-sm font-medium text-gray-300">
+        <Scissors className="h-4 w-4 text-cyan-400 mr-2" />
+        Clip Range
+        <span className="ml-2 text-xs text-gray-500">optional</span>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+        <span>From</span>
+        <input
+          value={start}
+          onChange={(e) => setStart(e.target.value)}
+          onBlur={() => apply(start, end)}
+          placeholder="0:00"
+          className={inputClassName}
+        />
+        <span>to</span>
+        <input
+          value={end}
+          onChange={(e) => setEnd(e.target.value)}
+          onBlur={() => apply(start, end)}
+          placeholder={ClipPlanner.formatTime(totalDuration)}
+          className={inputClassName}
+        />
+        {range && (
+          <button
+            onClick={() => {
+              setError(null);
+              onChange(undefined);
+            }}
+            className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-lg transition-colors"
+            title="Download the whole video"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+      {error ? (
+        <div className="text-xs text-red-400">{error}</div>
+      ) : (
+        <div className="text-xs text-gray-400">
+          Use seconds or h:mm:ss. Only the overlapping segments are downloaded; MP4 output is trimmed to the exact times.
+        </div>
+      )}
+    </div>
+  );
+};
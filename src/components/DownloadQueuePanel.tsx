@@ -0,0 +1,210 @@
+import React, { useRef, useState } from 'react';
+import { QueueEntry, QueueJob, QueueJobStatus } from '../types';
+import { DownloadQueue, MAX_QUEUE_CONCURRENCY, MIN_QUEUE_CONCURRENCY } from '../utils/downloadQueue';
+import { ListPlus, ChevronDown, ChevronUp, ArrowUp, ArrowDown, X, RefreshCw, Save, Trash2, Upload, Layers } from 'lucide-react';
+
+interface DownloadQueuePanelProps {
+  jobs: QueueJob[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onAdd: (entries: QueueEntry[]) => void;
+  onMove: (jobId: string, offset: number) => void;
+  onCancel: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
+  onRemove: (jobId: string) => void;
+  onSave: (job: QueueJob) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<QueueJobStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'text-gray-300 bg-gray-500/10' },
+  loading: { label: 'Loading', className: 'text-yellow-300 bg-yellow-500/10' },
+  downloading: { label: 'Downloading', className: 'text-cyan-300 bg-cyan-500/10' },
+  completed: { label: 'Completed', className: 'text-green-300 bg-green-500/10' },
+  failed: { label: 'Failed', className: 'text-red-300 bg-red-500/10' },
+  cancelled: { label: 'Cancelled', className: 'text-gray-400 bg-gray-500/10' }
+};
+
+export const DownloadQueuePanel: React.FC<DownloadQueuePanelProps> = ({
+  jobs,
+  concurrency,
+  onConcurrencyChange,
+  onAdd,
+  onMove,
+  onCancel,
+  onRetry,
+  onRemove,
+  onSave,
+  onClearFinished
+}) => {
+  const [isOpen, setIsOpen] = useState(jobs.length > 0);
+  const [text, setText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addEntries = (entries: QueueEntry[]) => {
+    if (entries.length === 0) {
+      setImportError('No http(s) URLs found. Put one URL per line, optionally followed by a title.');
+      return;
+    }
+    setImportError(null);
+    onAdd(entries);
+  };
+
+  const handleAddText = () => {
+    addEntries(DownloadQueue.parseEntries(text));
+    setText('');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      addEntries(DownloadQueue.parseEntries(await file.text()));
+    } catch (error) {
+      setImportError(`Failed to read ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const completed = jobs.filter(job => job.status === 'completed').length;
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl border border-gray-700 backdrop-blur-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="flex items-center text-sm font-medium text-gray-300">
+          <Layers className="h-4 w-4 text-cyan-400 mr-2" />
+          Batch Queue
+          {jobs.length > 0 && (
+            <span className="ml-2 text-xs text-gray-400">{completed} of {jobs.length} done</span>
+          )}
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4 text-gray-400" /> : <ChevronDown className="h-4 w-4 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="space-y-2">
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={4}
+              placeholder={'One URL per line, optionally with a title:\nhttps://example.com/lecture-01.m3u8, Lecture 1'}
+              className="block w-full px-3 py-2 bg-gray-900/50 border border-gray-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-100 placeholder-gray-500 text-xs font-mono"
+            />
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={handleAddText}
+                disabled={!text.trim()}
+                className="inline-flex items-center px-4 py-2 text-xs font-medium rounded-lg text-white bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                <ListPlus className="h-3 w-3 mr-2" />
+                Add to Queue
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="inline-flex items-center px-4 py-2 text-xs font-medium rounded-lg text-gray-300 bg-gray-800 border border-gray-600 hover:bg-gray-700 transition-all duration-200"
+              >
+                <Upload className="h-3 w-3 mr-2" />
+                Import .txt / .csv
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.csv,text/plain,text/csv"
+                onChange={handleImportFile}
+                className="hidden"
+              />
+            </div>
+            {importError && <div className="text-xs text-red-400">{importError}</div>}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs font-medium text-gray-300">
+              <span>Simultaneous Downloads</span>
+              <span className="text-cyan-300">{concurrency}</span>
+            </div>
+            <input
+              type="range"
+              min={MIN_QUEUE_CONCURRENCY}
+              max={MAX_QUEUE_CONCURRENCY}
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(parseInt(e.target.value))}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+
+          {jobs.length > 0 && (
+            <div className="space-y-2">
+              <div className="max-h-96 overflow-y-auto bg-gray-900/40 rounded-lg divide-y divide-gray-700/50">
+                {jobs.map((job, index) => {
+                  const active = job.status === 'loading' || job.status === 'downloading';
+                  return (
+                    <div key={job.id} className="px-3 py-2 text-xs space-y-1">
+                      <div className="flex items-center justify-between">
+                        <div className="min-w-0 flex-1 mr-3">
+                          <div className="text-gray-200 truncate">{job.title || job.fileName || job.url}</div>
+                          <div className="text-gray-500 truncate">{job.url}</div>
+                        </div>
+                        <span className={`px-2 py-0.5 rounded mr-2 ${STATUS_LABELS[job.status].className}`}>
+                          {STATUS_LABELS[job.status].label}
+                          {job.status === 'downloading' && job.progress ? ` ${job.progress.percentage}%` : ''}
+                        </span>
+                        <div className="flex items-center">
+                          <button onClick={() => onMove(job.id, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-cyan-400 disabled:opacity-30" title="Move up">
+                            <ArrowUp className="h-3 w-3" />
+                          </button>
+                          <button onClick={() => onMove(job.id, 1)} disabled={index === jobs.length - 1} className="p-1 text-gray-400 hover:text-cyan-400 disabled:opacity-30" title="Move down">
+                            <ArrowDown className="h-3 w-3" />
+                          </button>
+                          {(active || job.status === 'queued') && (
+                            <button onClick={() => onCancel(job.id)} className="p-1 text-gray-400 hover:text-red-400" title="Cancel">
+                              <X className="h-3 w-3" />
+                            </button>
+                          )}
+                          {(job.status === 'failed' || job.status === 'cancelled') && (
+                            <button onClick={() => onRetry(job.id)} className="p-1 text-gray-400 hover:text-cyan-400" title="Retry">
+                              <RefreshCw className="h-3 w-3" />
+                            </button>
+                          )}
+                          {job.status === 'completed' && job.result?.blob && (
+                            <button onClick={() => onSave(job)} className="p-1 text-gray-400 hover:text-green-400" title="Save video">
+                              <Save className="h-3 w-3" />
+                            </button>
+                          )}
+                          {!active && (
+                            <button onClick={() => onRemove(job.id)} className="p-1 text-gray-400 hover:text-red-400" title="Remove">
+                              <Trash2 className="h-3 w-3" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      {job.status === 'downloading' && job.progress && (
+                        <div className="w-full bg-gray-700 rounded-full h-1 overflow-hidden">
+                          <div
+                            className="h-full bg-gradient-to-r from-cyan-500 to-blue-600 transition-all duration-300"
+                            style={{ width: `${job.progress.percentage}%` }}
+                          />
+                        </div>
+                      )}
+                      {job.error && <div className="text-red-400">{job.error}</div>}
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="text-right">
+                <button onClick={onClearFinished} className="text-xs text-gray-400 hover:text-gray-200">
+                  Clear finished
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,16 @@
 import React from 'react';
 import { AlertCircle, X } from 'lucide-react';
+import { PlaylistDiagnostic } from '../types';
 
 interface ErrorMessageProps {
   message: string;
   onDismiss: () => void;
+  title?: string;
+  // Playlist problems listed under the message, with the line each was found on
+  diagnostics?: PlaylistDiagnostic[];
 }
 
-export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onDismiss }) => {
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onDismiss, title = 'Error', diagnostics = [] }) => {
   return (
     <div className="bg-gradient-to-r from-red-500/10 to-pink-500/10 border border-red-500/20 rounded-xl p-4 backdrop-blur-sm">
       <div className="flex items-start">
@@ -15,9 +19,20 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onDismiss }
             <AlertCircle className="h-4 w-4 text-white" />
           </div>
         </div>
-        <div className="ml-3 flex-1">
-          <h3 className="text-sm font-medium text-red-300">Error</h3>
+        <div className="ml-3 flex-1 min-w-0">
+          <h3 className="text-sm font-medium text-red-300">{title}</h3>
           <p className="mt-1 text-sm text-gray-300">{message}</p>
+          {diagnostics.length > 0 && (
+            <ul className="mt-3 max-h-40 overflow-y-auto space-y-1 font-mono text-xs">
+              {diagnostics.map((diagnostic, index) => (
+                <li key={index} className={diagnostic.severity === 'error' ? 'text-red-300' : 'text-yellow-300'}>
+                  <span className="text-gray-500">Line {diagnostic.line}</span>
+                  {diagnostic.tag && <span className="text-gray-400"> {diagnostic.tag}</span>}
+                  : {diagnostic.message}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
         <div className="ml-auto pl-3">
           <button
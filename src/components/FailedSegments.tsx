@@ -0,0 +1,84 @@
+import React from 'react';
+import { SegmentFailure, SegmentFailureKind } from '../types';
+import { AlertTriangle, RefreshCw, Save } from 'lucide-react';
+
+interface FailedSegmentsProps {
+  failures: SegmentFailure[];
+  totalSegments: number;
+  onRetry: () => void;
+  onSaveWithGaps: () => void;
+}
+
+const KIND_LABELS: Record<SegmentFailureKind, { label: string; className: string }> = {
+  transient: { label: 'Transient', className: 'text-yellow-300 bg-yellow-500/10' },
+  permanent: { label: 'Permanent', className: 'text-red-300 bg-red-500/10' },
+  content: { label: 'Content', className: 'text-purple-300 bg-purple-500/10' },
+  corrupt: { label: 'Corrupt', className: 'text-orange-300 bg-orange-500/10' }
+};
+
+const MAX_LISTED_FAILURES = 50;
+
+export const FailedSegments: React.FC<FailedSegmentsProps> = ({ failures, totalSegments, onRetry, onSaveWithGaps }) => {
+  const counts = failures.reduce((result, failure) => {
+    result[failure.kind] = (result[failure.kind] || 0) + 1;
+    return result;
+  }, {} as Partial<Record<SegmentFailureKind, number>>);
+
+  return (
+    <div className="bg-gradient-to-r from-red-500/10 to-orange-500/10 border border-red-500/20 rounded-xl p-6 backdrop-blur-sm">
+      <div className="flex items-center mb-4">
+        <AlertTriangle className="h-6 w-6 text-red-400 mr-3" />
+        <div>
+          <h3 className="text-lg font-semibold text-red-300">
+            {failures.length} of {totalSegments} segments failed
+          </h3>
+          <div className="text-xs text-gray-400 mt-1">
+            The downloaded segments are kept. Retry the failed ones or save the video with gaps.
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(counts) as SegmentFailureKind[]).map(kind => (
+          <span key={kind} className={`text-xs px-2 py-1 rounded ${KIND_LABELS[kind].className}`}>
+            {KIND_LABELS[kind].label}: {counts[kind]}
+          </span>
+        ))}
+      </div>
+
+      <div className="max-h-48 overflow-y-auto bg-gray-900/40 rounded-lg divide-y divide-gray-700/50 mb-6">
+        {failures.slice(0, MAX_LISTED_FAILURES).map(failure => (
+          <div key={failure.index} className="flex items-center justify-between px-3 py-2 text-xs">
+            <span className="text-gray-300">Segment {failure.index + 1}</span>
+            <span className="text-gray-400 truncate mx-3 flex-1 text-right">{failure.message}</span>
+            <span className={`px-2 py-0.5 rounded ${KIND_LABELS[failure.kind].className}`}>
+              {failure.attempts} {failure.attempts === 1 ? 'attempt' : 'attempts'}
+            </span>
+          </div>
+        ))}
+        {failures.length > MAX_LISTED_FAILURES && (
+          <div className="px-3 py-2 text-xs text-gray-500">
+            and {failures.length - MAX_LISTED_FAILURES} more...
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-4">
+        <button
+          onClick={onRetry}
+          className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-lg text-white bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500 focus:ring-offset-gray-900 transition-all duration-200"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Retry Failed Segments
+        </button>
+        <button
+          onClick={onSaveWithGaps}
+          className="inline-flex items-center px-6 py-3 border border-gray-600 text-sm font-medium rounded-lg text-gray-300 bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-gray-900 transition-all duration-200"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          Save Anyway With Gaps
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { FileNameContext } from '../types';
+import { DEFAULT_FILENAME_TEMPLATE, FILENAME_TOKENS, FileNameTemplate } from '../utils/fileNameTemplate';
+import { FileText, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+
+interface FileNameSettingsProps {
+  template: string;
+  onChange: (template: string) => void;
+  // Metadata of the loaded playlist; an example is previewed before one is loaded
+  context?: FileNameContext;
+  extension: string;
+}
+
+const EXAMPLE_CONTEXT: FileNameContext = {
+  url: 'https://cdn.example.com/courses/lecture-01/index.m3u8',
+  variant: { uri: '720p.m3u8', bandwidth: 2500000, resolution: { width: 1280, height: 720 } },
+  duration: 754
+};
+
+export const FileNameSettings: React.FC<FileNameSettingsProps> = ({ template, onChange, context, extension }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const unknown = FileNameTemplate.unknownTokens(template);
+  const preview = `${FileNameTemplate.render(template, context ?? EXAMPLE_CONTEXT)}.${extension}`;
+
+  const insertToken = (token: string) => {
+    const separator = template && !/\s$/.test(template) ? ' ' : '';
+    onChange(`${template}${separator}${token.replace('[n]', '[-1]')}`);
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl border border-gray-700 backdrop-blur-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="flex items-center text-sm font-medium text-gray-300">
+          <FileText className="h-4 w-4 text-cyan-400 mr-2" />
+          File Name
+          <span className="ml-2 text-xs text-gray-400 font-mono truncate max-w-xs">{preview}</span>
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4 text-gray-400" /> : <ChevronDown className="h-4 w-4 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          <input
+            type="text"
+            value={template}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={DEFAULT_FILENAME_TEMPLATE}
+            className="block w-full px-3 py-2 bg-gray-900/50 border border-gray-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-100 placeholder-gray-500 text-xs font-mono"
+          />
+
+          <div className="flex flex-wrap gap-2">
+            {FILENAME_TOKENS.map(({ token, description }) => (
+              <button
+                key={token}
+                onClick={() => insertToken(token)}
+                title={description}
+                className="px-2 py-1 text-xs font-mono rounded bg-gray-700/50 text-gray-300 hover:bg-cyan-500/20 hover:text-cyan-300"
+              >
+                {token}
+              </button>
+            ))}
+          </div>
+
+          {unknown.length > 0 && (
+            <div className="flex items-center text-xs text-yellow-300">
+              <AlertTriangle className="h-3 w-3 mr-2" />
+              Unknown {unknown.length === 1 ? 'token' : 'tokens'} {unknown.join(', ')} will be kept as written
+            </div>
+          )}
+
+          <div className="text-xs text-gray-400">
+            {context ? 'Saved as' : 'Example'}: <span className="font-mono text-gray-200 break-all">{preview}</span>
+          </div>
+          <div className="text-xs text-gray-500">
+            Characters that are not allowed in file names are replaced. Batch downloads with the same name get a number added.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryEntry, HistoryResult, StorageUsage } from '../types';
+import { ClipPlanner } from '../utils/clipPlanner';
+import { DownloadHistory } from '../utils/downloadHistory';
+import { History, ChevronDown, ChevronUp, Search, RefreshCw, Link, Check, Save, Trash2, HardDrive } from 'lucide-react';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  keepCopies: boolean;
+  onKeepCopiesChange: (keep: boolean) => void;
+  onRedownload: (entry: HistoryEntry) => void;
+  onSaveCopy: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+}
+
+const RESULT_LABELS: Record<HistoryResult, { label: string; className: string }> = {
+  completed: { label: 'Completed', className: 'text-green-300 bg-green-500/10' },
+  partial: { label: 'With gaps', className: 'text-yellow-300 bg-yellow-500/10' },
+  failed: { label: 'Failed', className: 'text-red-300 bg-red-500/10' },
+  cancelled: { label: 'Cancelled', className: 'text-gray-400 bg-gray-500/10' }
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(k)));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  keepCopies,
+  onKeepCopiesChange,
+  onRedownload,
+  onSaveCopy,
+  onDelete
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+
+  // Saved copies change the usage, so it is measured again whenever the list changes
+  useEffect(() => {
+    if (!isOpen) return;
+    DownloadHistory.storageUsage()
+      .then(setStorage)
+      .catch(error => console.warn('Failed to read storage usage:', error));
+  }, [isOpen, entries]);
+
+  const handleCopyLink = async (entry: HistoryEntry) => {
+    try {
+      await navigator.clipboard.writeText(entry.sourceUrl);
+      setCopiedId(entry.id);
+      setTimeout(() => setCopiedId(id => (id === entry.id ? null : id)), 2000);
+    } catch (error) {
+      console.warn('Failed to copy link:', error);
+    }
+  };
+
+  const visible = entries.filter(entry => DownloadHistory.matches(entry, query));
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl border border-gray-700 backdrop-blur-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="flex items-center text-sm font-medium text-gray-300">
+          <History className="h-4 w-4 text-cyan-400 mr-2" />
+          History
+          {entries.length > 0 && (
+            <span className="ml-2 text-xs text-gray-400">{entries.length} downloads</span>
+          )}
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4 text-gray-400" /> : <ChevronDown className="h-4 w-4 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="space-y-2">
+            <label className="flex items-center text-xs text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={keepCopies}
+                onChange={(e) => onKeepCopiesChange(e.target.checked)}
+                className="mr-2 accent-cyan-500"
+              />
+              Keep a copy of each download in browser storage
+            </label>
+            <div className="text-xs text-gray-500">
+              Only downloads held in memory can be kept; videos streamed straight to disk are not copied.
+            </div>
+            {storage && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-xs text-gray-400">
+                  <span className="flex items-center">
+                    <HardDrive className="h-3 w-3 mr-1" />
+                    Browser storage
+                  </span>
+                  <span>{formatBytes(storage.usage)} of {formatBytes(storage.quota)} used</span>
+                </div>
+                <div className="w-full bg-gray-700 rounded-full h-1 overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-cyan-500 to-blue-600"
+                    style={{ width: `${storage.quota > 0 ? Math.min(100, (storage.usage / storage.quota) * 100) : 0}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {entries.length > 0 ? (
+            <div className="space-y-2">
+              <div className="relative">
+                <Search className="h-3 w-3 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search by title, URL or file name"
+                  className="block w-full pl-8 pr-3 py-2 bg-gray-900/50 border border-gray-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-100 placeholder-gray-500 text-xs"
+                />
+              </div>
+
+              <div className="max-h-96 overflow-y-auto bg-gray-900/40 rounded-lg divide-y divide-gray-700/50">
+                {visible.map(entry => (
+                  <div key={entry.id} className="px-3 py-2 text-xs space-y-1">
+                    <div className="flex items-center justify-between">
+                      <div className="min-w-0 flex-1 mr-3">
+                        <div className="text-gray-200 truncate">{entry.title}</div>
+                        <div className="text-gray-500 truncate">
+                          {new Date(entry.createdAt).toLocaleString()}
+                          {entry.variant && ` • ${entry.variant}`}
+                          {entry.duration > 0 && ` • ${ClipPlanner.formatTime(entry.duration)}`}
+                          {entry.size > 0 && ` • ${formatBytes(entry.size)}`}
+                          {entry.fileName && ` • ${entry.fileName}`}
+                        </div>
+                      </div>
+                      <span className={`px-2 py-0.5 rounded mr-2 ${RESULT_LABELS[entry.result].className}`}>
+                        {RESULT_LABELS[entry.result].label}
+                      </span>
+                      <div className="flex items-center">
+                        <button onClick={() => onRedownload(entry)} className="p-1 text-gray-400 hover:text-cyan-400" title="Download again">
+                          <RefreshCw className="h-3 w-3" />
+                        </button>
+                        <button onClick={() => handleCopyLink(entry)} className="p-1 text-gray-400 hover:text-cyan-400" title="Copy link">
+                          {copiedId === entry.id ? <Check className="h-3 w-3 text-green-400" /> : <Link className="h-3 w-3" />}
+                        </button>
+                        {entry.hasCopy && (
+                          <button onClick={() => onSaveCopy(entry)} className="p-1 text-gray-400 hover:text-green-400" title="Save the stored copy">
+                            <Save className="h-3 w-3" />
+                          </button>
+                        )}
+                        <button onClick={() => onDelete(entry)} className="p-1 text-gray-400 hover:text-red-400" title="Delete">
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </div>
+                    {entry.error && <div className="text-red-400 truncate">{entry.error}</div>}
+                  </div>
+                ))}
+                {visible.length === 0 && (
+                  <div className="px-3 py-2 text-xs text-gray-500">No downloads match "{query}"</div>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="text-xs text-gray-500">Downloads you finish, cancel or give up on will be listed here.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DownloadOptions, M3U8Playlist, TimeRange } from '../types';
+import { ClipPlanner } from '../utils/clipPlanner';
+import { PreviewSession } from '../utils/previewSession';
+import { SegmentCache } from '../utils/segmentCache';
+import { MonitorPlay, ArrowRightToLine, ArrowLeftToLine } from 'lucide-react';
+
+interface PreviewPlayerProps {
+  playlist: M3U8Playlist;
+  options: DownloadOptions;
+  cache: SegmentCache;
+  // CODECS of the selected variant, needed to open fMP4 streams
+  codecs?: string;
+  onClipChange: (clip: TimeRange | undefined) => void;
+}
+
+export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ playlist, options, cache, codecs, onClipChange }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [active, setActive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const { relay, forwardQueryParams, keyOverride, maxRetries } = options;
+  const clip = options.clip;
+
+  // Only the options that change which bytes are fetched restart the stream; a clip change must not
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!active || !video) {
+      return;
+    }
+
+    setError(null);
+    const session = new PreviewSession(video, playlist, { relay, forwardQueryParams, keyOverride, maxRetries }, cache, codecs);
+    session.play().catch(error => {
+      console.warn('Preview stopped:', error);
+      setError(error instanceof Error ? error.message : 'Preview failed');
+    });
+    return () => session.destroy();
+  }, [active, playlist, relay, forwardQueryParams, keyOverride, maxRetries, cache, codecs]);
+
+  const setStart = () => onClipChange({ start: currentTime, end: clip?.end !== undefined && clip.end > currentTime ? clip.end : undefined });
+  const setEnd = () => onClipChange({ start: clip?.start !== undefined && clip.start < currentTime ? clip.start : undefined, end: currentTime });
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl border border-gray-700 p-4 backdrop-blur-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center text-sm font-medium text-gray-300">
+          <MonitorPlay className="h-4 w-4 text-cyan-400 mr-2" />
+          Preview
+        </span>
+        {!active && (
+          <button
+            onClick={() => setActive(true)}
+            className="px-3 py-1 text-xs text-cyan-300 bg-cyan-500/10 border border-cyan-500/20 rounded-lg hover:bg-cyan-500/20 transition-colors"
+          >
+            Load Preview
+          </button>
+        )}
+      </div>
+
+      {!active && (
+        <div className="text-xs text-gray-400">
+          Streams the video here to check it before downloading. Segments you watch are reused by the download.
+        </div>
+      )}
+
+      {active && (
+        <>
+          <video
+            ref={videoRef}
+            controls
+            playsInline
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            className="w-full max-h-96 rounded-lg bg-black"
+          />
+          {error && (
+            <div className="text-xs text-red-300">{error}</div>
+          )}
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+            <span className="font-mono text-gray-300 mr-auto">{ClipPlanner.formatTime(currentTime)}</span>
+            <button
+              onClick={setStart}
+              className="flex items-center px-3 py-1 bg-gray-700/50 border border-gray-600 rounded-lg hover:bg-gray-700 text-gray-200 transition-colors"
+            >
+              <ArrowRightToLine className="h-3 w-3 mr-1" />
+              Set Clip Start
+            </button>
+            <button
+              onClick={setEnd}
+              disabled={currentTime === 0}
+              className="flex items-center px-3 py-1 bg-gray-700/50 border border-gray-600 rounded-lg hover:bg-gray-700 text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ArrowLeftToLine className="h-3 w-3 mr-1" />
+              Set Clip End
+            </button>
+          </div>
+          {options.audioRendition && (
+            <div className="text-xs text-gray-500">The preview plays the stream's own audio, not the selected audio track.</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,26 @@
 import React from 'react';
 import { DownloadProgress, M3U8Playlist } from '../types';
-import { Download, X, Zap, Clock, Film } from 'lucide-react';
+import { Download, X, Zap, Clock, Film, Pause, Play, Square, Radio, Gauge, Timer } from 'lucide-react';
 
 interface ProgressBarProps {
   progress: DownloadProgress;
   onCancel: () => void;
+  onPause?: () => void;
+  onResume?: () => void;
+  onStop?: () => void;
+  isPaused?: boolean;
   playlist?: M3U8Playlist | null;
 }
 
-export const ProgressBar: React.FC<ProgressBarProps> = ({ progress, onCancel, playlist }) => {
+export const ProgressBar: React.FC<ProgressBarProps> = ({
+  progress,
+  onCancel,
+  onPause,
+  onResume,
+  onStop,
+  isPaused = false,
+  playlist
+}) => {
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -28,8 +40,13 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({ progress, onCancel, pl
     return `${minutes}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const currentSegment = progress.segmentIndex <= playlist?.segments.length 
-    ? playlist?.segments[progress.segmentIndex - 1] 
+  // An estimated total is marked with ~ until every segment's size is known
+  const sizeLabel = progress.sizeEstimate
+    ? `${formatBytes(progress.downloadedBytes)} of ${progress.sizeEstimate === 'exact' ? '' : '~'}${formatBytes(progress.totalBytes)}`
+    : `${formatBytes(progress.downloadedBytes)} downloaded`;
+
+  const currentSegment = playlist && progress.segmentIndex <= playlist.segments.length
+    ? playlist.segments[progress.segmentIndex - 1]
     : null;
 
   return (
@@ -41,17 +58,60 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({ progress, onCancel, pl
           </div>
           EduMaster Processing
         </h3>
-        <button
-          onClick={onCancel}
-          className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-full transition-colors"
-          title="Cancel download"
-        >
-          <X className="h-5 w-5" />
-        </button>
+        <div className="flex items-center space-x-1">
+          {isPaused && onResume && (
+            <button
+              onClick={onResume}
+              className="p-2 text-gray-400 hover:text-green-400 hover:bg-gray-700 rounded-full transition-colors"
+              title="Resume download"
+            >
+              <Play className="h-5 w-5" />
+            </button>
+          )}
+          {onStop && (
+            <button
+              onClick={onStop}
+              className="p-2 text-gray-400 hover:text-green-400 hover:bg-gray-700 rounded-full transition-colors"
+              title="Stop recording and save"
+            >
+              <Square className="h-5 w-5" />
+            </button>
+          )}
+          {!isPaused && onPause && (
+            <button
+              onClick={onPause}
+              className="p-2 text-gray-400 hover:text-yellow-400 hover:bg-gray-700 rounded-full transition-colors"
+              title="Pause download"
+            >
+              <Pause className="h-5 w-5" />
+            </button>
+          )}
+          <button
+            onClick={onCancel}
+            className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-full transition-colors"
+            title="Cancel download"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
       </div>
       
       <div className="space-y-6">
-        {/* Main Progress */}
+        {/* Live Recording - no total, so elapsed time replaces the percentage */}
+        {progress.isLive ? (
+        <div className="space-y-4">
+          <div className="flex justify-between text-sm text-gray-300">
+            <span className="flex items-center">
+              <Radio className="h-4 w-4 mr-2 text-red-400 animate-pulse" />
+              Recording live • {progress.segmentIndex} segments
+            </span>
+            <span className="font-semibold text-red-400">{formatDuration(progress.elapsedSeconds ?? 0)} elapsed</span>
+          </div>
+          <div className="w-full bg-gray-700 rounded-full h-3 overflow-hidden">
+            <div className="bg-gradient-to-r from-red-500 to-pink-600 h-3 w-full rounded-full animate-pulse"></div>
+          </div>
+        </div>
+        ) : (
         <div className="space-y-4">
           <div className="flex justify-between text-sm text-gray-300">
             <span className="flex items-center">
@@ -70,9 +130,10 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({ progress, onCancel, pl
             </div>
           </div>
         </div>
+        )}
 
         {/* Video Information During Download */}
-        {playlist && (
+        {playlist && !progress.isLive && (
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="bg-gradient-to-r from-blue-500/10 to-cyan-500/10 rounded-lg p-3 border border-blue-500/20">
               <div className="flex items-center">
@@ -107,7 +168,7 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({ progress, onCancel, pl
         )}
 
         {/* Current Segment Info */}
-        {currentSegment && (
+        {currentSegment && !progress.isLive && (
           <div className="bg-gradient-to-r from-yellow-500/10 to-orange-500/10 rounded-lg p-4 border border-yellow-500/20">
             <h4 className="text-sm font-medium text-yellow-300 mb-2">Currently Processing</h4>
             <div className="space-y-1">
@@ -123,28 +184,53 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({ progress, onCancel, pl
         )}
         
         {/* Data Transfer Info */}
-        {progress.totalBytes > 0 && (
+        {progress.downloadedBytes > 0 && (
           <div className="flex justify-between text-xs text-gray-400 bg-gray-700/30 rounded-lg p-3">
             <span className="text-green-400 flex items-center">
               <Download className="h-3 w-3 mr-1" />
-              {formatBytes(progress.downloadedBytes)} downloaded
+              {progress.isLive ? `${formatBytes(progress.downloadedBytes)} recorded` : sizeLabel}
             </span>
-            <span>Total: {formatBytes(progress.totalBytes)}</span>
+            {!isPaused && progress.bytesPerSecond !== undefined && (
+              <span className="flex items-center">
+                <Gauge className="h-3 w-3 mr-1" />
+                {formatBytes(progress.bytesPerSecond)}/s
+              </span>
+            )}
+            {!progress.isLive && !isPaused && (
+              <span className="flex items-center">
+                <Timer className="h-3 w-3 mr-1" />
+                {progress.etaSeconds !== undefined ? `${formatDuration(progress.etaSeconds)} left` : 'Estimating time left...'}
+              </span>
+            )}
           </div>
         )}
 
         {/* Processing Status - Fixed DOM nesting */}
+        {isPaused ? (
+          <div className="text-center">
+            <div className="text-sm text-yellow-300 inline-flex items-center">
+              <Pause className="h-3 w-3 mr-2" />
+              Download paused
+            </div>
+            <div className="text-xs text-gray-400 mt-1">
+              Finished segments are kept and will not be downloaded again
+            </div>
+          </div>
+        ) : (
         <div className="text-center">
           <div className="text-sm text-gray-300">
             <span className="inline-flex items-center">
               <span className="animate-spin rounded-full h-3 w-3 border-b-2 border-cyan-400 mr-2 inline-block"></span>
-              Processing video segments and converting to MP4...
+              {progress.isLive ? 'Waiting for new live segments...' : 'Processing video segments and converting to MP4...'}
             </span>
           </div>
           <div className="text-xs text-gray-400 mt-1">
-            This may take a few moments depending on video length and quality
+            {progress.isLive
+              ? 'Recording continues until you press stop or the stream ends'
+              : 'This may take a few moments depending on video length and quality'}
           </div>
         </div>
+        )}
       </div>
     </div>
   );
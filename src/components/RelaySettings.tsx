@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { RelayConfig } from '../types';
+import { DEFAULT_RELAY_URL, RelayClient } from '../utils/relayClient';
+import { Server } from 'lucide-react';
+
+interface RelaySettingsProps {
+  relay?: RelayConfig;
+  onChange: (relay: RelayConfig | undefined) => void;
+}
+
+const inputClassName = 'block w-full px-3 py-2 bg-gray-900/50 border border-gray-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-100 placeholder-gray-500 text-xs font-mono';
+
+export const RelaySettings: React.FC<RelaySettingsProps> = ({ relay, onChange }) => {
+  // Kept while the relay is switched off so turning it back on restores the settings
+  const [draft, setDraft] = useState<RelayConfig>(() => relay ?? { url: DEFAULT_RELAY_URL });
+  const [headersText, setHeadersText] = useState(() => RelayClient.formatHeaders(relay?.headers));
+  const enabled = !!relay;
+
+  // An emptied endpoint field falls back to the same-origin relay
+  const emit = (config: RelayConfig) => onChange({ ...config, url: config.url.trim() || DEFAULT_RELAY_URL });
+
+  const update = (changes: Partial<RelayConfig>) => {
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    if (enabled) {
+      emit(next);
+    }
+  };
+
+  const updateHeaders = (text: string) => {
+    setHeadersText(text);
+    const headers = RelayClient.parseHeaders(text);
+    update({ headers: Object.keys(headers).length > 0 ? headers : undefined });
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto bg-gray-800/50 rounded-xl border border-gray-700 p-4 backdrop-blur-sm space-y-3">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="flex items-center text-sm font-medium text-gray-300">
+          <Server className="h-4 w-4 text-cyan-400 mr-2" />
+          Use CORS Relay
+        </span>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => e.target.checked ? emit(draft) : onChange(undefined)}
+          className="h-4 w-4 accent-cyan-500"
+        />
+      </label>
+      <div className="text-xs text-gray-400">
+        Routes playlist, key and segment requests through a relay for servers that do not send CORS headers.
+        The relay only fetches hosts listed in its RELAY_ALLOWED_HOSTS setting.
+      </div>
+
+      {enabled && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={draft.url}
+            onChange={(e) => update({ url: e.target.value })}
+            placeholder={`Relay endpoint (e.g. ${DEFAULT_RELAY_URL} or http://localhost:8787/relay)`}
+            className={inputClassName}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={draft.referer || ''}
+              onChange={(e) => update({ referer: e.target.value || undefined })}
+              placeholder="Referer (optional)"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={draft.origin || ''}
+              onChange={(e) => update({ origin: e.target.value || undefined })}
+              placeholder="Origin (optional)"
+              className={inputClassName}
+            />
+          </div>
+          <textarea
+            value={headersText}
+            onChange={(e) => updateHeaders(e.target.value)}
+            placeholder={'Extra headers, one per line (e.g. Authorization: Bearer …)'}
+            rows={2}
+            className={inputClassName}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React from 'react';
+import { AudioRenditionMode, DownloadOptions, M3U8Rendition, SubtitleFormat } from '../types';
+import { RenditionSelector } from '../utils/renditionSelector';
+import { DEFAULT_SUBTITLE_FORMAT, SUBTITLE_FORMATS } from '../utils/outputFormats';
+import { Captions, Check, Languages, Music } from 'lucide-react';
+
+interface RenditionPickerProps {
+  audioRenditions: M3U8Rendition[];
+  subtitleRenditions: M3U8Rendition[];
+  options: DownloadOptions;
+  onChange: (options: DownloadOptions) => void;
+}
+
+const AUDIO_MODES: { mode: AudioRenditionMode; label: string }[] = [
+  { mode: 'mux', label: 'Mux into video' },
+  { mode: 'separate', label: 'Separate file' }
+];
+
+export const RenditionPicker: React.FC<RenditionPickerProps> = ({ audioRenditions, subtitleRenditions, options, onChange }) => {
+  const audioMode = options.audioMode ?? 'mux';
+  const subtitleFormat = options.subtitleFormat ?? DEFAULT_SUBTITLE_FORMAT;
+  const selectedSubtitles = options.subtitleRenditions ?? [];
+  // A rendition without a URI is the audio already inside the video stream
+  const inStreamAudio = audioRenditions.find(rendition => !rendition.uri);
+
+  const isAudioSelected = (rendition: M3U8Rendition) => options.audioRendition
+    ? RenditionSelector.isSame(options.audioRendition, rendition)
+    : rendition === inStreamAudio;
+
+  const isSubtitleSelected = (rendition: M3U8Rendition) =>
+    selectedSubtitles.some(selected => RenditionSelector.isSame(selected, rendition));
+
+  const toggleSubtitle = (rendition: M3U8Rendition) => {
+    onChange({
+      ...options,
+      subtitleRenditions: isSubtitleSelected(rendition)
+        ? selectedSubtitles.filter(selected => !RenditionSelector.isSame(selected, rendition))
+        : [...selectedSubtitles, rendition]
+    });
+  };
+
+  const toggleClassName = (active: boolean) => `px-3 py-1 rounded-md transition-colors ${
+    active ? 'bg-cyan-500 text-white' : 'text-gray-300 hover:text-white'
+  }`;
+
+  const optionClassName = (active: boolean) => `flex items-center justify-between px-3 py-2 rounded-lg border text-left text-xs transition-colors ${
+    active
+      ? 'bg-gradient-to-r from-cyan-500/10 to-blue-500/10 border-cyan-500/40 text-gray-100'
+      : 'bg-gray-700/30 border-gray-700 text-gray-300 hover:border-gray-500'
+  }`;
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl border border-gray-700 p-4 backdrop-blur-sm space-y-4">
+      <div className="flex items-center text-sm font-medium text-gray-300">
+        <Languages className="h-4 w-4 text-cyan-400 mr-2" />
+        Audio & Subtitles
+      </div>
+
+      {audioRenditions.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="flex items-center text-xs font-medium text-gray-300">
+              <Music className="h-3 w-3 text-cyan-400 mr-2" />
+              Audio Language
+            </span>
+            <div className="flex bg-gray-700/50 rounded-lg p-1 text-xs">
+              {AUDIO_MODES.map(({ mode, label }) => (
+                <button key={mode} onClick={() => onChange({ ...options, audioMode: mode })} className={toggleClassName(audioMode === mode)}>
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {audioRenditions.map(rendition => (
+              <button
+                key={`${rendition.groupId}-${rendition.name}`}
+                onClick={() => onChange({ ...options, audioRendition: rendition.uri ? rendition : undefined })}
+                className={optionClassName(isAudioSelected(rendition))}
+              >
+                <span>{RenditionSelector.label(rendition)}</span>
+                {isAudioSelected(rendition) && <Check className="h-4 w-4 text-cyan-400" />}
+              </button>
+            ))}
+          </div>
+          <div className="text-xs text-gray-400">
+            Muxing needs MP4 output and MPEG-TS audio segments; otherwise the track is saved as a separate file.
+          </div>
+        </div>
+      )}
+
+      {subtitleRenditions.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="flex items-center text-xs font-medium text-gray-300">
+              <Captions className="h-3 w-3 text-cyan-400 mr-2" />
+              Subtitles
+            </span>
+            <div className="flex bg-gray-700/50 rounded-lg p-1 text-xs">
+              {(Object.keys(SUBTITLE_FORMATS) as SubtitleFormat[]).map(format => (
+                <button key={format} onClick={() => onChange({ ...options, subtitleFormat: format })} className={toggleClassName(subtitleFormat === format)}>
+                  .{SUBTITLE_FORMATS[format].extension}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {subtitleRenditions.map(rendition => (
+              <button
+                key={`${rendition.groupId}-${rendition.name}`}
+                onClick={() => toggleSubtitle(rendition)}
+                disabled={!rendition.uri}
+                className={`${optionClassName(isSubtitleSelected(rendition))} disabled:opacity-40 disabled:cursor-not-allowed`}
+              >
+                <span>{RenditionSelector.label(rendition)}</span>
+                {isSubtitleSelected(rendition) && <Check className="h-4 w-4 text-cyan-400" />}
+              </button>
+            ))}
+          </div>
+          <div className="text-xs text-gray-400">
+            Each selected track is stitched into one {SUBTITLE_FORMATS[subtitleFormat].label} file timed to the video.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { ResumableJob } from '../types';
+import { History, Play, Trash2 } from 'lucide-react';
+
+interface ResumeJobsProps {
+  jobs: ResumableJob[];
+  onResume: (job: ResumableJob) => void;
+  onDiscard: (job: ResumableJob) => void;
+}
+
+export const ResumeJobs: React.FC<ResumeJobsProps> = ({ jobs, onResume, onDiscard }) => {
+  return (
+    <div className="bg-gradient-to-r from-blue-500/10 to-purple-500/10 border border-blue-500/20 rounded-xl p-4 backdrop-blur-sm">
+      <div className="flex items-center mb-3">
+        <History className="h-5 w-5 text-blue-400 mr-3" />
+        <h3 className="text-sm font-medium text-blue-300">Unfinished Downloads</h3>
+      </div>
+
+      <div className="space-y-2">
+        {jobs.map(resumable => {
+          const { job, completedSegments } = resumable;
+          const totalSegments = job.playlist.segments.length;
+          const percentage = Math.round((completedSegments / totalSegments) * 100);
+
+          return (
+            <div key={job.id} className="flex items-center justify-between bg-gray-800/50 rounded-lg p-3">
+              <div className="min-w-0 flex-1 mr-3">
+                <div className="text-xs text-gray-300 truncate">{job.playlistUrl}</div>
+                <div className="text-xs text-gray-400 mt-1">
+                  {completedSegments} of {totalSegments} segments ({percentage}%) •{' '}
+                  {job.status === 'paused' ? 'Paused' : 'Interrupted'} {new Date(job.updatedAt).toLocaleString()}
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => onResume(resumable)}
+                  className="inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-lg text-white bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700 transition-all duration-200"
+                >
+                  <Play className="h-3 w-3 mr-1" />
+                  Resume
+                </button>
+                <button
+                  onClick={() => onDiscard(resumable)}
+                  className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-lg transition-colors"
+                  title="Discard download"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
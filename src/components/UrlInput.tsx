@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Link2, Download, Zap } from 'lucide-react';
+import { Link2, Zap } from 'lucide-react';
 
 interface UrlInputProps {
   onSubmit: (url: string) => void;
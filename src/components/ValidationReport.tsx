@@ -0,0 +1,65 @@
+import React from 'react';
+import { SegmentCheck, SegmentValidationReport } from '../types';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+
+interface ValidationReportProps {
+  report: SegmentValidationReport;
+}
+
+const CHECK_LABELS: Record<SegmentCheck, string> = {
+  empty: 'Empty',
+  truncated: 'Truncated',
+  'content-type': 'Not media',
+  'ts-sync': 'TS sync',
+  'mp4-boxes': 'MP4 boxes',
+  adts: 'ADTS'
+};
+
+const MAX_LISTED_ISSUES = 50;
+
+export const ValidationReport: React.FC<ValidationReportProps> = ({ report }) => {
+  const { checkedSegments, issues } = report;
+  const unrecovered = issues.filter(issue => !issue.recovered).length;
+
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-xs text-gray-400">
+        <ShieldCheck className="h-4 w-4 text-green-400 mr-2" />
+        All {checkedSegments} downloaded segments passed validation
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-left bg-gray-900/40 rounded-lg p-4">
+      <div className="flex items-center mb-1">
+        <ShieldAlert className="h-4 w-4 text-orange-400 mr-2" />
+        <span className="text-sm font-medium text-orange-300">
+          {issues.length} of {checkedSegments + unrecovered} segments were rejected by validation
+        </span>
+      </div>
+      <div className="text-xs text-gray-400 mb-3">
+        {unrecovered === 0
+          ? 'A refetch returned valid data for every one of them.'
+          : `${unrecovered} never returned valid data and are missing from the video.`}
+      </div>
+
+      <div className="max-h-48 overflow-y-auto divide-y divide-gray-700/50">
+        {issues.slice(0, MAX_LISTED_ISSUES).map(issue => (
+          <div key={issue.index} className="flex items-center justify-between py-2 text-xs">
+            <span className="text-gray-300">Segment {issue.index + 1}</span>
+            <span className="text-gray-400 truncate mx-3 flex-1 text-right">{issue.message}</span>
+            <span className={`px-2 py-0.5 rounded ${issue.recovered ? 'text-yellow-300 bg-yellow-500/10' : 'text-red-300 bg-red-500/10'}`}>
+              {CHECK_LABELS[issue.check]} ×{issue.rejections}
+            </span>
+          </div>
+        ))}
+        {issues.length > MAX_LISTED_ISSUES && (
+          <div className="py-2 text-xs text-gray-500">
+            and {issues.length - MAX_LISTED_ISSUES} more...
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
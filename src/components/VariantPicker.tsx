@@ -0,0 +1,84 @@
+import React from 'react';
+import { M3U8Variant, QualityPreference } from '../types';
+import { VariantSelector } from '../utils/variantSelector';
+import { Layers, Check, Zap } from 'lucide-react';
+
+interface VariantPickerProps {
+  variants: M3U8Variant[];
+  selected: M3U8Variant | null;
+  preference: QualityPreference;
+  onPreferenceChange: (preference: QualityPreference) => void;
+  onSelect: (variant: M3U8Variant) => void;
+  onConfirm: () => void;
+}
+
+export const VariantPicker: React.FC<VariantPickerProps> = ({
+  variants,
+  selected,
+  preference,
+  onPreferenceChange,
+  onSelect,
+  onConfirm
+}) => {
+  const sortedVariants = VariantSelector.sortByBandwidth(variants);
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl border border-gray-700 p-6 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <Layers className="h-6 w-6 text-cyan-400 mr-3" />
+          <h3 className="text-xl font-semibold text-gray-100">Choose Quality</h3>
+        </div>
+        <div className="flex bg-gray-700/50 rounded-lg p-1 text-xs">
+          {(['highest', 'lowest'] as QualityPreference[]).map(option => (
+            <button
+              key={option}
+              onClick={() => onPreferenceChange(option)}
+              className={`px-3 py-1 rounded-md transition-colors ${
+                preference === option ? 'bg-cyan-500 text-white' : 'text-gray-300 hover:text-white'
+              }`}
+            >
+              {option === 'highest' ? 'Highest' : 'Lowest'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {sortedVariants.map(variant => {
+          const isSelected = selected?.uri === variant.uri;
+          return (
+            <button
+              key={variant.uri}
+              onClick={() => onSelect(variant)}
+              className={`w-full flex items-center justify-between p-4 rounded-lg border text-left transition-colors ${
+                isSelected
+                  ? 'bg-gradient-to-r from-cyan-500/10 to-blue-500/10 border-cyan-500/40'
+                  : 'bg-gray-700/30 border-gray-700 hover:border-gray-500'
+              }`}
+            >
+              <div>
+                <div className="text-sm font-semibold text-gray-100">{VariantSelector.label(variant)}</div>
+                {variant.codecs && (
+                  <div className="text-xs text-gray-400 mt-1">{variant.codecs}</div>
+                )}
+              </div>
+              {isSelected && <Check className="h-5 w-5 text-cyan-400" />}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="text-center mt-6">
+        <button
+          onClick={onConfirm}
+          disabled={!selected}
+          className="inline-flex items-center px-8 py-3 border border-transparent text-sm font-medium rounded-xl text-white bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500 focus:ring-offset-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          <Zap className="h-4 w-4 mr-2" />
+          Load Selected Quality
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,19 @@
 import React from 'react';
-import { M3U8Playlist } from '../types';
-import { Clock, Film, Hash, Sparkles } from 'lucide-react';
+import { M3U8Playlist, M3U8Variant } from '../types';
+import { VariantSelector } from '../utils/variantSelector';
+import { ClipPlan } from '../utils/clipPlanner';
+import { M3U8Parser } from '../utils/m3u8Parser';
+import { Clock, Film, Hash, Sparkles, Scissors, Headphones } from 'lucide-react';
 
 interface VideoInfoProps {
   playlist: M3U8Playlist;
+  variant?: M3U8Variant | null;
+  clip?: ClipPlan | null;
+  // Bits per second of the audio an audio-only download would keep
+  audioBitrate?: number;
 }
 
-export const VideoInfo: React.FC<VideoInfoProps> = ({ playlist }) => {
+export const VideoInfo: React.FC<VideoInfoProps> = ({ playlist, variant, clip, audioBitrate }) => {
   const formatDuration = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -18,11 +25,32 @@ export const VideoInfo: React.FC<VideoInfoProps> = ({ playlist }) => {
     return `${minutes}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const formatBytes = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(k)));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const isLive = M3U8Parser.isLive(playlist);
+  const audioBytes = audioBitrate ? audioBitrate / 8 * (clip?.duration ?? playlist.totalDuration) : 0;
+
   return (
     <div className="bg-gray-800/50 rounded-xl border border-gray-700 p-6 backdrop-blur-sm">
       <div className="flex items-center mb-6">
         <Sparkles className="h-6 w-6 text-cyan-400 mr-3" />
         <h3 className="text-xl font-semibold text-gray-100">Video Information</h3>
+        {isLive && (
+          <span className="ml-3 text-xs text-red-300 bg-red-500/10 border border-red-500/20 px-3 py-1 rounded-full">
+            {playlist.playlistType === 'EVENT' ? 'LIVE EVENT' : 'LIVE'}
+          </span>
+        )}
+        {variant && (
+          <span className="ml-auto text-xs text-cyan-300 bg-cyan-500/10 border border-cyan-500/20 px-3 py-1 rounded-full">
+            {VariantSelector.label(variant)}
+          </span>
+        )}
       </div>
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -62,6 +90,27 @@ export const VideoInfo: React.FC<VideoInfoProps> = ({ playlist }) => {
           </div>
         </div>
       </div>
+
+      {clip && (
+        <div className="mt-4 flex items-center p-3 bg-cyan-500/10 border border-cyan-500/20 rounded-lg text-sm text-gray-300">
+          <Scissors className="h-4 w-4 text-cyan-400 mr-3 flex-shrink-0" />
+          <span>
+            Clip {formatDuration(clip.start)} – {formatDuration(clip.end)} •{' '}
+            <span className="text-gray-100 font-medium">{formatDuration(clip.duration)}</span> long •{' '}
+            ~{clip.playlist.segments.length} of {playlist.segments.length} segments
+          </span>
+        </div>
+      )}
+
+      {!isLive && audioBitrate !== undefined && audioBytes > 0 && (
+        <div className="mt-4 flex items-center p-3 bg-purple-500/10 border border-purple-500/20 rounded-lg text-sm text-gray-300">
+          <Headphones className="h-4 w-4 text-purple-400 mr-3 flex-shrink-0" />
+          <span>
+            Audio only • <span className="text-gray-100 font-medium">~{formatBytes(audioBytes)}</span> at ~
+            {VariantSelector.formatBandwidth(audioBitrate)}
+          </span>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,7 +1,72 @@
+export interface M3U8Key {
+  method: string;
+  uri?: string;
+  iv?: string;
+  keyFormat?: string;
+}
+
+export interface M3U8ByteRange {
+  length: number;
+  offset: number;
+}
+
+// Media initialization section for fMP4/CMAF segments (EXT-X-MAP)
+export interface M3U8Map {
+  uri: string;
+  byteRange?: M3U8ByteRange;
+  key?: M3U8Key;
+}
+
 export interface M3U8Segment {
   duration: number;
   uri: string;
   title?: string;
+  mediaSequence: number;
+  key?: M3U8Key;
+  map?: M3U8Map;
+  // Sub-range of the resource at uri (EXT-X-BYTERANGE)
+  byteRange?: M3U8ByteRange;
+  // Timestamps, format or encoding change from the previous segment (EXT-X-DISCONTINUITY)
+  discontinuity?: boolean;
+  // ISO 8601 wall-clock time of the segment's first sample (EXT-X-PROGRAM-DATE-TIME)
+  programDateTime?: string;
+  // The segment is missing on the server and must not be fetched (EXT-X-GAP)
+  gap?: boolean;
+}
+
+export type M3U8PlaylistType = 'VOD' | 'EVENT';
+
+export type ParseMode = 'strict' | 'lenient';
+
+export type PlaylistDiagnosticSeverity = 'error' | 'warning';
+
+// A problem found while parsing a playlist; line is 1-based in the playlist text
+export interface PlaylistDiagnostic {
+  severity: PlaylistDiagnosticSeverity;
+  line: number;
+  message: string;
+  tag?: string;
+}
+
+export interface LoadedPlaylist {
+  // Final URL after redirects
+  url: string;
+  content: string;
+}
+
+// A media playlist ready to download; master and variant are set when it was picked from a master playlist
+export interface MediaPlaylistSelection {
+  playlist: M3U8Playlist;
+  master?: M3U8MasterPlaylist;
+  variant?: M3U8Variant;
+  audioRendition?: M3U8Rendition;
+  // The playlist is an audio rendition or audio-only variant chosen for an audio-only download
+  audioOnly?: boolean;
+}
+
+export interface ParseOptions {
+  // 'strict' rejects any playlist that breaks RFC 8216, 'lenient' works around what it can
+  mode?: ParseMode;
 }
 
 export interface M3U8Playlist {
@@ -10,12 +75,392 @@ export interface M3U8Playlist {
   targetDuration: number;
   version: number;
   mediaSequence: number;
+  endList?: boolean;
+  playlistType?: M3U8PlaylistType;
+  discontinuitySequence?: number;
+  independentSegments?: boolean;
+  diagnostics?: PlaylistDiagnostic[];
+  // Where the playlist was loaded from, after redirects; the base for its relative URIs
+  url?: string;
 }
 
+// exact: every segment's size is known; sampled: extrapolated from the sizes seen so far; bandwidth: from the variant's BANDWIDTH
+export type SizeEstimate = 'exact' | 'sampled' | 'bandwidth';
+
 export interface DownloadProgress {
   segmentIndex: number;
   totalSegments: number;
+  // Includes the part of segments still being received
   downloadedBytes: number;
+  // Expected size of the whole download; equals downloadedBytes while sizeEstimate is unset
   totalBytes: number;
+  // Counts partly received segments, so large segments move the bar smoothly
   percentage: number;
+  sizeEstimate?: SizeEstimate;
+  // Averaged over the last few seconds
+  bytesPerSecond?: number;
+  etaSeconds?: number;
+  // Set while recording a live playlist, where there is no total to measure against
+  isLive?: boolean;
+  elapsedSeconds?: number;
+}
+
+export interface M3U8Resolution {
+  width: number;
+  height: number;
+}
+
+export interface M3U8Variant {
+  uri: string;
+  bandwidth: number;
+  averageBandwidth?: number;
+  resolution?: M3U8Resolution;
+  codecs?: string;
+  frameRate?: number;
+  audioGroupId?: string;
+  subtitleGroupId?: string;
+}
+
+export type M3U8RenditionType = 'AUDIO' | 'SUBTITLES';
+
+// Alternate audio or subtitle track declared with EXT-X-MEDIA in a master playlist
+export interface M3U8Rendition {
+  type: M3U8RenditionType;
+  groupId: string;
+  name: string;
+  language?: string;
+  // Absent when the rendition is carried inside the variant stream itself
+  uri?: string;
+  isDefault: boolean;
+  autoSelect: boolean;
+  forced: boolean;
+  channels?: string;
+}
+
+export interface M3U8MasterPlaylist {
+  variants: M3U8Variant[];
+  renditions: M3U8Rendition[];
+  version: number;
+  independentSegments?: boolean;
+  diagnostics?: PlaylistDiagnostic[];
+  url?: string;
+}
+
+export type QualityPreference = 'highest' | 'lowest';
+
+export interface ManualKeyOverride {
+  key: string;
+  iv?: string;
+}
+
+// 'hls' keeps the original segments in a ZIP with playlists rewritten for offline playback;
+// 'm4a' and 'aac' keep only the audio
+export type OutputFormat = 'mp4' | 'ts' | 'hls' | 'm4a' | 'aac';
+
+// 'mux' replaces the video's own audio track, 'separate' saves the rendition as its own file
+export type AudioRenditionMode = 'mux' | 'separate';
+
+export type SubtitleFormat = 'vtt' | 'srt';
+
+// Seconds from the start of the playlist; a missing end means "until the end"
+export interface TimeRange {
+  start?: number;
+  end?: number;
+}
+
+// A CORS relay (relay/relayCore.js) that fetches playlists, keys and segments on the browser's behalf
+export interface RelayConfig {
+  // Relay endpoint, absolute or relative to the app (e.g. /api/relay)
+  url: string;
+  referer?: string;
+  origin?: string;
+  // Extra request headers sent upstream, e.g. { Authorization: 'Bearer …' }
+  headers?: Record<string, string>;
+}
+
+export interface DownloadOptions {
+  keyOverride?: ManualKeyOverride;
+  outputFormat?: OutputFormat;
+  concurrency?: number;
+  maxRetries?: number;
+  clip?: TimeRange;
+  audioRendition?: M3U8Rendition;
+  audioMode?: AudioRenditionMode;
+  subtitleRenditions?: M3U8Rendition[];
+  subtitleFormat?: SubtitleFormat;
+  // Query parameters (e.g. signed-URL tokens) copied from the playlist URL onto segment and key requests
+  forwardQueryParams?: string[];
+  relay?: RelayConfig;
+  // BANDWIDTH of the chosen variant in bits per second, for a size estimate before any segment arrives
+  bandwidth?: number;
+  // The chosen variant, whose CODECS, RESOLUTION and FRAME-RATE an HLS package's master playlist keeps
+  variant?: M3U8Variant;
+}
+
+// corrupt: the body is not the media it should be (an error page, a truncated or empty response) and is refetched
+export type SegmentFailureKind = 'transient' | 'permanent' | 'content' | 'corrupt';
+
+export interface SegmentFailure {
+  index: number;
+  uri: string;
+  kind: SegmentFailureKind;
+  message: string;
+  attempts: number;
+  status?: number;
+}
+
+export type SegmentCheck = 'empty' | 'truncated' | 'content-type' | 'ts-sync' | 'mp4-boxes' | 'adts';
+
+// A segment that was rejected by validation at least once
+export interface SegmentValidationIssue {
+  index: number;
+  uri: string;
+  // The last check it failed
+  check: SegmentCheck;
+  message: string;
+  rejections: number;
+  // A later attempt returned a valid segment
+  recovered: boolean;
+}
+
+export interface SegmentValidationReport {
+  checkedSegments: number;
+  issues: SegmentValidationIssue[];
+}
+
+export interface MediaSample {
+  data: Uint8Array;
+  // Timestamps are in the 90kHz MPEG-TS clock
+  pts: number;
+  dts: number;
+  keyframe: boolean;
+}
+
+export interface VideoTrackInfo {
+  codec: 'avc' | 'hevc';
+  codecString: string;
+  width: number;
+  height: number;
+  decoderConfig: Uint8Array;
+}
+
+// 'mp3' covers MPEG-1/2 audio of any layer, which MP4 stores the same way
+export interface AudioTrackInfo {
+  codec: 'aac' | 'mp3';
+  codecString: string;
+  sampleRate: number;
+  channelCount: number;
+  samplesPerFrame: number;
+  decoderConfig: Uint8Array;
+}
+
+export interface DemuxedSegment {
+  video: VideoTrackInfo | null;
+  audio: AudioTrackInfo | null;
+  videoSamples: MediaSample[];
+  audioSamples: MediaSample[];
+}
+
+// Audio from an alternate rendition, muxed in place of the stream's own audio
+export interface ExternalAudioTrack {
+  info: AudioTrackInfo;
+  samples: MediaSample[];
+}
+
+export interface SegmentStore {
+  readonly storedIndices: Set<number>;
+  put(index: number, data: Uint8Array): Promise<void>;
+  get(index: number): Promise<Uint8Array | undefined>;
+  // Drops any in-memory copy once the segment has been written to the output
+  release(index: number): void;
+  clear(): Promise<void>;
+}
+
+export type JournalJobStatus = 'active' | 'paused';
+
+export interface JournalJob {
+  id: string;
+  playlistUrl: string;
+  playlist: M3U8Playlist;
+  options: DownloadOptions;
+  variant?: M3U8Variant | null;
+  status: JournalJobStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ResumableJob {
+  job: JournalJob;
+  completedSegments: number;
+}
+
+// What a file name template can draw on for one download
+export interface FileNameContext {
+  url: string;
+  // Title given with a queue or CLI entry; otherwise derived from the URL
+  title?: string;
+  variant?: M3U8Variant | null;
+  // Seconds of media, after any clip
+  duration?: number;
+  // 1-based position in a batch, padded to the width of total
+  index?: number;
+  total?: number;
+  date?: Date;
+}
+
+export type HistoryResult = 'completed' | 'partial' | 'failed' | 'cancelled';
+
+// One finished, failed or cancelled download, kept after the app is reset
+export interface HistoryEntry {
+  id: string;
+  sourceUrl: string;
+  title: string;
+  // Label of the downloaded variant, e.g. "720p • 2.5 Mbps"
+  variant?: string;
+  duration: number;
+  size: number;
+  createdAt: number;
+  result: HistoryResult;
+  fileName: string;
+  error?: string;
+  // A copy of the output is kept in the browser library
+  hasCopy?: boolean;
+}
+
+export interface LibraryCopy {
+  id: string;
+  blob: Blob;
+  attachments: DownloadAttachment[];
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export type OutputSinkKind = 'file-system' | 'service-worker' | 'blob';
+
+export interface OutputSink {
+  readonly kind: OutputSinkKind;
+  write(chunk: Uint8Array): Promise<void>;
+  // Resolves with the assembled Blob, or null when the output already went to disk
+  close(): Promise<Blob | null>;
+  abort(): Promise<void>;
+}
+
+// A file saved next to the video, such as a subtitle track or a separate audio track
+export interface DownloadAttachment {
+  label: string;
+  // Goes between the video's file name and the extension, e.g. "en" in video.en.vtt
+  suffix: string;
+  extension: string;
+  blob: Blob;
+}
+
+export interface DownloadResult {
+  blob: Blob | null;
+  size: number;
+  sinkKind: OutputSinkKind;
+  attachments?: DownloadAttachment[];
+  validation?: SegmentValidationReport;
+  // Seconds of media in the output
+  duration?: number;
+}
+
+// What the app needs from a downloader, whether it runs on the main thread or in a worker
+export interface DownloadEngine {
+  readonly failedSegments: SegmentFailure[];
+  readonly isPaused: boolean;
+  downloadM3U8(
+    playlist: M3U8Playlist,
+    onProgress: (progress: DownloadProgress) => void,
+    onError: (error: string) => void,
+    options?: DownloadOptions,
+    store?: SegmentStore,
+    sink?: OutputSink
+  ): Promise<DownloadResult>;
+  recordLive(
+    playlistUrl: string,
+    playlist: M3U8Playlist,
+    onProgress: (progress: DownloadProgress) => void,
+    onError: (error: string) => void,
+    options?: DownloadOptions,
+    sink?: OutputSink
+  ): Promise<DownloadResult>;
+  retryFailedSegments(onProgress: (progress: DownloadProgress) => void, onError: (error: string) => void): Promise<DownloadResult>;
+  saveWithGaps(): Promise<DownloadResult>;
+  pause(): void;
+  resume(): void;
+  stopRecording(): void;
+  cancelDownload(): void;
+}
+
+// The worker rebuilds the segment store on its side; a journaled store is reopened by job id
+export type WorkerStoreSpec =
+  | { kind: 'memory'; segments: { index: number; data: Uint8Array }[] }
+  | { kind: 'journal'; jobId: string; storedIndices: number[] };
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  failures?: SegmentFailure[];
+}
+
+export type DownloadWorkerRequest =
+  | {
+    type: 'start';
+    runId: number;
+    sinkId: number;
+    sinkKind: OutputSinkKind;
+    playlist: M3U8Playlist;
+    options: DownloadOptions;
+    store: WorkerStoreSpec;
+  }
+  | {
+    type: 'record';
+    runId: number;
+    sinkId: number;
+    sinkKind: OutputSinkKind;
+    playlistUrl: string;
+    playlist: M3U8Playlist;
+    options: DownloadOptions;
+  }
+  | { type: 'retry'; runId: number }
+  | { type: 'save-with-gaps'; runId: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'stop' }
+  | { type: 'cancel' }
+  // Answers a sink request once the main thread has written, closed or aborted the output
+  | { type: 'sink-reply'; requestId: number; blob?: Blob | null; error?: string };
+
+export type DownloadWorkerResponse =
+  | { type: 'progress'; runId: number; progress: DownloadProgress }
+  | { type: 'segment-done'; runId: number; index: number; size: number }
+  // The onError notice of a run, e.g. the failed segment count; the run itself may still settle either way
+  | { type: 'notice'; runId: number; message: string }
+  | { type: 'done'; runId: number; result: DownloadResult }
+  | { type: 'error'; runId: number; error: SerializedError }
+  // Output sinks stay on the main thread; chunks arrive as transferred buffers
+  | { type: 'sink-write'; requestId: number; sinkId: number; chunk: Uint8Array }
+  | { type: 'sink-close'; requestId: number; sinkId: number }
+  | { type: 'sink-abort'; requestId: number; sinkId: number };
+
+export type QueueJobStatus = 'queued' | 'loading' | 'downloading' | 'completed' | 'failed' | 'cancelled';
+
+export interface QueueEntry {
+  url: string;
+  title?: string;
+}
+
+export interface QueueJob {
+  id: string;
+  url: string;
+  title?: string;
+  status: QueueJobStatus;
+  options: DownloadOptions;
+  progress: DownloadProgress | null;
+  error?: string;
+  result?: DownloadResult;
+  fileName?: string;
 }
@@ -0,0 +1,45 @@
+import { AudioTrackInfo } from '../types';
+import { TsDemuxer } from './tsDemuxer';
+
+const ADTS_HEADER_SIZE = 7;
+
+// Writes raw AAC as ADTS frames, unwrapped from MPEG-TS or packed audio segments
+export class AdtsWriter {
+  private demuxer = new TsDemuxer({ audioOnly: true });
+  private wroteAudio = false;
+
+  get hasAudio(): boolean {
+    return this.wroteAudio;
+  }
+
+  push(segment: Uint8Array): Uint8Array[] {
+    const { audio, audioSamples } = this.demuxer.demux(segment);
+    if (!audio || audioSamples.length === 0) {
+      return [];
+    }
+    if (audio.codec !== 'aac') {
+      throw new Error('This stream carries MP3 audio, which cannot be saved as AAC. Choose M4A audio instead.');
+    }
+
+    this.wroteAudio = true;
+    return [TsDemuxer.concat(audioSamples.flatMap(sample => [AdtsWriter.header(audio, sample.data.length), sample.data]))];
+  }
+
+  // Fields come from the AudioSpecificConfig the demuxer built out of the original ADTS header
+  private static header(audio: AudioTrackInfo, payloadLength: number): Uint8Array {
+    const config = audio.decoderConfig;
+    const objectType = config[0] >> 3;
+    const frequencyIndex = ((config[0] & 0x07) << 1) | (config[1] >> 7);
+    const channelConfig = (config[1] >> 3) & 0x0f;
+    const frameLength = ADTS_HEADER_SIZE + payloadLength;
+
+    return new Uint8Array([
+      0xff, 0xf1, // sync word, MPEG-4, no CRC
+      ((objectType - 1) << 6) | (frequencyIndex << 2) | (channelConfig >> 2),
+      ((channelConfig & 0x03) << 6) | (frameLength >> 11),
+      (frameLength >> 3) & 0xff,
+      ((frameLength & 0x07) << 5) | 0x1f,
+      0xfc // buffer fullness 0x7ff (variable bitrate), one raw data block
+    ]);
+  }
+}
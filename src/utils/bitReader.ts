@@ -0,0 +1,62 @@
+export class BitReader {
+  private bitOffset = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.data[this.bitOffset >> 3];
+      if (byte === undefined) {
+        throw new Error('BitReader: read past end of data');
+      }
+      value = value * 2 + ((byte >> (7 - (this.bitOffset & 7))) & 1);
+      this.bitOffset++;
+    }
+    return value;
+  }
+
+  readBit(): number {
+    return this.readBits(1);
+  }
+
+  skipBits(count: number): void {
+    this.bitOffset += count;
+  }
+
+  // Unsigned Exp-Golomb code, as used throughout H.264/H.265 parameter sets
+  readUE(): number {
+    let leadingZeros = 0;
+    while (this.readBit() === 0) {
+      leadingZeros++;
+      if (leadingZeros > 31) {
+        throw new Error('BitReader: invalid Exp-Golomb code');
+      }
+    }
+    return Math.pow(2, leadingZeros) - 1 + this.readBits(leadingZeros);
+  }
+
+  readSE(): number {
+    const value = this.readUE();
+    return value % 2 === 0 ? -(value / 2) : (value + 1) / 2;
+  }
+
+  // Strips emulation prevention bytes (00 00 03) so NAL payloads can be bit-parsed
+  static toRbsp(nal: Uint8Array): Uint8Array {
+    const output = new Uint8Array(nal.length);
+    let length = 0;
+    let zeros = 0;
+
+    for (let i = 0; i < nal.length; i++) {
+      const byte = nal[i];
+      if (zeros >= 2 && byte === 0x03) {
+        zeros = 0;
+        continue;
+      }
+      output[length++] = byte;
+      zeros = byte === 0 ? zeros + 1 : 0;
+    }
+
+    return output.subarray(0, length);
+  }
+}
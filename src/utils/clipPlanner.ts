@@ -0,0 +1,88 @@
+import { M3U8Playlist, TimeRange } from '../types';
+
+export interface ClipPlan {
+  // Only the segments overlapping the requested range
+  playlist: M3U8Playlist;
+  // Where the range starts and ends, in seconds from the first selected segment
+  trimStart: number;
+  trimEnd?: number;
+  start: number;
+  end: number;
+  duration: number;
+}
+
+export class ClipPlanner {
+  static isActive(range?: TimeRange): range is TimeRange {
+    return !!range && (range.start !== undefined || range.end !== undefined);
+  }
+
+  // Maps a time range onto EXTINF durations, keeping every segment that overlaps it
+  static plan(playlist: M3U8Playlist, range?: TimeRange): ClipPlan {
+    const total = playlist.totalDuration;
+    if (!this.isActive(range)) {
+      return { playlist, trimStart: 0, start: 0, end: total, duration: total };
+    }
+
+    const start = Math.max(0, range.start ?? 0);
+    const end = Math.min(total, range.end ?? total);
+    if (start >= total) {
+      throw new Error(`Clip start ${this.formatTime(start)} is beyond the end of the video (${this.formatTime(total)})`);
+    }
+    if (end <= start) {
+      throw new Error('Clip end must be after its start');
+    }
+
+    const segments = [];
+    let offset = 0;
+    let firstOffset: number | null = null;
+    for (const segment of playlist.segments) {
+      const segmentEnd = offset + segment.duration;
+      if (segmentEnd > start && offset < end) {
+        firstOffset ??= offset;
+        segments.push(segment);
+      }
+      offset = segmentEnd;
+    }
+
+    const clipped: M3U8Playlist = {
+      ...playlist,
+      segments,
+      totalDuration: segments.reduce((sum, segment) => sum + segment.duration, 0)
+    };
+    const base = firstOffset ?? 0;
+
+    return {
+      playlist: clipped,
+      trimStart: start - base,
+      trimEnd: end < total ? end - base : undefined,
+      start,
+      end,
+      duration: end - start
+    };
+  }
+
+  // Accepts plain seconds ("754.5") or clock notation ("12:34", "1:02:03")
+  static parseTime(value: string | null | undefined): number | undefined {
+    const trimmed = value?.trim();
+    if (!trimmed) {
+      return undefined;
+    }
+
+    const parts = trimmed.split(':');
+    if (parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) {
+      throw new Error(`Invalid time "${trimmed}": use seconds or h:mm:ss`);
+    }
+    return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+  }
+
+  static formatTime(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = Math.floor(seconds % 60);
+
+    if (hours > 0) {
+      return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    }
+    return `${minutes}:${secs.toString().padStart(2, '0')}`;
+  }
+}
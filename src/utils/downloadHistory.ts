@@ -0,0 +1,98 @@
+import { DownloadAttachment, HistoryEntry, LibraryCopy, StorageUsage } from '../types';
+import { HISTORY_STORE, IndexedDb, LIBRARY_STORE } from './indexedDb';
+
+const KEEP_COPIES_KEY = 'edumaster-keep-copies';
+
+type HistoryListener = () => void;
+
+// Records every download so it can be found, fetched again or saved from the library after a reset
+export class DownloadHistory {
+  private static listeners = new Set<HistoryListener>();
+
+  static isAvailable(): boolean {
+    return IndexedDb.isAvailable();
+  }
+
+  // A preference rather than history, so it lives in localStorage
+  static keepsCopies(): boolean {
+    try {
+      return localStorage.getItem(KEEP_COPIES_KEY) === '1';
+    } catch {
+      return false;
+    }
+  }
+
+  static setKeepCopies(keep: boolean): void {
+    try {
+      localStorage.setItem(KEEP_COPIES_KEY, keep ? '1' : '0');
+    } catch (error) {
+      console.warn('Failed to save the library setting:', error);
+    }
+  }
+
+  static subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // A copy that does not fit in the quota is dropped; the entry is recorded either way
+  static async record(
+    details: Omit<HistoryEntry, 'id' | 'createdAt' | 'hasCopy'>,
+    copy?: { blob: Blob; attachments?: DownloadAttachment[] }
+  ): Promise<HistoryEntry> {
+    const now = Date.now();
+    const entry: HistoryEntry = {
+      ...details,
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: now
+    };
+
+    if (copy) {
+      const record: LibraryCopy = { id: entry.id, blob: copy.blob, attachments: copy.attachments ?? [] };
+      try {
+        await IndexedDb.run(LIBRARY_STORE, 'readwrite', store => store.put(record));
+        entry.hasCopy = true;
+      } catch (error) {
+        console.warn('Could not keep a copy in browser storage:', error);
+      }
+    }
+
+    await IndexedDb.run(HISTORY_STORE, 'readwrite', store => store.put(entry));
+    this.emit();
+    return entry;
+  }
+
+  static async list(): Promise<HistoryEntry[]> {
+    const entries = await IndexedDb.run<HistoryEntry[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  static async getCopy(id: string): Promise<LibraryCopy | undefined> {
+    return IndexedDb.run<LibraryCopy | undefined>(LIBRARY_STORE, 'readonly', store => store.get(id));
+  }
+
+  static async delete(id: string): Promise<void> {
+    await IndexedDb.run(LIBRARY_STORE, 'readwrite', store => store.delete(id));
+    await IndexedDb.run(HISTORY_STORE, 'readwrite', store => store.delete(id));
+    this.emit();
+  }
+
+  // Covers everything this origin stores, journal and service worker downloads included
+  static async storageUsage(): Promise<StorageUsage | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return null;
+    }
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+  }
+
+  static matches(entry: HistoryEntry, query: string): boolean {
+    const needle = query.trim().toLowerCase();
+    return !needle || [entry.title, entry.sourceUrl, entry.fileName, entry.variant ?? '']
+      .some(field => field.toLowerCase().includes(needle));
+  }
+
+  private static emit(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
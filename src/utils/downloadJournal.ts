@@ -0,0 +1,113 @@
+import { DownloadOptions, JournalJob, JournalJobStatus, M3U8Playlist, M3U8Variant, ResumableJob, SegmentStore } from '../types';
+import { IndexedDb, JOBS_STORE, SEGMENTS_STORE } from './indexedDb';
+
+interface StoredSegment {
+  jobId: string;
+  index: number;
+  data: Uint8Array;
+}
+
+const jobSegmentRange = (jobId: string) => IDBKeyRange.bound([jobId, -Infinity], [jobId, Infinity]);
+
+// Segment store backed by the journal so finished segments survive reloads and crashes
+export class JournalSegmentStore implements SegmentStore {
+  readonly storedIndices: Set<number>;
+  // Segments that could not be persisted (e.g. quota exceeded) are kept in memory instead
+  private fallback = new Map<number, Uint8Array>();
+
+  constructor(readonly jobId: string, storedIndices: number[] = []) {
+    this.storedIndices = new Set(storedIndices);
+  }
+
+  async put(index: number, data: Uint8Array): Promise<void> {
+    const record: StoredSegment = { jobId: this.jobId, index, data };
+    try {
+      await IndexedDb.run(SEGMENTS_STORE, 'readwrite', store => store.put(record));
+    } catch (error) {
+      console.warn(`Failed to journal segment ${index + 1}, keeping it in memory:`, error);
+      this.fallback.set(index, data);
+    }
+    this.storedIndices.add(index);
+  }
+
+  async get(index: number): Promise<Uint8Array | undefined> {
+    const inMemory = this.fallback.get(index);
+    if (inMemory) {
+      return inMemory;
+    }
+    const record = await IndexedDb.run<StoredSegment | undefined>(
+      SEGMENTS_STORE, 'readonly', store => store.get([this.jobId, index])
+    );
+    return record?.data;
+  }
+
+  // The journaled copy stays on disk so a resume after reload can rebuild the output
+  release(index: number): void {
+    this.fallback.delete(index);
+  }
+
+  async clear(): Promise<void> {
+    this.fallback.clear();
+    this.storedIndices.clear();
+    await IndexedDb.run(SEGMENTS_STORE, 'readwrite', store => store.delete(jobSegmentRange(this.jobId)));
+  }
+}
+
+export class DownloadJournal {
+  static isAvailable(): boolean {
+    return IndexedDb.isAvailable();
+  }
+
+  static async createJob(
+    playlistUrl: string,
+    playlist: M3U8Playlist,
+    options: DownloadOptions,
+    variant?: M3U8Variant | null
+  ): Promise<JournalSegmentStore> {
+    const now = Date.now();
+    const job: JournalJob = {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      playlistUrl,
+      playlist,
+      options,
+      variant,
+      status: 'active',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await IndexedDb.run(JOBS_STORE, 'readwrite', store => store.put(job));
+    return new JournalSegmentStore(job.id);
+  }
+
+  static async openJob(jobId: string): Promise<JournalSegmentStore> {
+    const keys = await IndexedDb.run(SEGMENTS_STORE, 'readonly', store => store.getAllKeys(jobSegmentRange(jobId)));
+    const indices = keys.map(key => (key as [string, number])[1]);
+    return new JournalSegmentStore(jobId, indices);
+  }
+
+  static async listUnfinished(): Promise<ResumableJob[]> {
+    const jobs = await IndexedDb.run<JournalJob[]>(JOBS_STORE, 'readonly', store => store.getAll());
+    const resumable = await Promise.all(jobs.map(async job => {
+      const completedSegments = await IndexedDb.run(
+        SEGMENTS_STORE, 'readonly', store => store.count(jobSegmentRange(job.id))
+      );
+      return { job, completedSegments };
+    }));
+
+    return resumable.sort((a, b) => b.job.updatedAt - a.job.updatedAt);
+  }
+
+  static async setStatus(jobId: string, status: JournalJobStatus): Promise<void> {
+    const job = await IndexedDb.run<JournalJob | undefined>(JOBS_STORE, 'readonly', store => store.get(jobId));
+    if (!job) {
+      return;
+    }
+    await IndexedDb.run(JOBS_STORE, 'readwrite', store => store.put({ ...job, status, updatedAt: Date.now() }));
+  }
+
+  static async deleteJob(jobId: string): Promise<void> {
+    await IndexedDb.run(SEGMENTS_STORE, 'readwrite', store => store.delete(jobSegmentRange(jobId)));
+    await IndexedDb.run(JOBS_STORE, 'readwrite', store => store.delete(jobId));
+  }
+}
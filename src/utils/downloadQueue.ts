@@ -0,0 +1,298 @@
+import { DownloadEngine, DownloadOptions, HistoryResult, M3U8Variant, QueueEntry, QueueJob, QualityPreference } from '../types';
+import { DownloadHistory } from './downloadHistory';
+import { DEFAULT_FILENAME_TEMPLATE, FileNameTemplate } from './fileNameTemplate';
+import { PlaylistLoader } from './playlistLoader';
+import { VariantSelector } from './variantSelector';
+import { DownloadEngineFactory } from './workerDownloader';
+import { OutputSinkFactory } from './outputSink';
+import { OUTPUT_FORMATS, resolveOutputFormat } from './outputFormats';
+
+export const MIN_QUEUE_CONCURRENCY = 1;
+export const MAX_QUEUE_CONCURRENCY = 6;
+export const DEFAULT_QUEUE_CONCURRENCY = 2;
+
+type QueueListener = (jobs: QueueJob[]) => void;
+
+// Runs many playlist downloads, each with its own download engine, a few at a time
+export class DownloadQueue {
+  private jobs: QueueJob[] = [];
+  private downloaders = new Map<string, DownloadEngine>();
+  private listeners = new Set<QueueListener>();
+  private concurrency = DEFAULT_QUEUE_CONCURRENCY;
+  private nextId = 1;
+  private fileNameTemplate = DEFAULT_FILENAME_TEMPLATE;
+
+  constructor(private qualityPreference: QualityPreference = 'highest') {}
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get maxConcurrent(): number {
+    return this.concurrency;
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.min(MAX_QUEUE_CONCURRENCY, Math.max(MIN_QUEUE_CONCURRENCY, Math.floor(concurrency)));
+    this.pump();
+  }
+
+  setQualityPreference(preference: QualityPreference): void {
+    this.qualityPreference = preference;
+  }
+
+  // Applies to jobs that have not started yet
+  setFileNameTemplate(template: string): void {
+    this.fileNameTemplate = template;
+  }
+
+  add(entries: QueueEntry[], options: DownloadOptions): void {
+    for (const entry of entries) {
+      this.jobs.push({
+        id: `job-${this.nextId++}`,
+        url: entry.url,
+        title: entry.title,
+        status: 'queued',
+        options,
+        progress: null
+      });
+    }
+    this.emit();
+    this.pump();
+  }
+
+  // Moves a job up (negative offset) or down the list; only queued order affects what runs next
+  move(jobId: string, offset: number): void {
+    const from = this.jobs.findIndex(job => job.id === jobId);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= this.jobs.length) {
+      return;
+    }
+    const [job] = this.jobs.splice(from, 1);
+    this.jobs.splice(to, 0, job);
+    this.emit();
+  }
+
+  cancel(jobId: string): void {
+    const job = this.find(jobId);
+    if (!job || job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+      return;
+    }
+    this.downloaders.get(jobId)?.cancelDownload();
+    this.downloaders.delete(jobId);
+    const started = job.status !== 'queued';
+    this.update(job, { status: 'cancelled', progress: null });
+    if (started) {
+      this.recordHistory(job, 'cancelled');
+    }
+    this.pump();
+  }
+
+  retry(jobId: string): void {
+    const job = this.find(jobId);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) {
+      return;
+    }
+    this.update(job, { status: 'queued', error: undefined, progress: null });
+    this.pump();
+  }
+
+  remove(jobId: string): void {
+    this.cancel(jobId);
+    this.jobs = this.jobs.filter(job => job.id !== jobId);
+    this.emit();
+  }
+
+  clearFinished(): void {
+    this.jobs = this.jobs.filter(job => job.status !== 'completed' && job.status !== 'cancelled');
+    this.emit();
+  }
+
+  cancelAll(): void {
+    this.jobs.forEach(job => this.cancel(job.id));
+  }
+
+  /**
+   * Parses a pasted list or an imported text/CSV file. Each line holds a URL and an
+   * optional title, separated by a comma, semicolon or tab; a header row is skipped.
+   */
+  static parseEntries(text: string): QueueEntry[] {
+    const entries: QueueEntry[] = [];
+    const seen = new Set<string>();
+
+    for (const line of text.split(/\r?\n/)) {
+      const fields = this.splitCsvLine(line).map(field => field.trim()).filter(Boolean);
+      const urlIndex = fields.findIndex(field => /^https?:\/\//i.test(field));
+      if (urlIndex === -1) {
+        continue;
+      }
+
+      const url = fields[urlIndex];
+      if (seen.has(url)) {
+        continue;
+      }
+      seen.add(url);
+
+      const title = fields.filter((_, index) => index !== urlIndex).join(' ');
+      entries.push(title ? { url, title } : { url });
+    }
+
+    return entries;
+  }
+
+  private static splitCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          current += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',' || char === ';' || char === '\t') {
+        fields.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    fields.push(current);
+    return fields;
+  }
+
+  private pump(): void {
+    const active = this.jobs.filter(job => job.status === 'loading' || job.status === 'downloading').length;
+    const queued = this.jobs.filter(job => job.status === 'queued');
+
+    for (const job of queued.slice(0, Math.max(0, this.concurrency - active))) {
+      this.runJob(job);
+    }
+  }
+
+  private async runJob(job: QueueJob): Promise<void> {
+    const downloader = DownloadEngineFactory.create();
+    // A cancelled or retried job gets a new downloader, so stale runs stop touching it
+    const isCurrent = () => this.downloaders.get(job.id) === downloader;
+    this.downloaders.set(job.id, downloader);
+    this.update(job, { status: 'loading', result: undefined });
+    let variant: M3U8Variant | undefined;
+
+    try {
+      const loaded = await PlaylistLoader.loadMedia(job.url, job.options, this.qualityPreference);
+      const { playlist, audioRendition, audioOnly } = loaded;
+      variant = loaded.variant;
+      const bandwidth = audioOnly ? VariantSelector.audioBitrate(variant) : variant && VariantSelector.bitrate(variant);
+      const options = { ...job.options, audioRendition: audioRendition ?? job.options.audioRendition, bandwidth, variant };
+      if (playlist.segments.length === 0) {
+        throw new Error('No video segments found in M3U8 playlist');
+      }
+      if (!isCurrent()) {
+        return;
+      }
+
+      const format = OUTPUT_FORMATS[resolveOutputFormat(playlist, options)];
+      const fileName = `${this.baseFileName(job, variant, playlist.totalDuration)}.${format.extension}`;
+      this.update(job, { status: 'downloading', fileName });
+      // Queue jobs start without a click, so they stream through the service worker or a Blob
+      const sink = await OutputSinkFactory.create(fileName, format.mimeType, format.extension, false);
+      // Cancelled or removed while the output was opening
+      if (!isCurrent()) {
+        await sink.abort();
+        return;
+      }
+      const result = await downloader.downloadM3U8(
+        playlist,
+        progress => isCurrent() && this.update(job, { progress }),
+        () => {},
+        options,
+        undefined,
+        sink
+      );
+      if (isCurrent()) {
+        this.update(job, { status: 'completed', result });
+        this.recordHistory(job, 'completed', variant);
+      }
+
+    } catch (error) {
+      if (!isCurrent()) {
+        return;
+      }
+      // Releases the output a partial download keeps open for retries; a queue retry starts over
+      downloader.cancelDownload();
+      console.error(`Queue job ${job.url} failed:`, error);
+      this.update(job, { status: 'failed', error: error instanceof Error ? error.message : 'Download failed' });
+      this.recordHistory(job, 'failed', variant);
+
+    } finally {
+      if (isCurrent()) {
+        this.downloaders.delete(job.id);
+      }
+      this.pump();
+    }
+  }
+
+  private recordHistory(job: QueueJob, result: HistoryResult, variant?: M3U8Variant): void {
+    if (!DownloadHistory.isAvailable()) {
+      return;
+    }
+    const blob = job.result?.blob;
+    const copy = blob && DownloadHistory.keepsCopies() ? { blob, attachments: job.result?.attachments } : undefined;
+    DownloadHistory.record({
+      sourceUrl: job.url,
+      title: job.title || FileNameTemplate.titleFromUrl(job.url),
+      variant: variant && VariantSelector.label(variant),
+      duration: job.result?.duration ?? 0,
+      size: job.result?.size ?? 0,
+      result,
+      fileName: job.fileName ?? '',
+      error: job.error
+    }, copy).catch(error => console.warn('Failed to record download history:', error));
+  }
+
+  // Jobs that render the same name get " (2)", " (3)"... instead of overwriting each other
+  private baseFileName(job: QueueJob, variant: M3U8Variant | undefined, duration: number): string {
+    const baseName = FileNameTemplate.render(this.fileNameTemplate, {
+      url: job.url,
+      title: job.title,
+      variant,
+      duration,
+      index: this.jobs.indexOf(job) + 1,
+      total: this.jobs.length
+    });
+    const taken = new Set(this.jobs
+      .filter(other => other !== job && other.fileName)
+      .map(other => other.fileName!.replace(/\.[^.]+$/, '').toLowerCase()));
+    return FileNameTemplate.unique(baseName, taken);
+  }
+
+  private find(jobId: string): QueueJob | undefined {
+    return this.jobs.find(job => job.id === jobId);
+  }
+
+  private update(job: QueueJob, changes: Partial<QueueJob>): void {
+    Object.assign(job, changes);
+    this.emit();
+  }
+
+  private snapshot(): QueueJob[] {
+    return this.jobs.map(job => ({ ...job }));
+  }
+
+  private emit(): void {
+    const jobs = this.snapshot();
+    this.listeners.forEach(listener => listener(jobs));
+  }
+}
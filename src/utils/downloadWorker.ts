@@ -0,0 +1,164 @@
+import { DownloadProgress, DownloadResult, DownloadWorkerRequest, DownloadWorkerResponse, OutputSink, OutputSinkKind, SegmentStore, SerializedError, WorkerStoreSpec } from '../types';
+import { JournalSegmentStore } from './downloadJournal';
+import { SegmentDownloadError } from './retryPolicy';
+import { MemorySegmentStore } from './segmentStore';
+import { VideoDownloader } from './videoDownloader';
+
+// Runs VideoDownloader off the main thread; WorkerDownloader is the other end of the protocol
+const downloader = new VideoDownloader();
+let store: NotifyingSegmentStore | null = null;
+const pendingReplies = new Map<number, { resolve: (blob: Blob | null) => void; reject: (error: Error) => void }>();
+let nextRequestId = 1;
+
+const post = (message: DownloadWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const request = (message: Extract<DownloadWorkerResponse, { requestId: number }>, transfer: Transferable[] = []): Promise<Blob | null> =>
+  new Promise((resolve, reject) => {
+    pendingReplies.set(message.requestId, { resolve, reject });
+    post(message, transfer);
+  });
+
+// Forwards output to the real sink on the main thread, one acknowledged chunk at a time
+class WorkerSinkProxy implements OutputSink {
+  constructor(readonly kind: OutputSinkKind, private sinkId: number) {}
+
+  async write(chunk: Uint8Array): Promise<void> {
+    // Only a chunk that owns its whole buffer can be transferred without detaching other data
+    const owned = chunk.byteOffset === 0 && chunk.byteLength === chunk.buffer.byteLength ? chunk : chunk.slice();
+    await request({ type: 'sink-write', requestId: nextRequestId++, sinkId: this.sinkId, chunk: owned }, [owned.buffer]);
+  }
+
+  close(): Promise<Blob | null> {
+    return request({ type: 'sink-close', requestId: nextRequestId++, sinkId: this.sinkId });
+  }
+
+  async abort(): Promise<void> {
+    await request({ type: 'sink-abort', requestId: nextRequestId++, sinkId: this.sinkId }).catch(() => {});
+  }
+}
+
+// Tells the main thread about every stored segment so its copy of storedIndices stays current
+class NotifyingSegmentStore implements SegmentStore {
+  runId = 0;
+
+  constructor(private store: SegmentStore) {}
+
+  get storedIndices(): Set<number> {
+    return this.store.storedIndices;
+  }
+
+  async put(index: number, data: Uint8Array): Promise<void> {
+    await this.store.put(index, data);
+    post({ type: 'segment-done', runId: this.runId, index, size: data.length });
+  }
+
+  get(index: number): Promise<Uint8Array | undefined> {
+    return this.store.get(index);
+  }
+
+  release(index: number): void {
+    this.store.release(index);
+  }
+
+  clear(): Promise<void> {
+    return this.store.clear();
+  }
+}
+
+const createStore = async (spec: WorkerStoreSpec): Promise<SegmentStore> => {
+  if (spec.kind === 'journal') {
+    return new JournalSegmentStore(spec.jobId, spec.storedIndices);
+  }
+  // Segments the page already had, e.g. from the preview
+  const memory = new MemorySegmentStore();
+  for (const { index, data } of spec.segments) {
+    await memory.put(index, data);
+  }
+  return memory;
+};
+
+const serializeError = (error: unknown): SerializedError => {
+  if (error instanceof SegmentDownloadError) {
+    return { name: error.name, message: error.message, failures: error.failures };
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { name: 'Error', message: String(error) };
+};
+
+const run = async (runId: number, task: () => Promise<DownloadResult>) => {
+  if (store) {
+    store.runId = runId;
+  }
+  try {
+    post({ type: 'done', runId, result: await task() });
+  } catch (error) {
+    post({ type: 'error', runId, error: serializeError(error) });
+  }
+};
+
+self.onmessage = (event: MessageEvent<DownloadWorkerRequest>) => {
+  const message = event.data;
+  const onProgress = (runId: number) => (progress: DownloadProgress) => post({ type: 'progress', runId, progress });
+  const onError = (runId: number) => (notice: string) => post({ type: 'notice', runId, message: notice });
+
+  switch (message.type) {
+    case 'start':
+      run(message.runId, async () => {
+        const segmentStore = new NotifyingSegmentStore(await createStore(message.store));
+        segmentStore.runId = message.runId;
+        store = segmentStore;
+        return downloader.downloadM3U8(
+          message.playlist,
+          onProgress(message.runId),
+          onError(message.runId),
+          message.options,
+          segmentStore,
+          new WorkerSinkProxy(message.sinkKind, message.sinkId)
+        );
+      });
+      break;
+    case 'record':
+      store = null;
+      run(message.runId, () => downloader.recordLive(
+        message.playlistUrl,
+        message.playlist,
+        onProgress(message.runId),
+        onError(message.runId),
+        message.options,
+        new WorkerSinkProxy(message.sinkKind, message.sinkId)
+      ));
+      break;
+    case 'retry':
+      run(message.runId, () => downloader.retryFailedSegments(onProgress(message.runId), onError(message.runId)));
+      break;
+    case 'save-with-gaps':
+      run(message.runId, () => downloader.saveWithGaps());
+      break;
+    case 'pause':
+      downloader.pause();
+      break;
+    case 'resume':
+      downloader.resume();
+      break;
+    case 'stop':
+      downloader.stopRecording();
+      break;
+    case 'cancel':
+      downloader.cancelDownload();
+      break;
+    case 'sink-reply': {
+      const pending = pendingReplies.get(message.requestId);
+      pendingReplies.delete(message.requestId);
+      if (message.error) {
+        pending?.reject(new Error(message.error));
+      } else {
+        pending?.resolve(message.blob ?? null);
+      }
+      break;
+    }
+  }
+};
@@ -0,0 +1,180 @@
+import { FileNameContext } from '../types';
+
+export const DEFAULT_FILENAME_TEMPLATE = '{title}';
+export const FALLBACK_FILENAME = 'edumaster-video';
+
+const TEMPLATE_KEY = 'edumaster-filename-template';
+const TOKEN_PATTERN = /\{(\w+)(?:\[(-?\d+)\])?\}/g;
+// Characters Windows, macOS or Linux reject in file names; control characters are replaced separately
+const ILLEGAL_CHARACTERS = /[\\/:*?"<>|]+/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+// Left behind around a token that rendered empty, e.g. "{title} - {quality}" without a quality
+const DANGLING_SEPARATORS = /^[\s._-]+|[\s._-]+$/g;
+const MAX_LENGTH = 180;
+// Playlist file names that say nothing about the video, so the folder name is used instead
+const GENERIC_NAMES = /^(index|playlist|master|main|prog_index|chunklist.*|media.*|video|stream)$/i;
+
+export const FILENAME_TOKENS: { token: string; description: string }[] = [
+  { token: '{title}', description: 'Entry title, or the most descriptive part of the URL path' },
+  { token: '{host}', description: 'Host name of the playlist URL' },
+  { token: '{pathSegment[n]}', description: 'Part n of the URL path, from 0; negative counts from the end' },
+  { token: '{date}', description: 'Today as YYYY-MM-DD' },
+  { token: '{quality}', description: 'Variant height, e.g. 720p, or its bandwidth' },
+  { token: '{duration}', description: 'Length of the video, e.g. 1h02m03s' },
+  { token: '{index}', description: 'Position in a batch, from 1' }
+];
+
+/**
+ * Builds file names from a template such as "{host} - {title} {quality}". Tokens render from
+ * the playlist URL and metadata, and the result is made safe to save on any platform.
+ */
+export class FileNameTemplate {
+  // A preference, so it lives in localStorage next to the library setting
+  static load(): string {
+    try {
+      return localStorage.getItem(TEMPLATE_KEY) || DEFAULT_FILENAME_TEMPLATE;
+    } catch {
+      return DEFAULT_FILENAME_TEMPLATE;
+    }
+  }
+
+  static save(template: string): void {
+    try {
+      localStorage.setItem(TEMPLATE_KEY, template);
+    } catch (error) {
+      console.warn('Failed to save the file name template:', error);
+    }
+  }
+
+  // Base name without an extension; never empty
+  static render(template: string, context: FileNameContext): string {
+    const name = (template.trim() || DEFAULT_FILENAME_TEMPLATE).replace(
+      TOKEN_PATTERN,
+      (match, token: string, position?: string) => this.token(token, position, context) ?? match
+    );
+    return this.sanitize(name) || FALLBACK_FILENAME;
+  }
+
+  // Tokens the template uses that render() would leave as written
+  static unknownTokens(template: string): string[] {
+    const unknown: string[] = [];
+    for (const [match, token, position] of template.matchAll(TOKEN_PATTERN)) {
+      const known = position === undefined ? token !== 'pathSegment' && this.isToken(token) : token === 'pathSegment';
+      if (!known) {
+        unknown.push(match);
+      }
+    }
+    return unknown;
+  }
+
+  static sanitize(name?: string): string {
+    const cleaned = this.replaceControlCharacters(name ?? '')
+      .replace(ILLEGAL_CHARACTERS, ' ')
+      .replace(/\s+/g, ' ')
+      .replace(DANGLING_SEPARATORS, '')
+      .slice(0, MAX_LENGTH)
+      .trim();
+    return RESERVED_NAMES.test(cleaned) ? `_${cleaned}` : cleaned;
+  }
+
+  // Adds " (2)", " (3)"... so files in one batch do not overwrite each other
+  static unique(baseName: string, taken: Set<string>): string {
+    let name = baseName;
+    for (let n = 2; taken.has(name.toLowerCase()); n++) {
+      name = `${baseName} (${n})`;
+    }
+    taken.add(name.toLowerCase());
+    return name;
+  }
+
+  // e.g. https://cdn.example.com/courses/lecture-01/index.m3u8 -> lecture-01
+  static titleFromUrl(url: string): string {
+    try {
+      const { hostname } = new URL(url);
+      const name = [...this.pathSegments(url)].reverse().find(part => !GENERIC_NAMES.test(part));
+      return name || hostname;
+    } catch {
+      return url;
+    }
+  }
+
+  private static replaceControlCharacters(name: string): string {
+    return Array.from(name, char => {
+      const code = char.charCodeAt(0);
+      return code < 0x20 || code === 0x7f ? ' ' : char;
+    }).join('');
+  }
+
+  private static isToken(token: string): boolean {
+    return FILENAME_TOKENS.some(({ token: known }) => known === `{${token}}`);
+  }
+
+  private static token(token: string, position: string | undefined, context: FileNameContext): string | null {
+    if (position !== undefined) {
+      if (token !== 'pathSegment') return null;
+      const segments = this.pathSegments(context.url);
+      const n = Number(position);
+      return segments[n < 0 ? segments.length + n : n] ?? '';
+    }
+
+    switch (token) {
+      case 'title':
+        return context.title?.trim() || this.titleFromUrl(context.url);
+      case 'host':
+        try {
+          return new URL(context.url).hostname;
+        } catch {
+          return '';
+        }
+      case 'date':
+        return this.formatDate(context.date ?? new Date());
+      case 'quality':
+        return this.formatQuality(context);
+      case 'duration':
+        return context.duration ? this.formatDuration(context.duration) : '';
+      case 'index':
+        return String(context.index ?? 1).padStart(String(context.total ?? 1).length, '0');
+      default:
+        return null;
+    }
+  }
+
+  // Decoded path parts without the playlist extension
+  private static pathSegments(url: string): string[] {
+    try {
+      return new URL(url).pathname.split('/')
+        .filter(Boolean)
+        .map(part => {
+          try {
+            return decodeURIComponent(part);
+          } catch {
+            return part;
+          }
+        })
+        .map(part => part.replace(/\.m3u8?$/i, ''));
+    } catch {
+      return [];
+    }
+  }
+
+  private static formatQuality({ variant }: FileNameContext): string {
+    if (!variant) return '';
+    if (variant.resolution) return `${variant.resolution.height}p`;
+    return `${Math.round((variant.averageBandwidth ?? variant.bandwidth) / 1000)}kbps`;
+  }
+
+  // Local date, so a download made late in the evening is not filed under tomorrow
+  private static formatDate(date: Date): string {
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  // Colons are not allowed in file names, so h:mm:ss becomes 1h02m03s
+  private static formatDuration(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = Math.floor(seconds % 60);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return hours > 0 ? `${hours}h${pad(minutes)}m${pad(secs)}s` : `${minutes}m${pad(secs)}s`;
+  }
+}
@@ -0,0 +1,348 @@
+import { DownloadOptions, DownloadProgress, DownloadResult, M3U8ByteRange, M3U8Key, M3U8Map, M3U8Playlist, M3U8Rendition, M3U8Segment, OutputSink } from '../types';
+import { ClipPlanner } from './clipPlanner';
+import { M3U8Parser } from './m3u8Parser';
+import { M3U8Writer, MasterStream } from './m3u8Writer';
+import { MediaFetcher } from './mediaFetcher';
+import { PlaylistLoader } from './playlistLoader';
+import { TransferMeter } from './progressTracker';
+import { RelayClient } from './relayClient';
+import { DEFAULT_MAX_RETRIES, RetryPolicy } from './retryPolicy';
+import { SegmentDecryptor } from './segmentDecryptor';
+import { DEFAULT_CONCURRENCY, SegmentScheduler } from './segmentScheduler';
+import { SegmentValidator } from './segmentValidator';
+import { UrlResolver } from './urlResolver';
+import { ZipWriter } from './zipWriter';
+
+const PROGRESS_INTERVAL_MS = 250;
+const ROOT_PLAYLIST = 'index.m3u8';
+const MEDIA_PLAYLIST = 'index.m3u8';
+const KEYS_DIRECTORY = 'keys';
+const SUBTITLE_GROUP = 'subs';
+const EXTENSION = /\.([a-z0-9]{1,5})$/i;
+
+// One media playlist of the package and the directory its files go in
+interface PackagedMedia {
+  directory: string;
+  // URIs as the playlist gives them, used for naming and rewriting
+  source: M3U8Playlist;
+  // The same segments with forwarded tokens and the relay applied, used for fetching
+  request: M3U8Playlist;
+  rendition?: M3U8Rendition;
+  rewritten: M3U8Segment[];
+  // Stored bytes per segment, for the master playlist's BANDWIDTH
+  sizes: number[];
+}
+
+// A file fetched into the archive
+interface PackageFile {
+  path: string;
+  url: string;
+  byteRange?: M3U8ByteRange;
+  // Set for unencrypted media segments, which are checked against their container
+  validate?: M3U8Segment;
+  keyMethod?: string;
+  // Segment sizes to fill in once the file is stored
+  media?: { media: PackagedMedia; index: number }[];
+}
+
+/**
+ * Exports a stream as an offline HLS package: a ZIP holding the original segments, keys, init
+ * sections and renditions, with playlists rewritten to relative URIs. Segments stay encrypted
+ * and untouched, so the package plays from local storage in any HLS player.
+ */
+export class HlsPackager {
+  private files: PackageFile[] = [];
+  // Keyed by resource, so a file shared by several segments or playlists is stored once
+  private filesById = new Map<string, PackageFile>();
+  private counters = new Map<string, number>();
+
+  constructor(private options: DownloadOptions) {}
+
+  async package(
+    playlist: M3U8Playlist,
+    sink: OutputSink,
+    onProgress: (progress: DownloadProgress) => void,
+    signal: AbortSignal
+  ): Promise<DownloadResult> {
+    const zip = new ZipWriter(sink);
+    try {
+      if (M3U8Parser.isLive(playlist)) {
+        throw new Error('Live streams cannot be exported as an HLS package; record them as MP4 or MPEG-TS instead');
+      }
+
+      const video = this.media('video', ClipPlanner.plan(playlist, this.options.clip).playlist);
+      const audio = this.options.audioRendition?.uri
+        ? await this.loadRendition(this.options.audioRendition, 'audio', playlist.url, signal)
+        : null;
+      const subtitles: PackagedMedia[] = [];
+      for (const rendition of this.options.subtitleRenditions ?? []) {
+        if (rendition.uri) {
+          const name = `subtitles-${HlsPackager.slug(rendition.language || rendition.name) || subtitles.length + 1}`;
+          const media = await this.loadRendition(rendition, name, playlist.url, signal);
+          if (media) subtitles.push(media);
+        }
+      }
+
+      const all = [video, ...(audio ? [audio] : []), ...subtitles];
+      all.forEach(media => this.plan(media));
+      await this.fetchAll(zip, onProgress, signal);
+
+      for (const media of all) {
+        const version = Math.max(3, media.source.version);
+        const text = M3U8Writer.writeMedia({ ...media.source, version, segments: media.rewritten });
+        await zip.add(`${media.directory}/${MEDIA_PLAYLIST}`, new TextEncoder().encode(text));
+      }
+      const variant = this.options.variant;
+      await zip.add(ROOT_PLAYLIST, new TextEncoder().encode(M3U8Writer.writeMaster({
+        uri: `${video.directory}/${MEDIA_PLAYLIST}`,
+        ...HlsPackager.bandwidth(video, audio),
+        codecs: variant?.codecs,
+        resolution: variant?.resolution,
+        frameRate: variant?.frameRate,
+        // The only audio track in the package, so players must pick it
+        audio: audio?.rendition && {
+          rendition: { ...audio.rendition, isDefault: true, autoSelect: true },
+          uri: `${audio.directory}/${MEDIA_PLAYLIST}`
+        },
+        subtitles: HlsPackager.subtitleGroup(subtitles)
+      })));
+
+      const size = await zip.finish();
+      const blob = await sink.close();
+      console.log('Exported HLS package:', this.files.length, 'files,', size, 'bytes');
+      return { blob, size, sinkKind: sink.kind, duration: video.source.totalDuration };
+
+    } catch (error) {
+      await sink.abort();
+      if (signal.aborted) {
+        throw new Error('Download cancelled');
+      }
+      throw error;
+    }
+  }
+
+  private media(directory: string, source: M3U8Playlist, rendition?: M3U8Rendition): PackagedMedia {
+    return {
+      directory,
+      source,
+      request: RelayClient.requestPlaylist(source, this.options),
+      rendition,
+      rewritten: [],
+      sizes: source.segments.map(() => 0)
+    };
+  }
+
+  // A rendition the clip does not reach is left out of the package
+  private async loadRendition(
+    rendition: M3U8Rendition,
+    directory: string,
+    videoPlaylistUrl: string | undefined,
+    signal: AbortSignal
+  ): Promise<PackagedMedia | null> {
+    if (signal.aborted) {
+      throw new Error('Download cancelled');
+    }
+    const renditionUrl = UrlResolver.forwardQueryParams(rendition.uri!, videoPlaylistUrl, this.options.forwardQueryParams);
+    const loaded = await PlaylistLoader.load(renditionUrl, this.options.relay);
+    const source = M3U8Parser.parsePlaylist(loaded.content, loaded.url);
+    try {
+      return this.media(directory, ClipPlanner.plan(source, this.options.clip).playlist, rendition);
+    } catch {
+      console.warn(`Track "${rendition.name}" has no media in the clip range and is left out`);
+      return null;
+    }
+  }
+
+  // Names every file and rewrites the playlist's URIs to them; a resource shared by segments is stored once
+  private plan(media: PackagedMedia): void {
+    const { directory, source, request } = media;
+    const fragmented = M3U8Parser.isFragmentedMp4(source);
+    const fallbackExtension = media.rendition?.type === 'SUBTITLES' ? 'vtt' : fragmented ? 'm4s' : 'ts';
+    const digits = Math.max(5, String(source.segments.length).length);
+
+    media.rewritten = source.segments.map((segment, index) => {
+      const requested = request.segments[index];
+      const name = `${String(index).padStart(digits, '0')}.${HlsPackager.extension(segment.uri, fallbackExtension)}`;
+      const key = this.planKey(segment.key, requested.key);
+      const map = segment.map && this.planMap(media, segment.map, requested.map!);
+      const rewritten: M3U8Segment = { ...segment, byteRange: undefined, key, map };
+      if (segment.gap) {
+        return { ...rewritten, uri: name };
+      }
+
+      const file = this.file(HlsPackager.resourceId(segment.uri, segment.byteRange), () => `${directory}/${name}`, {
+        url: requested.uri,
+        byteRange: segment.byteRange,
+        validate: !segment.key && media.rendition?.type !== 'SUBTITLES' ? requested : undefined
+      });
+      file.media = [...(file.media ?? []), { media, index }];
+      return { ...rewritten, uri: HlsPackager.relative(directory, file.path) };
+    });
+  }
+
+  private planMap(media: PackagedMedia, map: M3U8Map, requested: M3U8Map): M3U8Map {
+    const file = this.file(HlsPackager.resourceId(map.uri, map.byteRange), () => {
+      return `${media.directory}/init-${this.next(`${media.directory}/init`)}.${HlsPackager.extension(map.uri, 'mp4')}`;
+    }, { url: requested.uri, byteRange: map.byteRange });
+    return { uri: HlsPackager.relative(media.directory, file.path), key: this.planKey(map.key, requested.key) };
+  }
+
+  // Keys are shared by every playlist, so they live in their own directory
+  private planKey(key?: M3U8Key, requested?: M3U8Key): M3U8Key | undefined {
+    if (!key) {
+      return undefined;
+    }
+    if (key.keyFormat && key.keyFormat !== 'identity') {
+      throw new Error(`This stream is protected by DRM (KEYFORMAT "${key.keyFormat}") and cannot be exported`);
+    }
+
+    // A key or IV entered by hand replaces the playlist's
+    const override = this.options.keyOverride;
+    const iv = override?.iv?.trim() ? `0x${HlsPackager.hex(SegmentDecryptor.parseKeyMaterial(override.iv, 'IV'))}` : key.iv;
+    if (override?.key.trim()) {
+      const file = this.file('key-override', () => `${KEYS_DIRECTORY}/key.key`, { url: '', keyMethod: key.method });
+      return { ...key, uri: `../${file.path}`, iv };
+    }
+
+    if (!key.uri || !requested?.uri) {
+      throw new Error('Encrypted segment has no key URI; supply the key manually in Advanced Options');
+    }
+    const file = this.file(key.uri, () => `${KEYS_DIRECTORY}/key-${this.next(KEYS_DIRECTORY)}.key`, { url: requested.uri, keyMethod: key.method });
+    return { ...key, uri: `../${file.path}`, iv };
+  }
+
+  // Returns the file already planned for the same resource, or plans a new one
+  private file(id: string, path: () => string, details: Omit<PackageFile, 'path'>): PackageFile {
+    let file = this.filesById.get(id);
+    if (!file) {
+      file = { path: path(), ...details };
+      this.filesById.set(id, file);
+      this.files.push(file);
+    }
+    return file;
+  }
+
+  private next(prefix: string): number {
+    const count = (this.counters.get(prefix) ?? 0) + 1;
+    this.counters.set(prefix, count);
+    return count;
+  }
+
+  private async fetchAll(zip: ZipWriter, onProgress: (progress: DownloadProgress) => void, signal: AbortSignal): Promise<void> {
+    const scheduler = new SegmentScheduler(this.options.concurrency ?? DEFAULT_CONCURRENCY);
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const meter = new TransferMeter();
+    const total = this.files.length;
+    let completed = 0;
+    let downloadedBytes = 0;
+    let lastReport = 0;
+
+    const report = (force = true) => {
+      const now = Date.now();
+      if (!force && now - lastReport < PROGRESS_INTERVAL_MS) {
+        return;
+      }
+      lastReport = now;
+      onProgress({
+        segmentIndex: completed,
+        totalSegments: total,
+        downloadedBytes,
+        totalBytes: downloadedBytes,
+        percentage: total > 0 ? Math.floor((completed / total) * 100) : 100,
+        bytesPerSecond: meter.bytesPerSecond()
+      });
+    };
+
+    report();
+    await scheduler.run(this.files.map((_, index) => index), async index => {
+      const file = this.files[index];
+      let received = 0;
+      try {
+        const { result } = await RetryPolicy.execute(
+          attemptSignal => this.fetchFile(file, attemptSignal, loaded => {
+            meter.record(loaded >= received ? loaded - received : loaded);
+            received = loaded;
+            report(false);
+          }),
+          { maxRetries, signal }
+        );
+        downloadedBytes += result.length;
+        file.media?.forEach(({ media, index }) => {
+          media.sizes[index] = result.length;
+        });
+        await zip.add(file.path, result);
+        completed++;
+        report();
+      } catch (error) {
+        if (signal.aborted) {
+          throw error;
+        }
+        throw new Error(`Failed to download ${file.path}: ${error instanceof Error ? error.message : error}`);
+      }
+    }, signal);
+  }
+
+  private async fetchFile(file: PackageFile, signal: AbortSignal, onProgress: (loaded: number) => void): Promise<Uint8Array> {
+    if (!file.url) {
+      return SegmentDecryptor.parseKeyMaterial(this.options.keyOverride!.key, 'key');
+    }
+
+    const data = await MediaFetcher.fetchBytes(file.url, signal, file.byteRange, onProgress);
+    if (file.validate) {
+      SegmentValidator.checkContainer(data, file.validate);
+    }
+    if (file.keyMethod === 'AES-128' && data.length !== 16) {
+      throw new Error(`Decryption key has ${data.length} bytes, expected 16`);
+    }
+    return data;
+  }
+
+  // RFC 8216 4.3.4.2: BANDWIDTH is the peak segment bitrate, audio included
+  private static bandwidth(video: PackagedMedia, audio: PackagedMedia | null): { bandwidth: number; averageBandwidth?: number } {
+    const bitrate = (media: PackagedMedia | null, pick: (rates: number[], average: number) => number) => {
+      if (!media) return 0;
+      const { segments, totalDuration } = media.source;
+      const rates = segments.map((segment, index) => segment.duration > 0 ? (media.sizes[index] * 8) / segment.duration : 0);
+      const average = totalDuration > 0 ? (media.sizes.reduce((sum, size) => sum + size, 0) * 8) / totalDuration : 0;
+      return pick(rates, average);
+    };
+    const peak = bitrate(video, rates => Math.max(0, ...rates)) + bitrate(audio, rates => Math.max(0, ...rates));
+    const average = bitrate(video, (_, average) => average) + bitrate(audio, (_, average) => average);
+    return { bandwidth: Math.max(1, peak), averageBandwidth: average || undefined };
+  }
+
+  // The variant plays with a single subtitle group, so tracks picked from several groups are merged into one
+  // that has at most one default
+  private static subtitleGroup(subtitles: PackagedMedia[]): MasterStream['subtitles'] {
+    const defaultIndex = subtitles.findIndex(media => media.rendition!.isDefault);
+    return subtitles.map((media, index) => ({
+      rendition: { ...media.rendition!, groupId: SUBTITLE_GROUP, isDefault: index === defaultIndex },
+      uri: `${media.directory}/${MEDIA_PLAYLIST}`
+    }));
+  }
+
+  private static resourceId(url: string, byteRange?: M3U8ByteRange): string {
+    return byteRange ? `${url}@${byteRange.offset}:${byteRange.length}` : url;
+  }
+
+  // Keys live in a sibling directory; everything else sits next to its playlist
+  private static relative(directory: string, path: string): string {
+    return path.startsWith(`${directory}/`) ? path.slice(directory.length + 1) : `../${path}`;
+  }
+
+  private static extension(url: string, fallback: string): string {
+    try {
+      return EXTENSION.exec(new URL(url).pathname)?.[1].toLowerCase() ?? fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private static slug(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private static hex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
@@ -0,0 +1,381 @@
+import { M3U8ByteRange, M3U8PlaylistType, ParseMode, PlaylistDiagnostic } from '../types';
+
+const DECIMAL_INTEGER = /^\d+$/;
+const DECIMAL_FLOAT = /^\d+(\.\d+)?$/;
+const SIGNED_DECIMAL_FLOAT = /^-?\d+(\.\d+)?$/;
+const HEXADECIMAL = /^0[xX][0-9a-fA-F]+$/;
+const RESOLUTION = /^\d+x\d+$/;
+const ATTRIBUTE_NAME = /^[A-Z0-9-]+$/;
+
+// Thrown for playlists that cannot be used; carries every problem found up to that point
+export class PlaylistParseError extends Error {
+  readonly diagnostics: PlaylistDiagnostic[];
+
+  constructor(message: string, diagnostics: PlaylistDiagnostic[]) {
+    super(message);
+    this.name = 'PlaylistParseError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+// Collects problems with their line numbers; strict mode turns every error into a failure at the end
+export class PlaylistDiagnostics {
+  readonly list: PlaylistDiagnostic[] = [];
+
+  constructor(readonly mode: ParseMode = 'lenient') {}
+
+  error(line: number, message: string, tag?: string): void {
+    this.list.push({ severity: 'error', line, message, tag });
+  }
+
+  warn(line: number, message: string, tag?: string): void {
+    this.list.push({ severity: 'warning', line, message, tag });
+  }
+
+  get errorCount(): number {
+    return this.list.filter(diagnostic => diagnostic.severity === 'error').length;
+  }
+
+  // Problems the parser cannot work around, whatever the mode
+  fatal(line: number, message: string, tag?: string): never {
+    this.error(line, message, tag);
+    throw new PlaylistParseError(`Invalid M3U8 playlist: ${message} (line ${line})`, this.list);
+  }
+
+  finish(): PlaylistDiagnostic[] {
+    this.list.sort((a, b) => a.line - b.line);
+    const errors = this.errorCount;
+    if (this.mode === 'strict' && errors > 0) {
+      const first = this.list.find(diagnostic => diagnostic.severity === 'error')!;
+      throw new PlaylistParseError(
+        `Invalid M3U8 playlist: ${errors} ${errors === 1 ? 'error' : 'errors'}, first on line ${first.line}: ${first.message}`,
+        this.list
+      );
+    }
+    return this.list;
+  }
+}
+
+interface HlsAttribute {
+  value: string;
+  quoted: boolean;
+}
+
+// RFC 8216 4.2 attribute list, with typed accessors that report values of the wrong type
+export class AttributeList {
+  private constructor(
+    private values: Map<string, HlsAttribute>,
+    readonly line: number,
+    readonly tag: string,
+    readonly diagnostics: PlaylistDiagnostics
+  ) {}
+
+  static parse(text: string, line: number, tag: string, diagnostics: PlaylistDiagnostics): AttributeList {
+    const values = new Map<string, HlsAttribute>();
+    let position = 0;
+
+    while (position < text.length) {
+      const equals = text.indexOf('=', position);
+      if (equals < 0) {
+        diagnostics.error(line, `Malformed attribute "${text.substring(position)}"`, tag);
+        break;
+      }
+
+      const name = text.substring(position, equals).trim();
+      if (!ATTRIBUTE_NAME.test(name)) {
+        diagnostics.error(line, `Invalid attribute name "${name}"`, tag);
+      }
+      position = equals + 1;
+
+      let attribute: HlsAttribute;
+      if (text[position] === '"') {
+        // Quoted strings may contain commas, so they end only at the closing quote
+        const close = text.indexOf('"', position + 1);
+        if (close < 0) {
+          diagnostics.error(line, `Unterminated quoted string in ${name}`, tag);
+          attribute = { value: text.substring(position + 1), quoted: true };
+          position = text.length;
+        } else {
+          attribute = { value: text.substring(position + 1, close), quoted: true };
+          position = close + 1;
+          if (position < text.length && text[position] !== ',') {
+            diagnostics.error(line, `Unexpected characters after the quoted value of ${name}`, tag);
+            const comma = text.indexOf(',', position);
+            position = comma < 0 ? text.length : comma;
+          }
+        }
+      } else {
+        const comma = text.indexOf(',', position);
+        const end = comma < 0 ? text.length : comma;
+        attribute = { value: text.substring(position, end).trim(), quoted: false };
+        position = end;
+      }
+
+      if (values.has(name)) {
+        diagnostics.error(line, `Duplicate attribute ${name}`, tag);
+      } else {
+        values.set(name, attribute);
+      }
+      if (text[position] === ',') {
+        position++;
+      }
+    }
+
+    return new AttributeList(values, line, tag, diagnostics);
+  }
+
+  has(name: string): boolean {
+    return this.values.has(name);
+  }
+
+  names(): string[] {
+    return [...this.values.keys()];
+  }
+
+  quotedString(name: string, required = false): string | undefined {
+    const attribute = this.get(name, required);
+    if (attribute && !attribute.quoted) {
+      this.diagnostics.error(this.line, `${name} must be a quoted string`, this.tag);
+    }
+    return attribute?.value;
+  }
+
+  enumerated(name: string, allowed: string[] | null, required = false): string | undefined {
+    const attribute = this.get(name, required);
+    if (!attribute) {
+      return undefined;
+    }
+    if (attribute.quoted) {
+      this.diagnostics.error(this.line, `${name} must not be quoted`, this.tag);
+    }
+    if (allowed && !allowed.includes(attribute.value)) {
+      this.diagnostics.error(this.line, `${name}=${attribute.value} is not one of ${allowed.join(', ')}`, this.tag);
+    }
+    return attribute.value;
+  }
+
+  integer(name: string, required = false): number | undefined {
+    return this.number(name, DECIMAL_INTEGER, 'a decimal integer', required);
+  }
+
+  decimal(name: string, required = false, signed = false): number | undefined {
+    return this.number(name, signed ? SIGNED_DECIMAL_FLOAT : DECIMAL_FLOAT, 'a decimal number', required);
+  }
+
+  hexadecimal(name: string, required = false): string | undefined {
+    const attribute = this.get(name, required);
+    if (attribute && (attribute.quoted || !HEXADECIMAL.test(attribute.value))) {
+      this.diagnostics.error(this.line, `${name} must be a hexadecimal sequence`, this.tag);
+    }
+    return attribute?.value;
+  }
+
+  resolution(name: string): { width: number; height: number } | undefined {
+    const attribute = this.get(name, false);
+    if (!attribute) {
+      return undefined;
+    }
+    if (!RESOLUTION.test(attribute.value)) {
+      this.diagnostics.error(this.line, `${name} must be WIDTHxHEIGHT`, this.tag);
+      return undefined;
+    }
+    const [width, height] = attribute.value.split('x').map(value => parseInt(value));
+    return { width, height };
+  }
+
+  private number(name: string, pattern: RegExp, description: string, required: boolean): number | undefined {
+    const attribute = this.get(name, required);
+    if (!attribute) {
+      return undefined;
+    }
+    if (attribute.quoted || !pattern.test(attribute.value)) {
+      this.diagnostics.error(this.line, `${name} must be ${description}`, this.tag);
+    }
+    const value = parseFloat(attribute.value);
+    return isNaN(value) ? undefined : value;
+  }
+
+  private get(name: string, required: boolean): HlsAttribute | undefined {
+    const attribute = this.values.get(name);
+    if (!attribute && required) {
+      this.diagnostics.error(this.line, `Missing required attribute ${name}`, this.tag);
+    }
+    return attribute;
+  }
+}
+
+export type HlsTag =
+  | { name: 'EXTM3U' }
+  | { name: 'EXT-X-VERSION'; version: number }
+  | { name: 'EXTINF'; duration: number; title?: string; integer: boolean }
+  | { name: 'EXT-X-TARGETDURATION'; duration: number }
+  | { name: 'EXT-X-MEDIA-SEQUENCE'; sequence: number }
+  | { name: 'EXT-X-DISCONTINUITY-SEQUENCE'; sequence: number }
+  | { name: 'EXT-X-BYTERANGE'; length: number; offset?: number }
+  | { name: 'EXT-X-PROGRAM-DATE-TIME'; dateTime: string }
+  | { name: 'EXT-X-PLAYLIST-TYPE'; playlistType: M3U8PlaylistType }
+  | { name: 'EXT-X-GAP' }
+  | { name: 'EXT-X-DISCONTINUITY' }
+  | { name: 'EXT-X-ENDLIST' }
+  | { name: 'EXT-X-INDEPENDENT-SEGMENTS' }
+  | { name: 'EXT-X-I-FRAMES-ONLY' }
+  | { name: 'EXT-X-KEY' | 'EXT-X-MAP' | 'EXT-X-START' | 'EXT-X-STREAM-INF' | 'EXT-X-MEDIA' | 'EXT-X-I-FRAME-STREAM-INF' | 'EXT-X-SESSION-DATA' | 'EXT-X-SESSION-KEY' | 'EXT-X-DATERANGE'; attributes: AttributeList };
+
+// One meaningful playlist line: a recognised tag or a URI, with its 1-based line number
+export type HlsLine = { line: number } & ({ kind: 'tag'; tag: HlsTag } | { kind: 'uri'; uri: string });
+
+const ATTRIBUTE_TAGS = new Set([
+  'EXT-X-KEY', 'EXT-X-MAP', 'EXT-X-START', 'EXT-X-STREAM-INF', 'EXT-X-MEDIA',
+  'EXT-X-I-FRAME-STREAM-INF', 'EXT-X-SESSION-DATA', 'EXT-X-SESSION-KEY', 'EXT-X-DATERANGE'
+]);
+const VALUELESS_TAGS = new Set([
+  'EXTM3U', 'EXT-X-GAP', 'EXT-X-DISCONTINUITY', 'EXT-X-ENDLIST', 'EXT-X-INDEPENDENT-SEGMENTS', 'EXT-X-I-FRAMES-ONLY'
+]);
+
+// Turns playlist text into typed tags; unknown tags are reported and skipped as RFC 8216 requires
+export class HlsTagReader {
+  static read(content: string, diagnostics: PlaylistDiagnostics): HlsLine[] {
+    const rawLines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const lines: HlsLine[] = [];
+
+    if (rawLines[0]?.trim() !== '#EXTM3U') {
+      diagnostics.fatal(1, 'The first line must be #EXTM3U', 'EXTM3U');
+    }
+
+    rawLines.forEach((raw, index) => {
+      const text = raw.trim();
+      const line = index + 1;
+      if (!text) {
+        return;
+      }
+      if (!text.startsWith('#')) {
+        lines.push({ line, kind: 'uri', uri: text });
+        return;
+      }
+      // Lines starting with # but not #EXT are comments
+      if (!text.startsWith('#EXT')) {
+        return;
+      }
+
+      const tag = this.readTag(text, line, diagnostics);
+      if (tag) {
+        lines.push({ line, kind: 'tag', tag });
+      }
+    });
+
+    return lines;
+  }
+
+  private static readTag(text: string, line: number, diagnostics: PlaylistDiagnostics): HlsTag | null {
+    const colon = text.indexOf(':');
+    const name = colon < 0 ? text.substring(1) : text.substring(1, colon);
+    const value = colon < 0 ? undefined : text.substring(colon + 1).trim();
+
+    if (VALUELESS_TAGS.has(name)) {
+      if (value !== undefined) {
+        diagnostics.error(line, 'Tag does not take a value', name);
+      }
+      return { name } as HlsTag;
+    }
+    if (value === undefined) {
+      if (ATTRIBUTE_TAGS.has(name) || this.isValueTag(name)) {
+        diagnostics.error(line, 'Tag is missing its value', name);
+      } else {
+        diagnostics.warn(line, 'Unknown tag ignored', name);
+      }
+      return null;
+    }
+    if (ATTRIBUTE_TAGS.has(name)) {
+      return { name, attributes: AttributeList.parse(value, line, name, diagnostics) } as HlsTag;
+    }
+
+    switch (name) {
+      case 'EXT-X-VERSION': {
+        const version = this.integer(value, line, name, diagnostics);
+        return version === null ? null : { name, version };
+      }
+      case 'EXT-X-TARGETDURATION': {
+        const duration = this.integer(value, line, name, diagnostics);
+        return duration === null ? null : { name, duration };
+      }
+      case 'EXT-X-MEDIA-SEQUENCE':
+      case 'EXT-X-DISCONTINUITY-SEQUENCE': {
+        const sequence = this.integer(value, line, name, diagnostics);
+        return sequence === null ? null : { name, sequence };
+      }
+      case 'EXTINF':
+        return this.readExtinf(value, line, diagnostics);
+      case 'EXT-X-BYTERANGE': {
+        const byteRange = this.byteRange(value, line, name, diagnostics);
+        return byteRange ? { name, ...byteRange } : null;
+      }
+      case 'EXT-X-PROGRAM-DATE-TIME':
+        if (isNaN(Date.parse(value))) {
+          diagnostics.error(line, `"${value}" is not an ISO 8601 date`, name);
+          return null;
+        }
+        return { name, dateTime: new Date(value).toISOString() };
+      case 'EXT-X-PLAYLIST-TYPE':
+        if (value !== 'VOD' && value !== 'EVENT') {
+          diagnostics.error(line, `Playlist type must be VOD or EVENT, not "${value}"`, name);
+          return null;
+        }
+        return { name, playlistType: value };
+      default:
+        diagnostics.warn(line, 'Unknown tag ignored', name);
+        return null;
+    }
+  }
+
+  private static isValueTag(name: string): boolean {
+    return ['EXT-X-VERSION', 'EXT-X-TARGETDURATION', 'EXT-X-MEDIA-SEQUENCE', 'EXT-X-DISCONTINUITY-SEQUENCE',
+      'EXTINF', 'EXT-X-BYTERANGE', 'EXT-X-PROGRAM-DATE-TIME', 'EXT-X-PLAYLIST-TYPE'].includes(name);
+  }
+
+  // "#EXTINF:<duration>,[<title>]"
+  private static readExtinf(value: string, line: number, diagnostics: PlaylistDiagnostics): HlsTag | null {
+    const comma = value.indexOf(',');
+    if (comma < 0) {
+      diagnostics.error(line, 'EXTINF needs a comma after the duration', 'EXTINF');
+    }
+    const durationText = (comma < 0 ? value : value.substring(0, comma)).trim();
+    const title = comma < 0 ? '' : value.substring(comma + 1).trim();
+
+    if (!DECIMAL_FLOAT.test(durationText)) {
+      diagnostics.error(line, `Invalid segment duration "${durationText}"`, 'EXTINF');
+      const lenient = parseFloat(durationText);
+      if (isNaN(lenient)) {
+        return null;
+      }
+      return { name: 'EXTINF', duration: lenient, title: title || undefined, integer: false };
+    }
+    return { name: 'EXTINF', duration: parseFloat(durationText), title: title || undefined, integer: DECIMAL_INTEGER.test(durationText) };
+  }
+
+  private static integer(value: string, line: number, tag: string, diagnostics: PlaylistDiagnostics): number | null {
+    if (DECIMAL_INTEGER.test(value)) {
+      return parseInt(value);
+    }
+    diagnostics.error(line, `"${value}" is not a decimal integer`, tag);
+    // Lenient mode keeps usable values such as a fractional target duration
+    const lenient = parseFloat(value);
+    return isNaN(lenient) ? null : lenient;
+  }
+
+  // "n[@o]": a length and an optional offset
+  static byteRange(value: string, line: number, tag: string, diagnostics: PlaylistDiagnostics): { length: number; offset?: number } | null {
+    const match = value.trim().match(/^(\d+)(?:@(\d+))?$/);
+    if (!match) {
+      diagnostics.error(line, `Invalid byte range "${value}"`, tag);
+      return null;
+    }
+    return {
+      length: parseInt(match[1]),
+      offset: match[2] !== undefined ? parseInt(match[2]) : undefined
+    };
+  }
+
+  static withOffset(range: { length: number; offset?: number }, fallbackOffset: number): M3U8ByteRange {
+    return { length: range.length, offset: range.offset ?? fallbackOffset };
+  }
+}
@@ -0,0 +1,14 @@
+// Every playlist, key and segment request goes through here so the Node CLI can swap in its own fetch
+export type FetchAdapter = (url: string, init?: RequestInit) => Promise<Response>;
+
+export class HttpClient {
+  private static adapter: FetchAdapter = (url, init) => fetch(url, init);
+
+  static setAdapter(adapter: FetchAdapter): void {
+    this.adapter = adapter;
+  }
+
+  static fetch(url: string, init?: RequestInit): Promise<Response> {
+    return this.adapter(url, init);
+  }
+}
@@ -0,0 +1,74 @@
+const DB_NAME = 'edumaster-downloader';
+const DB_VERSION = 2;
+
+export const JOBS_STORE = 'jobs';
+export const SEGMENTS_STORE = 'segments';
+export const HISTORY_STORE = 'history';
+export const LIBRARY_STORE = 'library';
+
+// Thin promise wrapper around IndexedDB shared by the persistent subsystems
+export class IndexedDb {
+  private static connection: Promise<IDBDatabase> | null = null;
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  static open(): Promise<IDBDatabase> {
+    if (!this.connection) {
+      this.connection = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(JOBS_STORE)) {
+            db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(SEGMENTS_STORE)) {
+            const segments = db.createObjectStore(SEGMENTS_STORE, { keyPath: ['jobId', 'index'] });
+            segments.createIndex('jobId', 'jobId');
+          }
+          // Added in version 2
+          if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+            db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(LIBRARY_STORE)) {
+            db.createObjectStore(LIBRARY_STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // Lets a newer version of the app in another tab upgrade the schema
+          db.onversionchange = () => {
+            db.close();
+            this.connection = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+      });
+      // Allow a later call to try again if opening failed
+      this.connection.catch(() => {
+        this.connection = null;
+      });
+    }
+    return this.connection;
+  }
+
+  static async run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      // Resolve on commit so callers know writes are durable
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+}
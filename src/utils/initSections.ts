@@ -0,0 +1,55 @@
+import { M3U8Map, M3U8Segment } from '../types';
+import { M3U8Parser } from './m3u8Parser';
+import { MediaFetcher } from './mediaFetcher';
+import { RetryPolicy } from './retryPolicy';
+import { SegmentDecryptor } from './segmentDecryptor';
+
+// Supplies the EXT-X-MAP init section at the start of each run of segments that share it
+export class InitSectionWriter {
+  private cache = new Map<string, Promise<Uint8Array>>();
+  private currentMapId: string | null = null;
+
+  constructor(private decryptor: SegmentDecryptor, private maxRetries: number) {}
+
+  // Resolves with the init section to write before this segment, or null while the map run continues
+  async before(segment: M3U8Segment, signal: AbortSignal): Promise<Uint8Array | null> {
+    if (!segment.map) {
+      this.currentMapId = null;
+      return null;
+    }
+
+    const mapId = M3U8Parser.mapId(segment.map);
+    if (mapId === this.currentMapId) {
+      return null;
+    }
+
+    const data = await this.load(segment.map, mapId, signal);
+    this.currentMapId = mapId;
+    // A copy, because a worker sink transfers the buffers it is given and the cached one is needed again
+    return data.slice();
+  }
+
+  // A handler box (hdlr) of type 'vide' after its version, flags and pre_defined fields;
+  // latin1 decodes one character per byte, so box types can be found by text search
+  static hasVideoTrack(init: Uint8Array): boolean {
+    return /hdlr[\s\S]{8}vide/.test(new TextDecoder('latin1').decode(init));
+  }
+
+  private load(map: M3U8Map, mapId: string, signal: AbortSignal): Promise<Uint8Array> {
+    let cached = this.cache.get(mapId);
+    if (!cached) {
+      cached = RetryPolicy.execute(
+        async attemptSignal => this.decryptor.decryptMap(
+          await MediaFetcher.fetchBytes(map.uri, attemptSignal, map.byteRange),
+          map,
+          attemptSignal
+        ),
+        { maxRetries: this.maxRetries, signal }
+      ).then(({ result }) => result);
+      // Drop failed loads so a later run can try again
+      cached.catch(() => this.cache.delete(mapId));
+      this.cache.set(mapId, cached);
+    }
+    return cached;
+  }
+}
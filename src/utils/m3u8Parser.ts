@@ -1,63 +1,470 @@
-import { M3U8Playlist, M3U8Segment } from '../types';
+import { M3U8ByteRange, M3U8Key, M3U8Map, M3U8MasterPlaylist, M3U8Playlist, M3U8PlaylistType, M3U8Rendition, M3U8Segment, M3U8Variant, ParseOptions } from '../types';
+import { AttributeList, HlsTagReader, PlaylistDiagnostics, PlaylistParseError } from './hlsTags';
+import { UrlResolver } from './urlResolver';
+
+// Tags that may appear at most once in a playlist
+const SINGLE_TAGS = new Set([
+  'EXTM3U', 'EXT-X-VERSION', 'EXT-X-TARGETDURATION', 'EXT-X-MEDIA-SEQUENCE', 'EXT-X-DISCONTINUITY-SEQUENCE',
+  'EXT-X-PLAYLIST-TYPE', 'EXT-X-ENDLIST', 'EXT-X-INDEPENDENT-SEGMENTS', 'EXT-X-START', 'EXT-X-I-FRAMES-ONLY'
+]);
+const MASTER_TAGS = new Set(['EXT-X-STREAM-INF', 'EXT-X-MEDIA', 'EXT-X-I-FRAME-STREAM-INF', 'EXT-X-SESSION-DATA', 'EXT-X-SESSION-KEY']);
+const MEDIA_TAGS = new Set([
+  'EXTINF', 'EXT-X-TARGETDURATION', 'EXT-X-MEDIA-SEQUENCE', 'EXT-X-DISCONTINUITY-SEQUENCE', 'EXT-X-BYTERANGE',
+  'EXT-X-DISCONTINUITY', 'EXT-X-KEY', 'EXT-X-MAP', 'EXT-X-PROGRAM-DATE-TIME', 'EXT-X-DATERANGE', 'EXT-X-GAP',
+  'EXT-X-ENDLIST', 'EXT-X-PLAYLIST-TYPE', 'EXT-X-I-FRAMES-ONLY'
+]);
+const KEY_METHODS = ['NONE', 'AES-128', 'SAMPLE-AES', 'SAMPLE-AES-CTR'];
+const YES_NO = ['YES', 'NO'];
+
+// Media segment tags seen since the last URI; they all apply to the next one
+interface PendingSegment {
+  line?: number;
+  duration?: number;
+  byteRange?: { length: number; offset?: number; line: number };
+  discontinuity?: boolean;
+  programDateTime?: string;
+  gap?: boolean;
+}
+
+// A tag or attribute that needs a minimum EXT-X-VERSION
+interface VersionRequirement {
+  line: number;
+  tag: string;
+  version: number;
+}
 
 export class M3U8Parser {
-  static parsePlaylist(content: string, baseUrl: string): M3U8Playlist {
-    const lines = content.split('\n').map(line => line.trim()).filter(line => line);
-    
-    if (!lines[0].startsWith('#EXTM3U')) {
-      throw new Error('Invalid M3U8 file format');
+  static parsePlaylist(content: string, baseUrl: string, options: ParseOptions = {}): M3U8Playlist {
+    const diagnostics = new PlaylistDiagnostics(options.mode);
+    const lines = HlsTagReader.read(content, diagnostics);
+
+    if (this.isMasterPlaylist(content)) {
+      throw new Error('Expected a media playlist but received a master playlist');
     }
 
     const segments: M3U8Segment[] = [];
-    let currentDuration = 0;
-    let targetDuration = 0;
-    let version = 1;
+    const segmentLines: number[] = [];
+    const seenTags = new Set<string>();
+    const requirements: VersionRequirement[] = [];
+    let targetDuration: number | undefined;
+    let version: number | undefined;
     let mediaSequence = 0;
+    let discontinuitySequence = 0;
+    let endList = false;
+    let independentSegments = false;
+    let playlistType: M3U8PlaylistType | undefined;
+    let currentKey: M3U8Key | undefined;
+    let currentMap: M3U8Map | undefined;
+    let pending: PendingSegment = {};
+
+    for (const entry of lines) {
+      const { line } = entry;
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      if (line.startsWith('#EXT-X-VERSION:')) {
-        version = parseInt(line.split(':')[1]);
-      } else if (line.startsWith('#EXT-X-TARGETDURATION:')) {
-        targetDuration = parseFloat(line.split(':')[1]);
-      } else if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
-        mediaSequence = parseInt(line.split(':')[1]);
-      } else if (line.startsWith('#EXTINF:')) {
-        const match = line.match(/#EXTINF:([\d.]+),?(.*)?/);
-        if (match) {
-          currentDuration = parseFloat(match[1]);
-        }
-      } else if (!line.startsWith('#') && line.length > 0) {
-        // This is a segment URL
-        const uri = this.resolveUrl(line, baseUrl);
-        segments.push({
-          duration: currentDuration,
+      if (entry.kind === 'uri') {
+        if (pending.duration === undefined) {
+          diagnostics.error(line, 'Segment URI without a preceding EXTINF', 'EXTINF');
+        }
+        const uri = UrlResolver.resolve(entry.uri, baseUrl);
+        const segment: M3U8Segment = {
+          duration: pending.duration ?? 0,
           uri,
-          title: `Segment ${segments.length + 1}`
-        });
-        currentDuration = 0;
+          title: `Segment ${segments.length + 1}`,
+          mediaSequence: mediaSequence + segments.length,
+          key: currentKey,
+          map: currentMap
+        };
+        if (pending.byteRange) {
+          segment.byteRange = this.segmentByteRange(pending.byteRange, uri, segments[segments.length - 1], diagnostics);
+        }
+        if (pending.discontinuity) {
+          segment.discontinuity = true;
+        }
+        if (pending.programDateTime) {
+          segment.programDateTime = pending.programDateTime;
+        }
+        if (pending.gap) {
+          segment.gap = true;
+        }
+        segments.push(segment);
+        segmentLines.push(pending.line ?? line);
+        pending = {};
+        continue;
+      }
+
+      const { tag } = entry;
+      if (SINGLE_TAGS.has(tag.name)) {
+        if (seenTags.has(tag.name)) {
+          diagnostics.error(line, 'Tag appears more than once', tag.name);
+        }
+        seenTags.add(tag.name);
       }
+      if (MASTER_TAGS.has(tag.name)) {
+        diagnostics.warn(line, 'Master playlist tag ignored in a media playlist', tag.name);
+        continue;
+      }
+
+      switch (tag.name) {
+        case 'EXT-X-VERSION':
+          version = tag.version;
+          break;
+        case 'EXT-X-TARGETDURATION':
+          targetDuration = tag.duration;
+          break;
+        case 'EXT-X-MEDIA-SEQUENCE':
+        case 'EXT-X-DISCONTINUITY-SEQUENCE':
+          if (segments.length > 0) {
+            diagnostics.error(line, 'Tag must appear before the first media segment', tag.name);
+          }
+          if (tag.name === 'EXT-X-MEDIA-SEQUENCE') {
+            mediaSequence = tag.sequence;
+          } else {
+            discontinuitySequence = tag.sequence;
+          }
+          break;
+        case 'EXT-X-PLAYLIST-TYPE':
+          playlistType = tag.playlistType;
+          break;
+        case 'EXT-X-ENDLIST':
+          endList = true;
+          break;
+        case 'EXT-X-INDEPENDENT-SEGMENTS':
+          independentSegments = true;
+          break;
+        case 'EXTINF':
+          if (pending.duration !== undefined) {
+            diagnostics.error(pending.line!, 'EXTINF is not followed by a segment URI', 'EXTINF');
+          }
+          pending.duration = tag.duration;
+          pending.line = line;
+          if (!tag.integer) {
+            requirements.push({ line, tag: tag.name, version: 3 });
+          }
+          break;
+        case 'EXT-X-BYTERANGE':
+          pending.byteRange = { length: tag.length, offset: tag.offset, line };
+          requirements.push({ line, tag: tag.name, version: 4 });
+          break;
+        case 'EXT-X-DISCONTINUITY':
+          pending.discontinuity = true;
+          break;
+        case 'EXT-X-PROGRAM-DATE-TIME':
+          pending.programDateTime = tag.dateTime;
+          break;
+        case 'EXT-X-GAP':
+          pending.gap = true;
+          break;
+        case 'EXT-X-KEY':
+          // Keys apply to every following segment until the next EXT-X-KEY (key rotation)
+          currentKey = this.parseKey(tag.attributes, baseUrl, line, requirements);
+          break;
+        case 'EXT-X-MAP':
+          // Applies to every following segment until the next EXT-X-MAP
+          currentMap = this.parseMap(tag.attributes, baseUrl, currentKey) ?? currentMap;
+          requirements.push({ line, tag: tag.name, version: seenTags.has('EXT-X-I-FRAMES-ONLY') ? 5 : 6 });
+          break;
+      }
+    }
+
+    if (pending.duration !== undefined) {
+      diagnostics.error(pending.line!, 'EXTINF is not followed by a segment URI', 'EXTINF');
     }
 
+    if (targetDuration === undefined) {
+      diagnostics.error(1, 'Missing required tag', 'EXT-X-TARGETDURATION');
+      targetDuration = Math.ceil(segments.reduce((longest, segment) => Math.max(longest, segment.duration), 0));
+    }
+    segments.forEach((segment, index) => {
+      if (Math.round(segment.duration) > targetDuration!) {
+        diagnostics.error(segmentLines[index], `Segment duration ${segment.duration}s exceeds the target duration of ${targetDuration}s`, 'EXTINF');
+      }
+    });
+    this.checkVersion(version ?? 1, requirements, diagnostics);
+
     const totalDuration = segments.reduce((sum, segment) => sum + segment.duration, 0);
 
     return {
       segments,
       totalDuration,
       targetDuration,
-      version,
-      mediaSequence
+      version: version ?? 1,
+      mediaSequence,
+      endList,
+      playlistType,
+      discontinuitySequence,
+      independentSegments,
+      diagnostics: diagnostics.finish(),
+      url: baseUrl
+    };
+  }
+
+  static isFragmentedMp4(playlist: M3U8Playlist): boolean {
+    return playlist.segments.some(segment => segment.map);
+  }
+
+  // Identifies a map run: consecutive segments sharing one initialization section
+  static mapId(map: M3U8Map): string {
+    return map.byteRange ? `${map.uri}@${map.byteRange.offset}+${map.byteRange.length}` : map.uri;
+  }
+
+  // Without ENDLIST the server may still append segments (live or EVENT playlists)
+  static isLive(playlist: M3U8Playlist): boolean {
+    return playlist.endList === false && playlist.playlistType !== 'VOD';
+  }
+
+  static isMasterPlaylist(content: string): boolean {
+    return /^#EXT-X-STREAM-INF:/m.test(content);
+  }
+
+  static parseMasterPlaylist(content: string, baseUrl: string, options: ParseOptions = {}): M3U8MasterPlaylist {
+    const diagnostics = new PlaylistDiagnostics(options.mode);
+    const lines = HlsTagReader.read(content, diagnostics);
+
+    const variants: M3U8Variant[] = [];
+    const variantLines: number[] = [];
+    const renditions: M3U8Rendition[] = [];
+    const seenTags = new Set<string>();
+    let version: number | undefined;
+    let independentSegments = false;
+    let pending: { attributes: AttributeList; line: number } | null = null;
+
+    for (const entry of lines) {
+      const { line } = entry;
+
+      if (entry.kind === 'uri') {
+        if (!pending) {
+          diagnostics.error(line, 'URI without a preceding EXT-X-STREAM-INF', 'EXT-X-STREAM-INF');
+          continue;
+        }
+        // The URI line that follows EXT-X-STREAM-INF belongs to that variant
+        variants.push(this.createVariant(pending.attributes, UrlResolver.resolve(entry.uri, baseUrl)));
+        variantLines.push(pending.line);
+        pending = null;
+        continue;
+      }
+
+      const { tag } = entry;
+      if (SINGLE_TAGS.has(tag.name)) {
+        if (seenTags.has(tag.name)) {
+          diagnostics.error(line, 'Tag appears more than once', tag.name);
+        }
+        seenTags.add(tag.name);
+      }
+      if (MEDIA_TAGS.has(tag.name)) {
+        diagnostics.error(line, 'Media segment tag in a master playlist', tag.name);
+        continue;
+      }
+
+      switch (tag.name) {
+        case 'EXT-X-VERSION':
+          version = tag.version;
+          break;
+        case 'EXT-X-INDEPENDENT-SEGMENTS':
+          independentSegments = true;
+          break;
+        case 'EXT-X-STREAM-INF':
+          if (pending) {
+            diagnostics.error(pending.line, 'EXT-X-STREAM-INF is not followed by a URI', tag.name);
+          }
+          pending = { attributes: tag.attributes, line };
+          break;
+        case 'EXT-X-MEDIA': {
+          const rendition = this.createRendition(tag.attributes, baseUrl, line, diagnostics);
+          if (rendition) {
+            renditions.push(rendition);
+          }
+          break;
+        }
+      }
+    }
+
+    if (pending) {
+      diagnostics.error(pending.line, 'EXT-X-STREAM-INF is not followed by a URI', 'EXT-X-STREAM-INF');
+    }
+
+    if (variants.length === 0) {
+      diagnostics.error(1, 'No variant streams found', 'EXT-X-STREAM-INF');
+      throw new PlaylistParseError('Invalid M3U8 master playlist: no variant streams found', diagnostics.list);
+    }
+
+    // Every group a variant names must be declared with EXT-X-MEDIA
+    variants.forEach((variant, index) => {
+      for (const [type, groupId] of [['AUDIO', variant.audioGroupId], ['SUBTITLES', variant.subtitleGroupId]] as const) {
+        if (groupId && !renditions.some(rendition => rendition.type === type && rendition.groupId === groupId)) {
+          diagnostics.error(variantLines[index], `${type} group "${groupId}" has no EXT-X-MEDIA renditions`, 'EXT-X-STREAM-INF');
+        }
+      }
+    });
+
+    return {
+      variants,
+      renditions,
+      version: version ?? 1,
+      independentSegments,
+      diagnostics: diagnostics.finish(),
+      url: baseUrl
+    };
+  }
+
+  private static parseKey(attributes: AttributeList, baseUrl: string, line: number, requirements: VersionRequirement[]): M3U8Key | undefined {
+    const method = attributes.enumerated('METHOD', KEY_METHODS, true) ?? 'NONE';
+    const uri = attributes.quotedString('URI', method !== 'NONE');
+    const iv = attributes.hexadecimal('IV');
+    const keyFormat = attributes.quotedString('KEYFORMAT');
+    attributes.quotedString('KEYFORMATVERSIONS');
+
+    if (iv && iv.length !== 34) {
+      attributes.diagnostics.error(line, 'IV must be a 128-bit hexadecimal value', 'EXT-X-KEY');
+    }
+    if (iv) {
+      requirements.push({ line, tag: 'EXT-X-KEY', version: 2 });
+    }
+    if (keyFormat) {
+      requirements.push({ line, tag: 'EXT-X-KEY', version: 5 });
+    }
+    if (method === 'NONE') {
+      return undefined;
+    }
+
+    const key: M3U8Key = { method };
+    if (uri) {
+      key.uri = UrlResolver.resolve(uri, baseUrl);
+    }
+    if (iv) {
+      key.iv = iv;
+    }
+    if (keyFormat) {
+      key.keyFormat = keyFormat;
+    }
+    return key;
+  }
+
+  // Returns null when the tag is unusable so the previous map stays in effect
+  private static parseMap(attributes: AttributeList, baseUrl: string, key?: M3U8Key): M3U8Map | null {
+    const uri = attributes.quotedString('URI', true);
+    if (!uri) {
+      return null;
+    }
+
+    const map: M3U8Map = { uri: UrlResolver.resolve(uri, baseUrl) };
+    const byteRange = attributes.quotedString('BYTERANGE');
+    if (byteRange) {
+      const range = HlsTagReader.byteRange(byteRange, attributes.line, 'EXT-X-MAP', attributes.diagnostics);
+      if (range) {
+        map.byteRange = HlsTagReader.withOffset(range, 0);
+      }
+    }
+    // An init section is encrypted by the EXT-X-KEY in effect where the map is declared
+    if (key) {
+      map.key = key;
+    }
+    return map;
+  }
+
+  // Without an offset the range continues right after the previous segment's range of the same resource
+  private static segmentByteRange(
+    range: { length: number; offset?: number; line: number },
+    uri: string,
+    previous: M3U8Segment | undefined,
+    diagnostics: PlaylistDiagnostics
+  ): M3U8ByteRange {
+    const previousRange = previous?.uri === uri ? previous.byteRange : undefined;
+    if (range.offset === undefined && !previousRange) {
+      // Guessing an offset would splice the wrong bytes into the output
+      diagnostics.fatal(range.line, `Byte range has no offset and no previous range of ${uri}`, 'EXT-X-BYTERANGE');
+    }
+    return HlsTagReader.withOffset(range, previousRange ? previousRange.offset + previousRange.length : 0);
+  }
+
+  private static checkVersion(version: number, requirements: VersionRequirement[], diagnostics: PlaylistDiagnostics): void {
+    const reported = new Set<string>();
+    for (const requirement of requirements) {
+      // One warning per tag is enough; every later use has the same cause
+      if (requirement.version > version && !reported.has(requirement.tag)) {
+        reported.add(requirement.tag);
+        diagnostics.warn(requirement.line, `Needs EXT-X-VERSION ${requirement.version} or later, playlist declares ${version}`, requirement.tag);
+      }
+    }
+  }
+
+  private static createVariant(attributes: AttributeList, uri: string): M3U8Variant {
+    const variant: M3U8Variant = {
+      uri,
+      bandwidth: attributes.integer('BANDWIDTH', true) ?? 0
     };
+
+    const averageBandwidth = attributes.integer('AVERAGE-BANDWIDTH');
+    if (averageBandwidth !== undefined) {
+      variant.averageBandwidth = averageBandwidth;
+    }
+    const resolution = attributes.resolution('RESOLUTION');
+    if (resolution && resolution.width && resolution.height) {
+      variant.resolution = resolution;
+    }
+    const codecs = attributes.quotedString('CODECS');
+    if (codecs) {
+      variant.codecs = codecs;
+    }
+    const frameRate = attributes.decimal('FRAME-RATE');
+    if (frameRate !== undefined) {
+      variant.frameRate = frameRate;
+    }
+    const audioGroupId = attributes.quotedString('AUDIO');
+    if (audioGroupId) {
+      variant.audioGroupId = audioGroupId;
+    }
+    const subtitleGroupId = attributes.quotedString('SUBTITLES');
+    if (subtitleGroupId) {
+      variant.subtitleGroupId = subtitleGroupId;
+    }
+
+    return variant;
   }
 
-  private static resolveUrl(url: string, baseUrl: string): string {
-    if (url.startsWith('http://') || url.startsWith('https://')) {
-      return url;
+  // Only audio and subtitle renditions are kept; video angles and closed captions are not downloadable
+  private static createRendition(attributes: AttributeList, baseUrl: string, line: number, diagnostics: PlaylistDiagnostics): M3U8Rendition | null {
+    const type = attributes.enumerated('TYPE', ['AUDIO', 'VIDEO', 'SUBTITLES', 'CLOSED-CAPTIONS'], true);
+    const groupId = attributes.quotedString('GROUP-ID', true);
+    const name = attributes.quotedString('NAME', true);
+    const uri = attributes.quotedString('URI', type === 'SUBTITLES');
+    const isDefault = attributes.enumerated('DEFAULT', YES_NO) === 'YES';
+    const autoSelect = attributes.enumerated('AUTOSELECT', YES_NO);
+    const forced = attributes.enumerated('FORCED', YES_NO);
+
+    if (isDefault && autoSelect === 'NO') {
+      diagnostics.error(line, 'AUTOSELECT must be YES when DEFAULT is YES', 'EXT-X-MEDIA');
+    }
+    if (forced !== undefined && type !== 'SUBTITLES') {
+      diagnostics.error(line, 'FORCED is only allowed for subtitles', 'EXT-X-MEDIA');
+    }
+    if (uri !== undefined && type === 'CLOSED-CAPTIONS') {
+      diagnostics.error(line, 'Closed captions must not have a URI', 'EXT-X-MEDIA');
     }
-    
-    // Remove filename from baseUrl to get directory
-    const baseDir = baseUrl.substring(0, baseUrl.lastIndexOf('/') + 1);
-    return baseDir + url;
+
+    if ((type !== 'AUDIO' && type !== 'SUBTITLES') || !groupId || !name) {
+      return null;
+    }
+
+    const rendition: M3U8Rendition = {
+      type,
+      groupId,
+      name,
+      isDefault,
+      autoSelect: autoSelect === 'YES',
+      forced: forced === 'YES'
+    };
+
+    const language = attributes.quotedString('LANGUAGE');
+    if (language) {
+      rendition.language = language;
+    }
+    if (uri) {
+      rendition.uri = UrlResolver.resolve(uri, baseUrl);
+    }
+    const channels = attributes.quotedString('CHANNELS');
+    if (channels) {
+      rendition.channels = channels;
+    }
+
+    return rendition;
   }
 }
@@ -0,0 +1,158 @@
+import { M3U8Key, M3U8Map, M3U8Playlist, M3U8Rendition, M3U8Resolution } from '../types';
+
+// One variant of a written master playlist, with the renditions it plays with
+export interface MasterStream {
+  uri: string;
+  // Peak and average segment bitrate in bits per second
+  bandwidth: number;
+  averageBandwidth?: number;
+  resolution?: M3U8Resolution;
+  codecs?: string;
+  frameRate?: number;
+  audio?: { rendition: M3U8Rendition; uri: string };
+  subtitles: { rendition: M3U8Rendition; uri: string }[];
+}
+
+// Serializes playlists back to M3U8 text; URIs are written exactly as given
+export class M3U8Writer {
+  // Always ends with EXT-X-ENDLIST, since only finished playlists are written
+  static writeMedia(playlist: M3U8Playlist): string {
+    const lines = [
+      '#EXTM3U',
+      `#EXT-X-VERSION:${playlist.version}`,
+      `#EXT-X-TARGETDURATION:${Math.ceil(playlist.targetDuration)}`,
+      `#EXT-X-MEDIA-SEQUENCE:${playlist.mediaSequence}`
+    ];
+    if (playlist.discontinuitySequence) {
+      lines.push(`#EXT-X-DISCONTINUITY-SEQUENCE:${playlist.discontinuitySequence}`);
+    }
+    lines.push(`#EXT-X-PLAYLIST-TYPE:${playlist.playlistType ?? 'VOD'}`);
+    if (playlist.independentSegments) {
+      lines.push('#EXT-X-INDEPENDENT-SEGMENTS');
+    }
+
+    let key: M3U8Key | undefined;
+    let map: M3U8Map | undefined;
+    for (const segment of playlist.segments) {
+      if (segment.discontinuity) {
+        lines.push('#EXT-X-DISCONTINUITY');
+      }
+      if (!this.sameKey(segment.key, key)) {
+        lines.push(this.keyTag(segment.key));
+        key = segment.key;
+      }
+      if (segment.map && !this.sameMap(segment.map, map)) {
+        lines.push(this.mapTag(segment.map));
+        map = segment.map;
+      }
+      if (segment.programDateTime) {
+        lines.push(`#EXT-X-PROGRAM-DATE-TIME:${segment.programDateTime}`);
+      }
+      if (segment.gap) {
+        lines.push('#EXT-X-GAP');
+      }
+      if (segment.byteRange) {
+        lines.push(`#EXT-X-BYTERANGE:${segment.byteRange.length}@${segment.byteRange.offset}`);
+      }
+      // The parser labels segments itself, so EXTINF titles are not carried over
+      lines.push(`#EXTINF:${this.decimal(segment.duration)},`);
+      lines.push(segment.uri);
+    }
+
+    lines.push('#EXT-X-ENDLIST');
+    return lines.join('\n') + '\n';
+  }
+
+  static writeMaster(stream: MasterStream): string {
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:4'];
+    if (stream.audio) {
+      lines.push(this.mediaTag(stream.audio.rendition, stream.audio.uri));
+    }
+    stream.subtitles.forEach(({ rendition, uri }) => lines.push(this.mediaTag(rendition, uri)));
+
+    const attributes = [`BANDWIDTH=${Math.round(stream.bandwidth)}`];
+    if (stream.averageBandwidth) {
+      attributes.push(`AVERAGE-BANDWIDTH=${Math.round(stream.averageBandwidth)}`);
+    }
+    if (stream.codecs) {
+      attributes.push(`CODECS=${this.quoted(stream.codecs)}`);
+    }
+    if (stream.resolution) {
+      attributes.push(`RESOLUTION=${stream.resolution.width}x${stream.resolution.height}`);
+    }
+    if (stream.frameRate) {
+      attributes.push(`FRAME-RATE=${stream.frameRate.toFixed(3)}`);
+    }
+    if (stream.audio) {
+      attributes.push(`AUDIO=${this.quoted(stream.audio.rendition.groupId)}`);
+    }
+    if (stream.subtitles.length > 0) {
+      attributes.push(`SUBTITLES=${this.quoted(stream.subtitles[0].rendition.groupId)}`);
+    }
+    lines.push(`#EXT-X-STREAM-INF:${attributes.join(',')}`, stream.uri);
+    return lines.join('\n') + '\n';
+  }
+
+  private static mediaTag(rendition: M3U8Rendition, uri: string): string {
+    const attributes = [
+      `TYPE=${rendition.type}`,
+      `GROUP-ID=${this.quoted(rendition.groupId)}`,
+      `NAME=${this.quoted(rendition.name)}`
+    ];
+    if (rendition.language) {
+      attributes.push(`LANGUAGE=${this.quoted(rendition.language)}`);
+    }
+    attributes.push(`DEFAULT=${rendition.isDefault ? 'YES' : 'NO'}`, `AUTOSELECT=${rendition.autoSelect ? 'YES' : 'NO'}`);
+    if (rendition.type === 'SUBTITLES' && rendition.forced) {
+      attributes.push('FORCED=YES');
+    }
+    if (rendition.channels) {
+      attributes.push(`CHANNELS=${this.quoted(rendition.channels)}`);
+    }
+    attributes.push(`URI=${this.quoted(uri)}`);
+    return `#EXT-X-MEDIA:${attributes.join(',')}`;
+  }
+
+  private static keyTag(key?: M3U8Key): string {
+    if (!key) {
+      return '#EXT-X-KEY:METHOD=NONE';
+    }
+    const attributes = [`METHOD=${key.method}`];
+    if (key.uri) {
+      attributes.push(`URI=${this.quoted(key.uri)}`);
+    }
+    if (key.iv) {
+      attributes.push(`IV=${key.iv}`);
+    }
+    if (key.keyFormat) {
+      attributes.push(`KEYFORMAT=${this.quoted(key.keyFormat)}`);
+    }
+    return `#EXT-X-KEY:${attributes.join(',')}`;
+  }
+
+  private static mapTag(map: M3U8Map): string {
+    const attributes = [`URI=${this.quoted(map.uri)}`];
+    if (map.byteRange) {
+      attributes.push(`BYTERANGE=${this.quoted(`${map.byteRange.length}@${map.byteRange.offset}`)}`);
+    }
+    return `#EXT-X-MAP:${attributes.join(',')}`;
+  }
+
+  private static sameKey(a?: M3U8Key, b?: M3U8Key): boolean {
+    return a?.method === b?.method && a?.uri === b?.uri && a?.iv === b?.iv && a?.keyFormat === b?.keyFormat;
+  }
+
+  private static sameMap(a: M3U8Map, b?: M3U8Map): boolean {
+    return a.uri === b?.uri && a.byteRange?.offset === b?.byteRange?.offset && a.byteRange?.length === b?.byteRange?.length;
+  }
+
+  // Quoted strings cannot contain double quotes or line breaks
+  private static quoted(value: string): string {
+    return `"${value.replace(/["\r\n]/g, '')}"`;
+  }
+
+  // Up to millisecond precision without trailing zeros
+  private static decimal(value: number): string {
+    return String(Math.round(value * 1000) / 1000);
+  }
+}
@@ -0,0 +1,77 @@
+import { M3U8ByteRange } from '../types';
+import { HttpClient } from './httpClient';
+import { SegmentFetchError, SegmentValidationError } from './retryPolicy';
+import { SegmentValidator } from './segmentValidator';
+
+export class MediaFetcher {
+  // Fetches a segment or init section, optionally only the given byte range of the resource
+  static async fetchBytes(
+    url: string,
+    signal?: AbortSignal,
+    byteRange?: M3U8ByteRange,
+    onProgress?: (loaded: number, total?: number) => void
+  ): Promise<Uint8Array> {
+    const headers: Record<string, string> = {};
+    if (byteRange) {
+      headers['Range'] = `bytes=${byteRange.offset}-${byteRange.offset + byteRange.length - 1}`;
+    }
+
+    const response = await HttpClient.fetch(url, { signal, mode: 'cors', headers });
+    if (!response.ok) {
+      throw SegmentFetchError.fromResponse(response);
+    }
+
+    // A 200 means the server ignored Range and would send the whole file for every segment
+    if (byteRange && response.status !== 206) {
+      throw new SegmentFetchError(
+        `Server ignored the byte range request (HTTP ${response.status} instead of 206)`,
+        'permanent',
+        response.status
+      );
+    }
+
+    const data = onProgress && response.body
+      ? await this.readBody(response.body, Number(response.headers.get('Content-Length')) || byteRange?.length, onProgress)
+      : new Uint8Array(await response.arrayBuffer());
+    SegmentValidator.checkResponse(response, data);
+    if (byteRange && data.length !== byteRange.length) {
+      throw new SegmentValidationError(
+        `Expected ${byteRange.length} bytes from the range request but received ${data.length}`,
+        'truncated',
+        response.status
+      );
+    }
+    return data;
+  }
+
+  // Reads the body chunk by chunk so progress moves within large segments
+  private static async readBody(
+    body: ReadableStream<Uint8Array>,
+    total: number | undefined,
+    onProgress: (loaded: number, total?: number) => void
+  ): Promise<Uint8Array> {
+    const reader = body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      loaded += value.length;
+      onProgress(loaded, total);
+    }
+
+    if (chunks.length === 1) {
+      return chunks[0];
+    }
+    const data = new Uint8Array(loaded);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return data;
+  }
+}
@@ -0,0 +1,284 @@
+import { AudioTrackInfo, VideoTrackInfo } from '../types';
+
+export interface Mp4Track {
+  id: number;
+  type: 'video' | 'audio';
+  timescale: number;
+  video?: VideoTrackInfo;
+  audio?: AudioTrackInfo;
+  // Presentation start in track timescale units; written as an edit list to trim the output
+  editStart?: number;
+}
+
+export interface Mp4Sample {
+  data: Uint8Array;
+  duration: number;
+  keyframe: boolean;
+  compositionOffset: number;
+}
+
+export interface Mp4TrackFragment {
+  track: Mp4Track;
+  baseMediaDecodeTime: number;
+  samples: Mp4Sample[];
+}
+
+const MOVIE_TIMESCALE = 1000;
+
+const UNITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+// Writes fragmented ISO-BMFF: an init segment (ftyp + moov with mvex) followed by moof/mdat pairs
+export class Mp4Muxer {
+  static createInitSegment(tracks: Mp4Track[], durationSeconds?: number): Uint8Array {
+    const duration = durationSeconds ? Math.round(durationSeconds * MOVIE_TIMESCALE) : 0;
+    const brands = tracks.some(track => track.audio) && !tracks.some(track => track.video)
+      ? ['M4A ', 'isom', 'iso6', 'mp41']
+      : ['isom', 'iso6', 'avc1', 'mp41'];
+
+    const ftyp = this.box('ftyp', this.fourCC(brands[0]), this.u32(0x200), ...brands.map(brand => this.fourCC(brand)));
+    const moov = this.box(
+      'moov',
+      this.mvhd(duration, tracks.length + 1),
+      ...tracks.map(track => this.trak(track, duration)),
+      this.mvex(tracks, duration)
+    );
+
+    return this.concat([ftyp, moov]);
+  }
+
+  static createFragment(sequenceNumber: number, fragments: Mp4TrackFragment[]): Uint8Array {
+    const populated = fragments.filter(fragment => fragment.samples.length > 0);
+    if (populated.length === 0) {
+      return new Uint8Array(0);
+    }
+
+    // trun data offsets depend on the moof size, which does not depend on the offset values
+    const moofSize = this.moof(sequenceNumber, populated, 0).length;
+    const moof = this.moof(sequenceNumber, populated, moofSize + 8);
+    const mdat = this.box('mdat', ...populated.flatMap(fragment => fragment.samples.map(sample => sample.data)));
+
+    return this.concat([moof, mdat]);
+  }
+
+  private static moof(sequenceNumber: number, fragments: Mp4TrackFragment[], dataOffset: number): Uint8Array {
+    const trafs: Uint8Array[] = [];
+    let offset = dataOffset;
+
+    for (const fragment of fragments) {
+      trafs.push(this.traf(fragment, offset));
+      offset += fragment.samples.reduce((sum, sample) => sum + sample.data.length, 0);
+    }
+
+    return this.box('moof', this.fullBox('mfhd', 0, 0, this.u32(sequenceNumber)), ...trafs);
+  }
+
+  private static traf(fragment: Mp4TrackFragment, dataOffset: number): Uint8Array {
+    const { track, samples } = fragment;
+    // default-base-is-moof so data offsets are relative to the moof box
+    const tfhd = this.fullBox('tfhd', 0, 0x020000, this.u32(track.id));
+    const tfdt = this.fullBox('tfdt', 1, 0, this.u64(Math.max(0, Math.round(fragment.baseMediaDecodeTime))));
+
+    const entries = new Uint8Array(8 + samples.length * 16);
+    const view = new DataView(entries.buffer);
+    view.setUint32(0, samples.length);
+    view.setInt32(4, dataOffset);
+    samples.forEach((sample, index) => {
+      const position = 8 + index * 16;
+      view.setUint32(position, Math.max(0, Math.round(sample.duration)));
+      view.setUint32(position + 4, sample.data.length);
+      view.setUint32(position + 8, sample.keyframe ? 0x02000000 : 0x01010000);
+      view.setUint32(position + 12, Math.max(0, Math.round(sample.compositionOffset)));
+    });
+
+    // Flags: data-offset, sample duration, size, flags and composition time offset present
+    const trun = this.fullBox('trun', 0, 0x000f01, entries);
+    return this.box('traf', tfhd, tfdt, trun);
+  }
+
+  private static mvhd(duration: number, nextTrackId: number): Uint8Array {
+    return this.fullBox(
+      'mvhd', 0, 0,
+      this.u32(0), this.u32(0), this.u32(MOVIE_TIMESCALE), this.u32(duration),
+      this.u32(0x00010000), this.u16(0x0100), new Uint8Array(10),
+      ...UNITY_MATRIX.map(value => this.u32(value)),
+      new Uint8Array(24),
+      this.u32(nextTrackId)
+    );
+  }
+
+  private static trak(track: Mp4Track, duration: number): Uint8Array {
+    const width = track.video?.width ?? 0;
+    const height = track.video?.height ?? 0;
+
+    const tkhd = this.fullBox(
+      'tkhd', 0, 0x000007,
+      this.u32(0), this.u32(0), this.u32(track.id), this.u32(0), this.u32(0),
+      new Uint8Array(8), this.u16(0), this.u16(0),
+      this.u16(track.type === 'audio' ? 0x0100 : 0), this.u16(0),
+      ...UNITY_MATRIX.map(value => this.u32(value)),
+      this.u32(width * 0x10000), this.u32(height * 0x10000)
+    );
+
+    if (track.editStart === undefined) {
+      return this.box('trak', tkhd, this.mdia(track));
+    }
+
+    // A zero segment duration lets the edit run to the end of the fragmented media
+    const elst = this.fullBox(
+      'elst', 0, 0,
+      this.u32(1), this.u32(duration), this.u32(Math.max(0, Math.round(track.editStart))),
+      this.u16(1), this.u16(0)
+    );
+    return this.box('trak', tkhd, this.box('edts', elst), this.mdia(track));
+  }
+
+  private static mdia(track: Mp4Track): Uint8Array {
+    const mdhd = this.fullBox(
+      'mdhd', 0, 0,
+      this.u32(0), this.u32(0), this.u32(track.timescale), this.u32(0),
+      this.u16(0x55c4), this.u16(0) // language "und"
+    );
+
+    const isVideo = track.type === 'video';
+    const hdlr = this.fullBox(
+      'hdlr', 0, 0,
+      this.u32(0), this.fourCC(isVideo ? 'vide' : 'soun'), new Uint8Array(12),
+      this.text(isVideo ? 'VideoHandler' : 'SoundHandler')
+    );
+
+    const mediaHeader = isVideo
+      ? this.fullBox('vmhd', 0, 1, new Uint8Array(8))
+      : this.fullBox('smhd', 0, 0, new Uint8Array(4));
+    const dinf = this.box('dinf', this.fullBox('dref', 0, 0, this.u32(1), this.fullBox('url ', 0, 1)));
+    const stbl = this.box(
+      'stbl',
+      this.fullBox('stsd', 0, 0, this.u32(1), this.sampleEntry(track)),
+      this.fullBox('stts', 0, 0, this.u32(0)),
+      this.fullBox('stsc', 0, 0, this.u32(0)),
+      this.fullBox('stsz', 0, 0, this.u32(0), this.u32(0)),
+      this.fullBox('stco', 0, 0, this.u32(0))
+    );
+
+    return this.box('mdia', mdhd, hdlr, this.box('minf', mediaHeader, dinf, stbl));
+  }
+
+  private static sampleEntry(track: Mp4Track): Uint8Array {
+    if (track.video) {
+      const video = track.video;
+      const compressorName = new Uint8Array(32);
+      return this.box(
+        video.codec === 'avc' ? 'avc1' : 'hvc1',
+        new Uint8Array(6), this.u16(1), // reserved, data_reference_index
+        new Uint8Array(16),
+        this.u16(video.width), this.u16(video.height),
+        this.u32(0x00480000), this.u32(0x00480000), this.u32(0),
+        this.u16(1), compressorName, this.u16(0x0018), this.u16(0xffff),
+        this.box(video.codec === 'avc' ? 'avcC' : 'hvcC', video.decoderConfig)
+      );
+    }
+
+    const audio = track.audio!;
+    return this.box(
+      'mp4a',
+      new Uint8Array(6), this.u16(1),
+      new Uint8Array(8),
+      this.u16(audio.channelCount), this.u16(16), this.u16(0), this.u16(0),
+      this.u32(audio.sampleRate * 0x10000),
+      this.esds(track.id, audio)
+    );
+  }
+
+  // MPEG-1/2 audio is identified by its object type alone and has no decoder specific info
+  private static esds(trackId: number, audio: AudioTrackInfo): Uint8Array {
+    const objectType = audio.codec === 'mp3' ? parseInt(audio.codecString.split('.')[1], 16) : 0x40;
+    const decoderConfig = this.descriptor(
+      0x04,
+      new Uint8Array([objectType, 0x15, 0, 0, 0]), // object type, audio stream, buffer size
+      this.u32(0), this.u32(0), // max and average bitrate
+      ...(audio.decoderConfig.length > 0 ? [this.descriptor(0x05, audio.decoderConfig)] : [])
+    );
+    const slConfig = this.descriptor(0x06, new Uint8Array([0x02]));
+    const esDescriptor = this.descriptor(0x03, this.u16(trackId), new Uint8Array([0]), decoderConfig, slConfig);
+
+    return this.fullBox('esds', 0, 0, esDescriptor);
+  }
+
+  private static mvex(tracks: Mp4Track[], duration: number): Uint8Array {
+    const children: Uint8Array[] = [];
+    if (duration > 0) {
+      children.push(this.fullBox('mehd', 0, 0, this.u32(duration)));
+    }
+    for (const track of tracks) {
+      children.push(this.fullBox('trex', 0, 0, this.u32(track.id), this.u32(1), this.u32(0), this.u32(0), this.u32(0)));
+    }
+    return this.box('mvex', ...children);
+  }
+
+  private static descriptor(tag: number, ...payloads: Uint8Array[]): Uint8Array {
+    const body = this.concat(payloads);
+    // Fixed 4-byte expandable length keeps the writer simple
+    const header = new Uint8Array([
+      tag,
+      0x80 | ((body.length >> 21) & 0x7f),
+      0x80 | ((body.length >> 14) & 0x7f),
+      0x80 | ((body.length >> 7) & 0x7f),
+      body.length & 0x7f
+    ]);
+    return this.concat([header, body]);
+  }
+
+  static box(type: string, ...payloads: Uint8Array[]): Uint8Array {
+    const size = 8 + payloads.reduce((sum, payload) => sum + payload.length, 0);
+    const output = new Uint8Array(size);
+    new DataView(output.buffer).setUint32(0, size);
+    output.set(this.fourCC(type), 4);
+
+    let offset = 8;
+    for (const payload of payloads) {
+      output.set(payload, offset);
+      offset += payload.length;
+    }
+    return output;
+  }
+
+  static fullBox(type: string, version: number, flags: number, ...payloads: Uint8Array[]): Uint8Array {
+    const header = new Uint8Array([version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff]);
+    return this.box(type, header, ...payloads);
+  }
+
+  private static fourCC(value: string): Uint8Array {
+    return new Uint8Array([...value].map(char => char.charCodeAt(0)));
+  }
+
+  private static text(value: string): Uint8Array {
+    return new Uint8Array([...new TextEncoder().encode(value), 0]);
+  }
+
+  private static u16(value: number): Uint8Array {
+    return new Uint8Array([(value >> 8) & 0xff, value & 0xff]);
+  }
+
+  private static u32(value: number): Uint8Array {
+    const output = new Uint8Array(4);
+    new DataView(output.buffer).setUint32(0, value >>> 0);
+    return output;
+  }
+
+  private static u64(value: number): Uint8Array {
+    const output = new Uint8Array(8);
+    const view = new DataView(output.buffer);
+    view.setUint32(0, Math.floor(value / 0x100000000));
+    view.setUint32(4, value % 0x100000000);
+    return output;
+  }
+
+  static concat(chunks: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      output.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return output;
+  }
+}
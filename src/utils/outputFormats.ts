@@ -0,0 +1,36 @@
+import { DownloadOptions, M3U8Playlist, OutputFormat, SubtitleFormat } from '../types';
+
+interface OutputFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  mp4: { label: 'MP4', extension: 'mp4', mimeType: 'video/mp4' },
+  ts: { label: 'MPEG-TS', extension: 'ts', mimeType: 'video/mp2t' },
+  hls: { label: 'HLS package', extension: 'zip', mimeType: 'application/zip' },
+  m4a: { label: 'M4A audio', extension: 'm4a', mimeType: 'audio/mp4' },
+  aac: { label: 'AAC audio', extension: 'aac', mimeType: 'audio/aac' }
+};
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = 'mp4';
+
+export const SUBTITLE_FORMATS: Record<SubtitleFormat, OutputFormatInfo> = {
+  vtt: { label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  srt: { label: 'SubRip', extension: 'srt', mimeType: 'application/x-subrip' }
+};
+
+export const DEFAULT_SUBTITLE_FORMAT: SubtitleFormat = 'vtt';
+
+export const isAudioFormat = (format?: OutputFormat): boolean => format === 'm4a' || format === 'aac';
+
+// fMP4 segments are already MP4 fragments, so they are merged as MP4 (or M4A when only the audio is kept)
+// unless packaged as they are
+export const resolveOutputFormat = (playlist: M3U8Playlist | null, options: DownloadOptions): OutputFormat => {
+  const format = options.outputFormat ?? DEFAULT_OUTPUT_FORMAT;
+  if (format === 'hls' || !playlist?.segments.some(segment => segment.map)) {
+    return format;
+  }
+  return isAudioFormat(format) ? 'm4a' : 'mp4';
+};
@@ -0,0 +1,231 @@
+import { OutputSink, OutputSinkKind } from '../types';
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: { description?: string; accept: Record<string, string[]> }[];
+}
+
+type PickerWindow = Window & {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+};
+
+const STREAM_WORKER_URL = '/download-sw.js';
+const STREAM_PATH_PREFIX = '/__edumaster-stream/';
+
+// Chunks are folded into a Blob every so often so the browser may page them out of the JS heap
+const BLOB_PART_BYTES = 32 * 1024 * 1024;
+
+// Writes straight to a file the user picked; nothing but the current chunk is held in memory
+export class FileSystemSink implements OutputSink {
+  readonly kind: OutputSinkKind = 'file-system';
+
+  constructor(private writable: FileSystemWritableFileStream) {}
+
+  async write(chunk: Uint8Array): Promise<void> {
+    await this.writable.write(chunk);
+  }
+
+  async close(): Promise<Blob | null> {
+    await this.writable.close();
+    return null;
+  }
+
+  async abort(): Promise<void> {
+    await this.writable.abort().catch(error => console.warn('Failed to abort file write:', error));
+  }
+}
+
+// Streams chunks through a service worker that answers a download navigation with a ReadableStream
+export class ServiceWorkerSink implements OutputSink {
+  readonly kind: OutputSinkKind = 'service-worker';
+  private port: MessagePort | null = null;
+  private pullWaiter: (() => void) | null = null;
+  private pullRequested = false;
+  private cancelled: Error | null = null;
+  private frame: HTMLIFrameElement | null = null;
+
+  constructor(
+    private worker: ServiceWorker,
+    private fileName: string,
+    private mimeType: string
+  ) {}
+
+  async write(chunk: Uint8Array): Promise<void> {
+    const port = this.open();
+    await this.waitForPull();
+    // Copy so the transferred buffer never aliases memory the caller still uses
+    const copy = chunk.slice();
+    port.postMessage({ type: 'chunk', chunk: copy }, [copy.buffer]);
+  }
+
+  async close(): Promise<Blob | null> {
+    this.open().postMessage({ type: 'close' });
+    this.cleanup();
+    return null;
+  }
+
+  async abort(): Promise<void> {
+    this.port?.postMessage({ type: 'abort' });
+    this.cleanup();
+  }
+
+  // The download only starts with the first chunk so the browser does not show an idle transfer
+  private open(): MessagePort {
+    if (this.port) {
+      return this.port;
+    }
+
+    const channel = new MessageChannel();
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const path = `${STREAM_PATH_PREFIX}${id}/${encodeURIComponent(this.fileName)}`;
+
+    channel.port1.onmessage = event => {
+      if (event.data?.type === 'pull') {
+        this.pullRequested = true;
+        this.pullWaiter?.();
+      } else if (event.data?.type === 'cancel') {
+        this.cancelled = new Error('Download cancelled');
+        this.pullWaiter?.();
+      }
+    };
+
+    this.worker.postMessage(
+      { type: 'stream', path, fileName: this.fileName, mimeType: this.mimeType, port: channel.port2 },
+      [channel.port2]
+    );
+
+    this.frame = document.createElement('iframe');
+    this.frame.hidden = true;
+    this.frame.src = path;
+    document.body.appendChild(this.frame);
+
+    this.port = channel.port1;
+    return this.port;
+  }
+
+  // The worker asks for the next chunk when the browser has drained the previous one
+  private waitForPull(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        this.pullWaiter = null;
+        if (this.cancelled) {
+          reject(this.cancelled);
+          return;
+        }
+        this.pullRequested = false;
+        resolve();
+      };
+
+      if (this.pullRequested || this.cancelled) {
+        settle();
+      } else {
+        this.pullWaiter = settle;
+      }
+    });
+  }
+
+  private cleanup(): void {
+    const frame = this.frame;
+    // Leave the frame alive briefly so the browser has picked up the download response
+    setTimeout(() => frame?.remove(), 60000);
+    this.frame = null;
+  }
+}
+
+// Fallback: keeps the output in Blob parts and hands back a single Blob to save
+export class BlobSink implements OutputSink {
+  readonly kind: OutputSinkKind = 'blob';
+  private parts: Blob[] = [];
+  private pending: Uint8Array[] = [];
+  private pendingBytes = 0;
+
+  constructor(private mimeType: string) {}
+
+  async write(chunk: Uint8Array): Promise<void> {
+    this.pending.push(chunk);
+    this.pendingBytes += chunk.length;
+    if (this.pendingBytes >= BLOB_PART_BYTES) {
+      this.foldPending();
+    }
+  }
+
+  async close(): Promise<Blob | null> {
+    this.foldPending();
+    const blob = new Blob(this.parts, { type: this.mimeType });
+    this.parts = [];
+    return blob;
+  }
+
+  async abort(): Promise<void> {
+    this.parts = [];
+    this.pending = [];
+    this.pendingBytes = 0;
+  }
+
+  private foldPending(): void {
+    if (this.pending.length === 0) {
+      return;
+    }
+    this.parts.push(new Blob(this.pending));
+    this.pending = [];
+    this.pendingBytes = 0;
+  }
+}
+
+export class OutputSinkFactory {
+  static supportsFileSystem(): boolean {
+    return typeof (window as PickerWindow).showSaveFilePicker === 'function';
+  }
+
+  static supportsServiceWorker(): boolean {
+    return typeof navigator !== 'undefined' && 'serviceWorker' in navigator && window.isSecureContext;
+  }
+
+  /**
+   * Picks the best available sink. The save picker needs a user gesture, so pass
+   * interactive only when called straight from a click handler.
+   */
+  static async create(fileName: string, mimeType: string, extension: string, interactive: boolean): Promise<OutputSink> {
+    if (interactive && this.supportsFileSystem()) {
+      try {
+        const handle = await (window as PickerWindow).showSaveFilePicker!({
+          suggestedName: fileName,
+          types: [{ description: 'Video', accept: { [mimeType]: [`.${extension}`] } }]
+        });
+        return new FileSystemSink(await handle.createWritable());
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          throw new Error('Download cancelled');
+        }
+        console.warn('Save picker unavailable, falling back:', error);
+      }
+    }
+
+    if (this.supportsServiceWorker()) {
+      try {
+        const worker = await this.getStreamWorker();
+        return new ServiceWorkerSink(worker, fileName, mimeType);
+      } catch (error) {
+        console.warn('Streaming service worker unavailable, falling back to in-memory Blob:', error);
+      }
+    }
+
+    return new BlobSink(mimeType);
+  }
+
+  private static async getStreamWorker(): Promise<ServiceWorker> {
+    const registration = await navigator.serviceWorker.register(STREAM_WORKER_URL);
+    const worker = registration.active ?? await new Promise<ServiceWorker>((resolve, reject) => {
+      const installing = registration.installing ?? registration.waiting;
+      if (!installing) {
+        reject(new Error('Service worker did not install'));
+        return;
+      }
+      installing.addEventListener('statechange', () => {
+        if (installing.state === 'activated') resolve(installing);
+        if (installing.state === 'redundant') reject(new Error('Service worker became redundant'));
+      });
+    });
+    return worker;
+  }
+}
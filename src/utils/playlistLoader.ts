@@ -0,0 +1,98 @@
+import { DownloadOptions, LoadedPlaylist, M3U8MasterPlaylist, M3U8Rendition, M3U8Variant, MediaPlaylistSelection, ParseOptions, QualityPreference, RelayConfig } from '../types';
+import { HttpClient } from './httpClient';
+import { M3U8Parser } from './m3u8Parser';
+import { isAudioFormat } from './outputFormats';
+import { RelayClient } from './relayClient';
+import { RenditionSelector } from './renditionSelector';
+import { UrlResolver } from './urlResolver';
+import { VariantSelector } from './variantSelector';
+
+export class PlaylistLoader {
+  // Relative URIs resolve against the returned url, which follows any redirect
+  static async load(url: string, relay?: RelayConfig): Promise<LoadedPlaylist> {
+    // Enhanced fetch with better headers and error handling
+    const response = await HttpClient.fetch(RelayClient.wrap(url, relay), {
+      mode: 'cors',
+      method: 'GET',
+      headers: {
+        'Accept': 'application/x-mpegURL, application/vnd.apple.mpegurl, application/octet-stream, text/plain, */*',
+        'User-Agent': 'EduMaster-VideoDownloader/1.0',
+        'Cache-Control': 'no-cache',
+        'Pragma': 'no-cache'
+      },
+      cache: 'no-cache',
+      credentials: 'omit'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const content = await response.text();
+
+    if (!content || content.trim().length === 0) {
+      throw new Error('Received empty response from M3U8 URL');
+    }
+
+    return { url: RelayClient.finalUrl(response, url, relay), content };
+  }
+
+  // Resolves a master playlist to one variant; variants whose audio lives in a separate rendition get that group's default track
+  static async loadMedia(
+    url: string,
+    options: DownloadOptions,
+    preference: QualityPreference,
+    quality?: string | null,
+    parseOptions: ParseOptions = {}
+  ): Promise<MediaPlaylistSelection> {
+    const loaded = await this.load(url, options.relay);
+    if (!M3U8Parser.isMasterPlaylist(loaded.content)) {
+      return { playlist: M3U8Parser.parsePlaylist(loaded.content, loaded.url, parseOptions) };
+    }
+    const master = M3U8Parser.parseMasterPlaylist(loaded.content, loaded.url, parseOptions);
+    const variant = VariantSelector.select(master.variants, preference, quality);
+    const audioRendition = RenditionSelector.defaultAudio(RenditionSelector.forVariant(master, variant, 'AUDIO'));
+    if (isAudioFormat(options.outputFormat)) {
+      const audio = await this.loadAudioOnly(master, variant, audioRendition ?? undefined, options, preference, parseOptions);
+      if (audio) {
+        return audio;
+      }
+    }
+    const variantUrl = UrlResolver.forwardQueryParams(variant.uri, loaded.url, options.forwardQueryParams);
+    const media = await this.load(variantUrl, options.relay);
+    return {
+      playlist: M3U8Parser.parsePlaylist(media.content, media.url, parseOptions),
+      master,
+      variant,
+      audioRendition: audioRendition ?? undefined
+    };
+  }
+
+  // Audio-only output fetches the variant's audio rendition, or else an audio-only variant, instead of the video;
+  // null when the master offers neither and the audio has to come out of the video segments
+  static async loadAudioOnly(
+    master: M3U8MasterPlaylist,
+    variant: M3U8Variant | null,
+    audioRendition: M3U8Rendition | undefined,
+    options: DownloadOptions,
+    preference: QualityPreference = 'highest',
+    parseOptions: ParseOptions = {}
+  ): Promise<MediaPlaylistSelection | null> {
+    if (variant && VariantSelector.isAudioOnly(variant)) {
+      return null;
+    }
+    const audioVariant = audioRendition?.uri ? null : VariantSelector.selectAudioOnly(master.variants, preference);
+    const uri = audioRendition?.uri ?? audioVariant?.uri;
+    if (!uri) {
+      return null;
+    }
+
+    const loaded = await this.load(UrlResolver.forwardQueryParams(uri, master.url, options.forwardQueryParams), options.relay);
+    return {
+      playlist: M3U8Parser.parsePlaylist(loaded.content, loaded.url, parseOptions),
+      master,
+      variant: audioVariant ?? variant ?? undefined,
+      audioOnly: true
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import { DownloadOptions, M3U8Playlist } from '../types';
+import { InitSectionWriter } from './initSections';
+import { M3U8Parser } from './m3u8Parser';
+import { MediaFetcher } from './mediaFetcher';
+import { RelayClient } from './relayClient';
+import { DEFAULT_MAX_RETRIES, RetryPolicy } from './retryPolicy';
+import { SegmentCache } from './segmentCache';
+import { SegmentDecryptor } from './segmentDecryptor';
+import { Transmuxer } from './transmuxer';
+
+const BUFFER_AHEAD_SECONDS = 30;
+const BUFFER_BEHIND_SECONDS = 60;
+// H.264 High 3.1 with AAC-LC, for fMP4 streams whose master playlist lists no CODECS
+const FALLBACK_CODECS = 'avc1.64001f,mp4a.40.2';
+
+/**
+ * Plays a media playlist in a <video> through Media Source Extensions, fetching only the
+ * segments around the playhead. The SourceBuffer runs in "sequence" mode with timestampOffset
+ * set to each segment's playlist start, so the video's currentTime is the playlist time
+ * whichever segment a seek lands on.
+ */
+export class PreviewSession {
+  private mediaSource = new MediaSource();
+  private objectUrl = URL.createObjectURL(this.mediaSource);
+  private sourceBuffer: SourceBuffer | null = null;
+  private abortController = new AbortController();
+  private requestPlaylist: M3U8Playlist;
+  private decryptor: SegmentDecryptor;
+  private initSections: InitSectionWriter;
+  private starts: number[] = [];
+  private appended = new Set<number>();
+  private wake: (() => void) | null = null;
+
+  constructor(
+    private video: HTMLVideoElement,
+    private playlist: M3U8Playlist,
+    private options: DownloadOptions,
+    private cache: SegmentCache,
+    private codecs?: string
+  ) {
+    this.requestPlaylist = RelayClient.requestPlaylist(playlist, options);
+    this.decryptor = new SegmentDecryptor(options.keyOverride);
+    this.initSections = new InitSectionWriter(this.decryptor, options.maxRetries ?? DEFAULT_MAX_RETRIES);
+    let offset = 0;
+    for (const segment of playlist.segments) {
+      this.starts.push(offset);
+      offset += segment.duration;
+    }
+  }
+
+  static isSupported(): boolean {
+    return typeof MediaSource !== 'undefined';
+  }
+
+  // Resolves when the stream stops, and rejects with the first error that stopped it
+  async play(): Promise<void> {
+    const signal = this.abortController.signal;
+    this.video.src = this.objectUrl;
+    await new Promise(resolve => this.mediaSource.addEventListener('sourceopen', resolve, { once: true }));
+    this.mediaSource.duration = this.playlist.totalDuration;
+    this.video.addEventListener('seeking', this.handlePlayhead);
+    this.video.addEventListener('timeupdate', this.handlePlayhead);
+
+    try {
+      while (!signal.aborted) {
+        const index = this.nextIndex();
+        if (index === null) {
+          await new Promise<void>(resolve => this.wake = resolve);
+          continue;
+        }
+        await this.append(index, signal);
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        throw error;
+      }
+    }
+  }
+
+  destroy(): void {
+    this.abortController.abort();
+    this.wake?.();
+    this.video.removeEventListener('seeking', this.handlePlayhead);
+    this.video.removeEventListener('timeupdate', this.handlePlayhead);
+    this.video.removeAttribute('src');
+    this.video.load();
+    URL.revokeObjectURL(this.objectUrl);
+  }
+
+  private handlePlayhead = () => {
+    this.wake?.();
+    this.wake = null;
+  };
+
+  // The first segment from the playhead onwards that is missing within the look-ahead window
+  private nextIndex(): number | null {
+    const time = this.video.currentTime;
+    const { segments } = this.playlist;
+    for (let index = this.segmentAt(time); index < segments.length && this.starts[index] < time + BUFFER_AHEAD_SECONDS; index++) {
+      if (!this.appended.has(index)) {
+        return index;
+      }
+    }
+    return null;
+  }
+
+  private segmentAt(time: number): number {
+    const index = this.starts.findIndex((start, i) => time < start + this.playlist.segments[i].duration);
+    return index === -1 ? this.playlist.segments.length : index;
+  }
+
+  private async append(index: number, signal: AbortSignal): Promise<void> {
+    const segment = this.requestPlaylist.segments[index];
+    // EXT-X-GAP segments do not exist, so the preview just runs past them
+    if (!segment.gap) {
+      const data = await this.fetch(index, signal);
+      const chunks = await this.toFragments(index, data, signal);
+      const buffer = this.sourceBuffer!;
+      buffer.timestampOffset = this.starts[index];
+      for (const chunk of chunks) {
+        await this.appendChunk(buffer, chunk);
+      }
+    }
+    this.appended.add(index);
+
+    if (index === this.playlist.segments.length - 1 && this.mediaSource.readyState === 'open') {
+      this.mediaSource.endOfStream();
+    }
+    await this.evict();
+  }
+
+  private async fetch(index: number, signal: AbortSignal): Promise<Uint8Array> {
+    const cached = this.cache.get(this.playlist.segments[index]);
+    if (cached) {
+      return cached;
+    }
+
+    const segment = this.requestPlaylist.segments[index];
+    const { result } = await RetryPolicy.execute(
+      async attemptSignal => this.decryptor.decrypt(
+        await MediaFetcher.fetchBytes(segment.uri, attemptSignal, segment.byteRange),
+        segment,
+        attemptSignal
+      ),
+      { maxRetries: this.options.maxRetries ?? DEFAULT_MAX_RETRIES, signal }
+    );
+    this.cache.put(this.playlist.segments[index], result);
+    return result;
+  }
+
+  // MPEG-TS is transmuxed one segment at a time, so any segment can be appended on its own after a seek
+  private async toFragments(index: number, data: Uint8Array, signal: AbortSignal): Promise<Uint8Array[]> {
+    if (M3U8Parser.isFragmentedMp4(this.playlist)) {
+      const init = await this.initSections.before(this.requestPlaylist.segments[index], signal);
+      this.openSourceBuffer(this.codecs || FALLBACK_CODECS);
+      return init ? [init, data] : [data];
+    }
+
+    const transmuxer = new Transmuxer();
+    const chunks = [...transmuxer.push(data), ...transmuxer.flush()];
+    if (transmuxer.tracks.length === 0) {
+      throw new Error('No H.264/H.265 video or AAC audio found in this stream to preview');
+    }
+    this.openSourceBuffer(transmuxer.tracks.map(track => track.video?.codecString ?? track.audio!.codecString).join(','));
+    return chunks;
+  }
+
+  private openSourceBuffer(codecs: string): void {
+    if (this.sourceBuffer) {
+      return;
+    }
+    const type = `video/mp4; codecs="${codecs}"`;
+    if (!MediaSource.isTypeSupported(type)) {
+      throw new Error(`This browser cannot play ${codecs} through Media Source Extensions`);
+    }
+    this.sourceBuffer = this.mediaSource.addSourceBuffer(type);
+    this.sourceBuffer.mode = 'sequence';
+  }
+
+  private async appendChunk(buffer: SourceBuffer, chunk: Uint8Array): Promise<void> {
+    try {
+      await this.update(buffer, () => buffer.appendBuffer(chunk));
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) {
+        throw error;
+      }
+      // The browser's buffer is full: drop everything behind the playhead and try once more
+      await this.evict(0);
+      await this.update(buffer, () => buffer.appendBuffer(chunk));
+    }
+  }
+
+  // Keeps memory bounded on long videos; evicted segments are appended again if the user seeks back
+  private async evict(keepBehind = BUFFER_BEHIND_SECONDS): Promise<void> {
+    const buffer = this.sourceBuffer;
+    // Whole segments only, so a segment is either fully buffered or appended again
+    const end = this.starts[this.segmentAt(this.video.currentTime - keepBehind)] ?? this.playlist.totalDuration;
+    if (!buffer || end <= 0 || buffer.buffered.length === 0 || buffer.buffered.start(0) >= end) {
+      return;
+    }
+
+    await this.update(buffer, () => buffer.remove(0, end));
+    for (const index of this.appended) {
+      if (this.starts[index] + this.playlist.segments[index].duration <= end) {
+        this.appended.delete(index);
+      }
+    }
+  }
+
+  private update(buffer: SourceBuffer, action: () => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        buffer.removeEventListener('updateend', finish);
+        buffer.removeEventListener('error', fail);
+        resolve();
+      };
+      const fail = () => {
+        buffer.removeEventListener('updateend', finish);
+        buffer.removeEventListener('error', fail);
+        reject(new Error('The browser could not decode this segment'));
+      };
+      buffer.addEventListener('updateend', finish);
+      buffer.addEventListener('error', fail);
+      try {
+        action();
+      } catch (error) {
+        // appendBuffer throws QuotaExceededError synchronously instead of firing error
+        buffer.removeEventListener('updateend', finish);
+        buffer.removeEventListener('error', fail);
+        reject(error);
+      }
+    });
+  }
+}
@@ -0,0 +1,164 @@
+import { DownloadProgress, M3U8Playlist, SizeEstimate } from '../types';
+
+const SPEED_WINDOW_MS = 5000;
+// Shorter spans give wild rates from the first chunk or two
+const MIN_SPEED_SPAN_MS = 1000;
+
+// Transfer rate over a sliding window, so it follows slowdowns within seconds
+export class TransferMeter {
+  private samples: { time: number; bytes: number }[] = [];
+  private windowBytes = 0;
+  private startedAt: number | null = null;
+
+  record(bytes: number, now = Date.now()): void {
+    this.startedAt ??= now;
+    this.samples.push({ time: now, bytes });
+    this.windowBytes += bytes;
+    this.trim(now);
+  }
+
+  bytesPerSecond(now = Date.now()): number {
+    this.trim(now);
+    if (this.startedAt === null || this.samples.length === 0) {
+      return 0;
+    }
+    const span = Math.max(MIN_SPEED_SPAN_MS, Math.min(SPEED_WINDOW_MS, now - this.startedAt));
+    return Math.round((this.windowBytes * 1000) / span);
+  }
+
+  // Time spent paused must not drag the average down
+  reset(): void {
+    this.samples = [];
+    this.windowBytes = 0;
+    this.startedAt = null;
+  }
+
+  private trim(now: number): void {
+    while (this.samples.length > 0 && this.samples[0].time < now - SPEED_WINDOW_MS) {
+      this.windowBytes -= this.samples.shift()!.bytes;
+    }
+  }
+}
+
+interface InFlightFetch {
+  segments: number;
+  loaded: number;
+  total?: number;
+}
+
+/**
+ * Turns segment fetches into DownloadProgress: byte-level progress inside segments still
+ * being received, a rolling speed, and a size estimate that firms up as segment sizes become
+ * known from byte ranges, Content-Length headers and finished segments.
+ */
+export class ProgressTracker {
+  private meter = new TransferMeter();
+  // Exact sizes of segments, where known
+  private sizes = new Map<number, number>();
+  // Keyed by the first index of the fetch's group
+  private inFlight = new Map<number, InFlightFetch>();
+
+  constructor(private playlist: M3U8Playlist, private bandwidth?: number) {
+    playlist.segments.forEach((segment, index) => {
+      if (segment.byteRange) {
+        this.sizes.set(index, segment.byteRange.length);
+      }
+    });
+  }
+
+  // Called with the running total of one attempt; a retry starts again from zero
+  received(group: number[], loaded: number, total?: number): void {
+    const previous = this.inFlight.get(group[0]);
+    const delta = previous && loaded >= previous.loaded ? loaded - previous.loaded : loaded;
+    this.meter.record(delta);
+    this.inFlight.set(group[0], { segments: group.length, loaded, total });
+    if (total !== undefined && group.length === 1 && !this.sizes.has(group[0])) {
+      this.sizes.set(group[0], total);
+    }
+  }
+
+  completed(group: number[], sizes: number[]): void {
+    this.inFlight.delete(group[0]);
+    group.forEach((index, position) => this.sizes.set(index, sizes[position]));
+  }
+
+  abandoned(group: number[]): void {
+    this.inFlight.delete(group[0]);
+  }
+
+  resetSpeed(): void {
+    this.meter.reset();
+    this.inFlight.clear();
+  }
+
+  snapshot(storedIndices: Set<number>): DownloadProgress {
+    const { segments } = this.playlist;
+    const gapSegments = segments.filter(segment => segment.gap).length;
+    const completedSegments = storedIndices.size + gapSegments;
+
+    let partialSegments = 0;
+    let inFlightBytes = 0;
+    for (const fetch of this.inFlight.values()) {
+      inFlightBytes += fetch.loaded;
+      if (fetch.total) {
+        partialSegments += fetch.segments * Math.min(1, fetch.loaded / fetch.total);
+      }
+    }
+
+    const rate = this.mediaBytesPerSecond();
+    let totalBytes = 0;
+    let storedBytes = 0;
+    let unknownSegments = 0;
+    segments.forEach((segment, index) => {
+      if (segment.gap) {
+        return;
+      }
+      const size = this.sizes.get(index) ?? (rate !== null ? rate * segment.duration : null);
+      if (size === null) {
+        unknownSegments++;
+        return;
+      }
+      if (!this.sizes.has(index)) {
+        unknownSegments++;
+      }
+      totalBytes += size;
+      if (storedIndices.has(index)) {
+        storedBytes += size;
+      }
+    });
+
+    const downloadedBytes = Math.round(storedBytes + inFlightBytes);
+    const bytesPerSecond = this.meter.bytesPerSecond();
+    const estimate: SizeEstimate | undefined = unknownSegments === 0
+      ? 'exact'
+      : rate === null ? undefined : this.sizes.size > 0 ? 'sampled' : 'bandwidth';
+    const total = estimate ? Math.max(Math.round(totalBytes), downloadedBytes) : downloadedBytes;
+    const percentage = Math.floor(((completedSegments + partialSegments) / segments.length) * 100);
+
+    return {
+      segmentIndex: completedSegments,
+      totalSegments: segments.length,
+      downloadedBytes,
+      totalBytes: total,
+      // 100% only once the last segment is stored, not just received; a playlist with no segments has nothing to count
+      percentage: segments.length === 0 ? 0 : completedSegments < segments.length ? Math.min(99, percentage) : 100,
+      sizeEstimate: estimate,
+      bytesPerSecond,
+      etaSeconds: estimate && bytesPerSecond > 0 ? Math.round((total - downloadedBytes) / bytesPerSecond) : undefined
+    };
+  }
+
+  // Bytes per second of media, from the segments measured so far or else the variant's bandwidth
+  private mediaBytesPerSecond(): number | null {
+    let bytes = 0;
+    let duration = 0;
+    this.sizes.forEach((size, index) => {
+      bytes += size;
+      duration += this.playlist.segments[index].duration;
+    });
+    if (duration > 0) {
+      return bytes / duration;
+    }
+    return this.bandwidth ? this.bandwidth / 8 : null;
+  }
+}
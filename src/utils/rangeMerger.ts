@@ -0,0 +1,41 @@
+import { M3U8ByteRange, M3U8Segment } from '../types';
+
+// Caps one merged request so a failure or pause does not throw away too much data
+export const MAX_MERGED_RANGE_BYTES = 8 * 1024 * 1024;
+
+export class RangeMerger {
+  // Groups playlist indices whose byte ranges sit back to back in the same resource
+  static group(segments: M3U8Segment[], indices: number[]): number[][] {
+    const groups: number[][] = [];
+    let current: number[] = [];
+    let currentBytes = 0;
+
+    for (const index of [...indices].sort((a, b) => a - b)) {
+      const range = segments[index].byteRange;
+      const previous = current.length > 0 ? segments[current[current.length - 1]] : null;
+      const adjacent = !!range && !!previous?.byteRange
+        && previous.uri === segments[index].uri
+        && previous.byteRange.offset + previous.byteRange.length === range.offset
+        && currentBytes + range.length <= MAX_MERGED_RANGE_BYTES;
+
+      if (!adjacent && current.length > 0) {
+        groups.push(current);
+        current = [];
+        currentBytes = 0;
+      }
+      current.push(index);
+      currentBytes += range?.length ?? 0;
+    }
+
+    if (current.length > 0) {
+      groups.push(current);
+    }
+    return groups;
+  }
+
+  static mergedRange(segments: M3U8Segment[], group: number[]): M3U8ByteRange {
+    const first = segments[group[0]].byteRange!;
+    const last = segments[group[group.length - 1]].byteRange!;
+    return { offset: first.offset, length: last.offset + last.length - first.offset };
+  }
+}
@@ -0,0 +1,67 @@
+import { DownloadOptions, M3U8Playlist, RelayConfig } from '../types';
+import { UrlResolver } from './urlResolver';
+
+// Same-origin endpoint of the Netlify and Vercel deployments
+export const DEFAULT_RELAY_URL = '/api/relay';
+
+export const RELAY_FINAL_URL_HEADER = 'X-Relay-Final-Url';
+
+export class RelayClient {
+  // The URL to fetch instead of url; without a relay, url itself
+  static wrap(url: string, relay?: RelayConfig): string {
+    if (!relay) {
+      return url;
+    }
+
+    const endpoint = new URL(relay.url, globalThis.location?.href);
+    endpoint.searchParams.set('url', url);
+    if (relay.referer) {
+      endpoint.searchParams.set('referer', relay.referer);
+    }
+    if (relay.origin) {
+      endpoint.searchParams.set('origin', relay.origin);
+    }
+    for (const [name, value] of Object.entries(relay.headers ?? {})) {
+      endpoint.searchParams.append('header', `${name}: ${value}`);
+    }
+    return endpoint.href;
+  }
+
+  // Relayed responses come from the relay's URL, so it reports the upstream URL after redirects
+  static finalUrl(response: Response, requestedUrl: string, relay?: RelayConfig): string {
+    if (relay) {
+      return response.headers.get(RELAY_FINAL_URL_HEADER) ?? requestedUrl;
+    }
+    return response.url || requestedUrl;
+  }
+
+  // Segment, key and map URIs stay resolved against the original playlist and are only wrapped for fetching
+  static wrapPlaylist(playlist: M3U8Playlist, relay?: RelayConfig): M3U8Playlist {
+    if (!relay) {
+      return playlist;
+    }
+
+    return UrlResolver.mapUrls(playlist, url => this.wrap(url, relay));
+  }
+
+  // Forwarded tokens go onto the real URLs first, then every request is routed through the relay if one is set
+  static requestPlaylist(playlist: M3U8Playlist, options: DownloadOptions): M3U8Playlist {
+    return this.wrapPlaylist(UrlResolver.forwardToPlaylist(playlist, options.forwardQueryParams), options.relay);
+  }
+
+  // One "Name: value" per line; lines without a colon are ignored
+  static parseHeaders(text: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.substring(0, separator).trim()] = line.substring(separator + 1).trim();
+      }
+    }
+    return headers;
+  }
+
+  static formatHeaders(headers: Record<string, string> = {}): string {
+    return Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+  }
+}
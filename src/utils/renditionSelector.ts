@@ -0,0 +1,58 @@
+import { M3U8MasterPlaylist, M3U8Rendition, M3U8RenditionType, M3U8Variant } from '../types';
+
+export class RenditionSelector {
+  // A variant only plays the renditions of the groups it names in AUDIO= and SUBTITLES=
+  static forVariant(
+    master: M3U8MasterPlaylist,
+    variant: M3U8Variant | null,
+    type: M3U8RenditionType
+  ): M3U8Rendition[] {
+    const groupId = type === 'AUDIO' ? variant?.audioGroupId : variant?.subtitleGroupId;
+    if (!groupId) {
+      return [];
+    }
+    return master.renditions.filter(rendition => rendition.type === type && rendition.groupId === groupId);
+  }
+
+  // The rendition a player would pick without user input, or null when the variant carries its own audio
+  static defaultAudio(renditions: M3U8Rendition[]): M3U8Rendition | null {
+    const preferred = renditions.find(rendition => rendition.isDefault)
+      ?? renditions.find(rendition => rendition.autoSelect)
+      ?? renditions[0];
+    return preferred?.uri ? preferred : null;
+  }
+
+  static matchLanguage(renditions: M3U8Rendition[], language: string): M3U8Rendition | null {
+    const normalized = language.trim().toLowerCase();
+    return renditions.find(rendition =>
+      rendition.language?.toLowerCase() === normalized ||
+      rendition.language?.toLowerCase().split('-')[0] === normalized ||
+      rendition.name.toLowerCase() === normalized
+    ) ?? null;
+  }
+
+  static isSame(a: M3U8Rendition | null | undefined, b: M3U8Rendition | null | undefined): boolean {
+    return !!a && !!b && a.type === b.type && a.groupId === b.groupId && a.name === b.name;
+  }
+
+  static label(rendition: M3U8Rendition): string {
+    const parts = [rendition.name];
+    if (rendition.language && rendition.language.toLowerCase() !== rendition.name.toLowerCase()) {
+      parts.push(rendition.language);
+    }
+    if (rendition.channels) {
+      parts.push(`${rendition.channels.split('/')[0]} ch`);
+    }
+    if (rendition.forced) {
+      parts.push('forced');
+    }
+    return parts.join(' • ');
+  }
+
+  // File name part for a rendition saved next to the video, e.g. "en" or "en.forced"
+  static fileSuffix(rendition: M3U8Rendition): string {
+    const base = (rendition.language || rendition.name).toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '');
+    const suffix = base || 'track';
+    return rendition.forced ? `${suffix}.forced` : suffix;
+  }
+}
@@ -0,0 +1,88 @@
+import { DownloadAttachment, ExternalAudioTrack, M3U8Rendition, MediaSample, SubtitleFormat } from '../types';
+import { ClipPlan } from './clipPlanner';
+import { SUBTITLE_FORMATS } from './outputFormats';
+import { RenditionSelector } from './renditionSelector';
+import { SubtitleStitcher, SubtitleTiming } from './subtitleStitcher';
+import { Transmuxer } from './transmuxer';
+import { TsDemuxer } from './tsDemuxer';
+
+// A downloaded alternate rendition: its segments in playlist order, with init sections in front of each map run
+export interface RenditionMedia {
+  rendition: M3U8Rendition;
+  clip: ClipPlan;
+  chunks: Uint8Array[];
+  fragmented: boolean;
+}
+
+export class RenditionTracks {
+  // Only MPEG-TS audio can be demuxed and muxed next to the transmuxed video
+  static canMux(media: RenditionMedia): boolean {
+    return !media.fragmented && media.chunks.length > 0 && TsDemuxer.isTransportStream(media.chunks[0]);
+  }
+
+  static toExternalAudio(media: RenditionMedia): ExternalAudioTrack {
+    const demuxer = new TsDemuxer();
+    const samples: MediaSample[] = [];
+    let info = null;
+
+    for (const chunk of media.chunks) {
+      const demuxed = demuxer.demux(chunk);
+      info = demuxed.audio ?? info;
+      samples.push(...demuxed.audioSamples);
+    }
+
+    if (!info || samples.length === 0) {
+      throw new Error(`Audio track "${media.rendition.name}" has no AAC audio that can be muxed into MP4`);
+    }
+    return { info, samples };
+  }
+
+  // MPEG-TS audio becomes an M4A; fMP4 audio is already one; packed audio (e.g. ADTS .aac) is joined as is
+  static audioAttachment(media: RenditionMedia): DownloadAttachment {
+    const label = `${RenditionSelector.label(media.rendition)} audio`;
+    const suffix = `audio.${RenditionSelector.fileSuffix(media.rendition)}`;
+
+    if (media.fragmented) {
+      return { label, suffix, extension: 'm4a', blob: new Blob(media.chunks, { type: 'audio/mp4' }) };
+    }
+
+    if (this.canMux(media)) {
+      const transmuxer = new Transmuxer({ duration: media.clip.duration, trimStart: media.clip.trimStart, trimEnd: media.clip.trimEnd });
+      const output = media.chunks.flatMap(chunk => transmuxer.push(chunk));
+      output.push(...transmuxer.flush());
+      return { label, suffix, extension: 'm4a', blob: new Blob(output, { type: 'audio/mp4' }) };
+    }
+
+    const extension = media.rendition.uri?.match(/\.(aac|ac3|ec3|mp3)(?:[?#]|$)/i)?.[1].toLowerCase() ?? 'aac';
+    return {
+      label,
+      suffix,
+      extension,
+      blob: new Blob(media.chunks.map(chunk => this.stripId3(chunk)), { type: extension === 'mp3' ? 'audio/mpeg' : `audio/${extension}` })
+    };
+  }
+
+  static subtitleAttachment(media: RenditionMedia, timing: SubtitleTiming, format: SubtitleFormat): DownloadAttachment {
+    const decoder = new TextDecoder();
+    const text = SubtitleStitcher.stitch(media.chunks.map(chunk => decoder.decode(chunk)), timing, format);
+    const info = SUBTITLE_FORMATS[format];
+
+    return {
+      label: `${RenditionSelector.label(media.rendition)} subtitles`,
+      suffix: RenditionSelector.fileSuffix(media.rendition),
+      extension: info.extension,
+      blob: new Blob([text], { type: info.mimeType })
+    };
+  }
+
+  // Packed audio segments start with an ID3 tag carrying their timestamp, which players do not expect mid-file
+  private static stripId3(chunk: Uint8Array): Uint8Array {
+    if (chunk.length < 10 || chunk[0] !== 0x49 || chunk[1] !== 0x44 || chunk[2] !== 0x33) {
+      return chunk;
+    }
+    // Syncsafe size: 7 bits per byte, plus a 10-byte footer when flagged
+    const size = (chunk[6] << 21) | (chunk[7] << 14) | (chunk[8] << 7) | chunk[9];
+    const footer = (chunk[5] & 0x10) !== 0 ? 10 : 0;
+    return chunk.subarray(Math.min(chunk.length, 10 + size + footer));
+  }
+}
@@ -0,0 +1,173 @@
+import { SegmentCheck, SegmentFailure, SegmentFailureKind } from '../types';
+
+export const DEFAULT_MAX_RETRIES = 3;
+export const MAX_RETRIES_LIMIT = 10;
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 30000;
+const MAX_RETRY_AFTER_MS = 60000;
+export const REQUEST_TIMEOUT_MS = 60000;
+
+export class SegmentFetchError extends Error {
+  readonly kind: SegmentFailureKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  attempts = 1;
+
+  constructor(message: string, kind: SegmentFailureKind, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'SegmentFetchError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  static fromResponse(response: Response): SegmentFetchError {
+    const status = response.status;
+    const message = `HTTP ${status}${response.statusText ? ` ${response.statusText}` : ''}`;
+    const retryAfterMs = status === 429 || status === 503
+      ? RetryPolicy.parseRetryAfter(response.headers.get('Retry-After'))
+      : undefined;
+
+    return new SegmentFetchError(message, RetryPolicy.classifyStatus(status), status, retryAfterMs);
+  }
+}
+
+// The response arrived but is not a usable segment; CDNs often recover on the next request
+export class SegmentValidationError extends SegmentFetchError {
+  readonly check: SegmentCheck;
+
+  constructor(message: string, check: SegmentCheck, status?: number) {
+    super(message, 'corrupt', status);
+    this.name = 'SegmentValidationError';
+    this.check = check;
+  }
+}
+
+// Thrown when some segments could not be downloaded; the rest are kept for a retry or a gapped save
+export class SegmentDownloadError extends Error {
+  readonly failures: SegmentFailure[];
+
+  constructor(failures: SegmentFailure[], totalSegments: number) {
+    super(`${failures.length} of ${totalSegments} segments failed to download`);
+    this.name = 'SegmentDownloadError';
+    this.failures = failures;
+  }
+}
+
+interface RetryContext {
+  maxRetries: number;
+  signal: AbortSignal;
+  onRetry?: (attempt: number, error: SegmentFetchError, delayMs: number) => void;
+}
+
+export class RetryPolicy {
+  static classifyStatus(status: number): SegmentFailureKind {
+    if (status === 408 || status === 429 || status >= 500) {
+      return 'transient';
+    }
+    return 'permanent';
+  }
+
+  static classify(error: unknown): SegmentFetchError {
+    if (error instanceof SegmentFetchError) {
+      return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    // fetch() rejects with a TypeError for DNS, connection and CORS failures
+    if (error instanceof TypeError) {
+      return new SegmentFetchError(`Network error: ${message}`, 'transient');
+    }
+    return new SegmentFetchError(message, 'content');
+  }
+
+  static isRetryable(error: SegmentFetchError): boolean {
+    return error.kind === 'transient' || error.kind === 'corrupt';
+  }
+
+  // Retry-After is either delay-seconds or an HTTP date
+  static parseRetryAfter(header: string | null): number | undefined {
+    if (!header) {
+      return undefined;
+    }
+    const seconds = Number(header);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+    return Number.isFinite(delay) ? Math.min(MAX_RETRY_AFTER_MS, Math.max(0, delay)) : undefined;
+  }
+
+  // Exponential backoff with jitter so parallel workers do not retry in lockstep
+  static getDelay(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs;
+    }
+    const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempt - 1));
+    return Math.round(exponential * (0.5 + Math.random() * 0.5));
+  }
+
+  static async execute<T>(
+    task: (signal: AbortSignal) => Promise<T>,
+    context: RetryContext
+  ): Promise<{ result: T; attempts: number }> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.withTimeout(task, context.signal);
+        return { result, attempts: attempt };
+      } catch (error) {
+        if (context.signal.aborted) {
+          throw error;
+        }
+
+        const classified = this.classify(error);
+        if (!this.isRetryable(classified) || attempt > context.maxRetries) {
+          classified.attempts = attempt;
+          throw classified;
+        }
+
+        const delay = this.getDelay(attempt, classified.retryAfterMs);
+        context.onRetry?.(attempt, classified, delay);
+        await this.wait(delay, context.signal);
+      }
+    }
+  }
+
+  private static async withTimeout<T>(task: (signal: AbortSignal) => Promise<T>, parent: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const abort = () => controller.abort();
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, REQUEST_TIMEOUT_MS);
+    parent.addEventListener('abort', abort);
+
+    try {
+      return await task(controller.signal);
+    } catch (error) {
+      if (timedOut && !parent.aborted) {
+        throw new SegmentFetchError(`Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`, 'transient');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      parent.removeEventListener('abort', abort);
+    }
+  }
+
+  static wait(delayMs: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(new DOMException('Download cancelled', 'AbortError'));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Download cancelled', 'AbortError'));
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,71 @@
+import { M3U8Playlist, M3U8Segment, SegmentStore, TimeRange } from '../types';
+import { ClipPlanner } from './clipPlanner';
+
+// Enough for a few minutes of HD preview; the oldest segments are dropped first
+export const MAX_SEGMENT_CACHE_BYTES = 256 * 1024 * 1024;
+
+// Decrypted segments fetched for the preview, handed to the download so they are not fetched twice
+export class SegmentCache {
+  // Map iteration follows insertion order, so re-inserting on access keeps it least-recently-used first
+  private entries = new Map<string, Uint8Array>();
+  private bytes = 0;
+
+  constructor(private maxBytes = MAX_SEGMENT_CACHE_BYTES) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Keyed by the playlist's own URI, before relaying or token forwarding rewrites it
+  static key(segment: M3U8Segment): string {
+    return segment.byteRange ? `${segment.uri}@${segment.byteRange.offset}-${segment.byteRange.length}` : segment.uri;
+  }
+
+  get(segment: M3U8Segment): Uint8Array | undefined {
+    const key = SegmentCache.key(segment);
+    const data = this.entries.get(key);
+    if (data) {
+      this.entries.delete(key);
+      this.entries.set(key, data);
+    }
+    return data;
+  }
+
+  put(segment: M3U8Segment, data: Uint8Array): void {
+    const key = SegmentCache.key(segment);
+    this.bytes -= this.entries.get(key)?.length ?? 0;
+    this.entries.delete(key);
+    if (data.length > this.maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, data);
+    this.bytes += data.length;
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.bytes <= this.maxBytes) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+      this.bytes -= oldest.length;
+    }
+  }
+
+  // Store indices follow the clipped playlist, the same plan downloadM3U8 makes
+  async seed(store: SegmentStore, playlist: M3U8Playlist, clip?: TimeRange): Promise<number> {
+    const { segments } = ClipPlanner.plan(playlist, clip).playlist;
+    let seeded = 0;
+    for (let index = 0; index < segments.length; index++) {
+      const data = this.get(segments[index]);
+      if (data && !store.storedIndices.has(index)) {
+        await store.put(index, data);
+        seeded++;
+      }
+    }
+    return seeded;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+}
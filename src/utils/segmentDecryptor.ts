@@ -0,0 +1,156 @@
+import { M3U8Key, M3U8Map, M3U8Segment, ManualKeyOverride } from '../types';
+import { HttpClient } from './httpClient';
+import { REQUEST_TIMEOUT_MS, SegmentFetchError } from './retryPolicy';
+
+export class SegmentDecryptor {
+  private keyCache = new Map<string, Promise<CryptoKey>>();
+  private manualKey: Promise<CryptoKey> | null = null;
+  private manualIv: Uint8Array | null = null;
+
+  // An IV entered without a key still replaces the playlist's IVs for keys fetched from it
+  constructor(keyOverride?: ManualKeyOverride) {
+    if (keyOverride && keyOverride.key.trim()) {
+      this.manualKey = SegmentDecryptor.importKey(SegmentDecryptor.parseKeyMaterial(keyOverride.key, 'key'));
+    }
+    if (keyOverride?.iv && keyOverride.iv.trim()) {
+      this.manualIv = SegmentDecryptor.parseKeyMaterial(keyOverride.iv, 'IV');
+    }
+  }
+
+  async decrypt(data: Uint8Array, segment: M3U8Segment, signal?: AbortSignal): Promise<Uint8Array> {
+    return this.decryptWith(data, segment.key, segment.mediaSequence, `segment ${segment.mediaSequence}`, signal);
+  }
+
+  // Init sections have no media sequence number, so RFC 8216 requires an explicit IV for them
+  async decryptMap(data: Uint8Array, map: M3U8Map, signal?: AbortSignal): Promise<Uint8Array> {
+    if (map.key && map.key.method === 'AES-128' && !map.key.iv && !this.manualIv) {
+      throw new Error('Encrypted EXT-X-MAP initialization section has no IV');
+    }
+    return this.decryptWith(data, map.key, 0, 'initialization section', signal);
+  }
+
+  private async decryptWith(
+    data: Uint8Array,
+    key: M3U8Key | undefined,
+    mediaSequence: number,
+    label: string,
+    signal?: AbortSignal
+  ): Promise<Uint8Array> {
+    if (!key) {
+      return data;
+    }
+
+    if (key.method !== 'AES-128') {
+      throw new Error(`Unsupported encryption method ${key.method} on ${label}`);
+    }
+
+    const cryptoKey = await this.getKey(key.uri, signal);
+    const iv = this.manualIv
+      ?? (key.iv ? SegmentDecryptor.parseKeyMaterial(key.iv, 'IV') : SegmentDecryptor.deriveIv(mediaSequence));
+
+    try {
+      const decrypted = await crypto.subtle.decrypt({ name: 'AES-CBC', iv }, cryptoKey, data);
+      return new Uint8Array(decrypted);
+    } catch (error) {
+      throw new Error(`Failed to decrypt ${label}: wrong key or IV (${error})`);
+    }
+  }
+
+  private getKey(uri: string | undefined, signal?: AbortSignal): Promise<CryptoKey> {
+    if (this.manualKey) {
+      return this.manualKey;
+    }
+    if (!uri) {
+      throw new Error('Encrypted segment has no key URI; supply the key manually in Advanced Options');
+    }
+
+    let cached = this.keyCache.get(uri);
+    if (!cached) {
+      // Shared by every segment using the key, so it is not tied to the signal of the fetch that asked first
+      cached = SegmentDecryptor.fetchKey(uri);
+      // Drop failed lookups so a retry can fetch the key again
+      cached.catch(() => this.keyCache.delete(uri));
+      this.keyCache.set(uri, cached);
+    }
+    return signal ? SegmentDecryptor.untilAborted(cached, signal) : cached;
+  }
+
+  // Has its own timeout, since a stalled key request would otherwise hold up every retry that waits on it
+  private static async fetchKey(uri: string): Promise<CryptoKey> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    let keyBytes: Uint8Array;
+    try {
+      const response = await HttpClient.fetch(uri, { signal: controller.signal, mode: 'cors' });
+      if (!response.ok) {
+        const error = SegmentFetchError.fromResponse(response);
+        throw new SegmentFetchError(`Failed to fetch decryption key: ${error.message}`, error.kind, error.status, error.retryAfterMs);
+      }
+      keyBytes = new Uint8Array(await response.arrayBuffer());
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new SegmentFetchError(`Decryption key request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`, 'transient');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (keyBytes.length !== 16) {
+      throw new Error(`Decryption key has ${keyBytes.length} bytes, expected 16`);
+    }
+    return this.importKey(keyBytes);
+  }
+
+  // Lets one caller stop waiting on a shared lookup without cancelling it for the others
+  private static untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    if (signal.aborted) {
+      return Promise.reject(new DOMException('Download cancelled', 'AbortError'));
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new DOMException('Download cancelled', 'AbortError'));
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private static importKey(keyBytes: Uint8Array): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', keyBytes, { name: 'AES-CBC' }, false, ['decrypt']);
+  }
+
+  // RFC 8216 5.2: without an IV attribute the media sequence number is used as a 128-bit big-endian IV
+  static deriveIv(mediaSequence: number): Uint8Array {
+    const iv = new Uint8Array(16);
+    let value = mediaSequence;
+    for (let i = 15; i >= 8 && value > 0; i--) {
+      iv[i] = value % 256;
+      value = Math.floor(value / 256);
+    }
+    return iv;
+  }
+
+  // Accepts hex (with or without 0x) or base64 encoded 16-byte values
+  static parseKeyMaterial(value: string, label: string): Uint8Array {
+    const trimmed = value.trim();
+    const hex = trimmed.replace(/^0x/i, '');
+
+    let bytes: Uint8Array;
+    if (/^[0-9a-f]+$/i.test(hex) && hex.length === 32) {
+      bytes = new Uint8Array(16);
+      for (let i = 0; i < 16; i++) {
+        bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+      }
+    } else {
+      try {
+        bytes = Uint8Array.from(atob(trimmed), char => char.charCodeAt(0));
+      } catch {
+        throw new Error(`Invalid ${label}: expected 16 bytes as hex or base64`);
+      }
+    }
+
+    if (bytes.length !== 16) {
+      throw new Error(`Invalid ${label}: expected 16 bytes, got ${bytes.length}`);
+    }
+    return bytes;
+  }
+}
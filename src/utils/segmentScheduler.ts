@@ -0,0 +1,52 @@
+export const MIN_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 16;
+export const DEFAULT_CONCURRENCY = 4;
+
+// Runs segment tasks through a fixed-size worker pool; tasks are started in playlist order
+export class SegmentScheduler {
+  private concurrency: number;
+
+  constructor(concurrency: number = DEFAULT_CONCURRENCY) {
+    this.concurrency = SegmentScheduler.clampConcurrency(concurrency);
+  }
+
+  static clampConcurrency(concurrency: number): number {
+    if (!Number.isFinite(concurrency)) {
+      return DEFAULT_CONCURRENCY;
+    }
+    return Math.min(MAX_CONCURRENCY, Math.max(MIN_CONCURRENCY, Math.round(concurrency)));
+  }
+
+  async run(
+    indices: number[],
+    task: (index: number) => Promise<void>,
+    signal: AbortSignal
+  ): Promise<void> {
+    let cursor = 0;
+    let failure: unknown = null;
+
+    const worker = async () => {
+      while (failure === null && !signal.aborted && cursor < indices.length) {
+        const index = indices[cursor++];
+        try {
+          await task(index);
+        } catch (error) {
+          // Keep the first error; later ones are usually aborts triggered by it
+          if (failure === null) {
+            failure = error;
+          }
+        }
+      }
+    };
+
+    const workerCount = Math.min(this.concurrency, indices.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    if (failure !== null) {
+      throw failure;
+    }
+    if (signal.aborted) {
+      throw new Error('Download cancelled');
+    }
+  }
+}
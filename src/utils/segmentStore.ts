@@ -0,0 +1,24 @@
+import { SegmentStore } from '../types';
+
+export class MemorySegmentStore implements SegmentStore {
+  readonly storedIndices = new Set<number>();
+  private segments = new Map<number, Uint8Array>();
+
+  async put(index: number, data: Uint8Array): Promise<void> {
+    this.segments.set(index, data);
+    this.storedIndices.add(index);
+  }
+
+  async get(index: number): Promise<Uint8Array | undefined> {
+    return this.segments.get(index);
+  }
+
+  release(index: number): void {
+    this.segments.delete(index);
+  }
+
+  async clear(): Promise<void> {
+    this.segments.clear();
+    this.storedIndices.clear();
+  }
+}
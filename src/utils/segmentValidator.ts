@@ -0,0 +1,202 @@
+import { M3U8Segment } from '../types';
+import { SegmentValidationError } from './retryPolicy';
+
+const TS_PACKET_SIZE = 188;
+const TS_SYNC_BYTE = 0x47;
+const BOX_HEADER_SIZE = 8;
+const ADTS_HEADER_SIZE = 7;
+// Top-level boxes an fMP4 media segment can start with
+const MP4_SEGMENT_BOXES = new Set(['styp', 'sidx', 'moof', 'mdat', 'emsg', 'prft', 'free', 'ftyp', 'moov']);
+// Error pages and API errors served with a 200 status
+const DOCUMENT_TYPES = /^\s*(text\/html|application\/xhtml\+xml|application\/json|application\/xml|text\/xml)\b/i;
+
+/**
+ * Rejects responses that are not the media a playlist promised: error pages served with a 200,
+ * empty or cut-off bodies, and data that breaks its container's framing. Failures throw
+ * SegmentValidationError, which RetryPolicy refetches.
+ */
+export class SegmentValidator {
+  // Checks that need the HTTP response, made before decryption
+  static checkResponse(response: Response, data: Uint8Array): void {
+    if (data.length === 0) {
+      throw new SegmentValidationError('Server returned an empty segment', 'empty', response.status);
+    }
+
+    const contentType = response.headers.get('Content-Type');
+    if (contentType && DOCUMENT_TYPES.test(contentType)) {
+      throw new SegmentValidationError(`Server returned ${contentType.split(';')[0]} instead of media`, 'content-type', response.status);
+    }
+
+    // Compressed bodies decode to more bytes than Content-Length, so only a shortfall is reported
+    const contentLength = Number(response.headers.get('Content-Length'));
+    if (contentLength > 0 && data.length < contentLength) {
+      throw new SegmentValidationError(
+        `Segment truncated: received ${data.length} of ${contentLength} bytes`,
+        'truncated',
+        response.status
+      );
+    }
+  }
+
+  // Checks the decrypted data against the container the playlist implies, or sniffs it for plain segments
+  static checkContainer(data: Uint8Array, segment: M3U8Segment): void {
+    // Decryption strips the padding, so a body of nothing but padding ends up empty
+    if (data.length === 0) {
+      throw new SegmentValidationError('Segment is empty after decryption', 'empty');
+    }
+    if (segment.map || this.startsWithBox(data)) {
+      this.checkMp4(data);
+      return;
+    }
+    if (data[0] === TS_SYNC_BYTE) {
+      this.checkTs(data);
+      return;
+    }
+
+    // Packed audio (RFC 8216 3.4) starts with an ID3 timestamp tag
+    const audioStart = this.id3Length(data);
+    if (this.isAdtsSync(data, audioStart)) {
+      this.checkAdts(data, audioStart);
+      return;
+    }
+    if (audioStart > 0 || this.isMpegAudioSync(data, 0) || this.isAc3Sync(data, 0)) {
+      // MP3, AC-3 and E-AC-3 packed audio are passed through without further checks
+      return;
+    }
+
+    if (this.looksLikeDocument(data)) {
+      throw new SegmentValidationError('Server returned a text document instead of media', 'content-type');
+    }
+    throw new SegmentValidationError(
+      `Segment is not MPEG-TS, fMP4 or AAC (starts with 0x${data[0].toString(16).padStart(2, '0')})`,
+      'ts-sync'
+    );
+  }
+
+  private static checkTs(data: Uint8Array): void {
+    for (let offset = 0; offset + TS_PACKET_SIZE <= data.length; offset += TS_PACKET_SIZE) {
+      if (data[offset] !== TS_SYNC_BYTE) {
+        throw new SegmentValidationError(`MPEG-TS sync byte missing at byte ${offset}`, 'ts-sync');
+      }
+    }
+    if (data.length % TS_PACKET_SIZE !== 0) {
+      throw new SegmentValidationError(
+        `Segment truncated: ${data.length % TS_PACKET_SIZE} bytes of a partial MPEG-TS packet at the end`,
+        'truncated'
+      );
+    }
+  }
+
+  private static checkMp4(data: Uint8Array): void {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let hasMedia = false;
+    let offset = 0;
+
+    while (offset < data.length) {
+      if (offset + BOX_HEADER_SIZE > data.length) {
+        throw new SegmentValidationError(`Segment truncated inside a box header at byte ${offset}`, 'truncated');
+      }
+      const type = this.boxType(data, offset);
+      if (!type) {
+        throw new SegmentValidationError(`Invalid MP4 box at byte ${offset}`, 'mp4-boxes');
+      }
+
+      let size = view.getUint32(offset);
+      let headerSize = BOX_HEADER_SIZE;
+      if (size === 1) {
+        // 64-bit largesize follows the type
+        if (offset + 16 > data.length) {
+          throw new SegmentValidationError(`Segment truncated inside a box header at byte ${offset}`, 'truncated');
+        }
+        size = Number(view.getBigUint64(offset + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        // The last box runs to the end of the data
+        size = data.length - offset;
+      }
+      if (size < headerSize) {
+        throw new SegmentValidationError(`MP4 box "${type}" at byte ${offset} has an invalid size of ${size}`, 'mp4-boxes');
+      }
+      if (offset + size > data.length) {
+        throw new SegmentValidationError(
+          `Segment truncated: box "${type}" needs ${size} bytes but only ${data.length - offset} remain`,
+          'truncated'
+        );
+      }
+
+      hasMedia ||= type === 'moof' || type === 'mdat';
+      offset += size;
+    }
+
+    if (!hasMedia) {
+      throw new SegmentValidationError('fMP4 segment has no moof or mdat box', 'mp4-boxes');
+    }
+  }
+
+  private static checkAdts(data: Uint8Array, start: number): void {
+    let offset = start;
+    while (offset < data.length) {
+      if (!this.isAdtsSync(data, offset)) {
+        throw new SegmentValidationError(`ADTS sync word missing at byte ${offset}`, 'adts');
+      }
+      if (offset + ADTS_HEADER_SIZE > data.length) {
+        throw new SegmentValidationError(`Segment truncated inside an ADTS header at byte ${offset}`, 'truncated');
+      }
+      // 13-bit frame length, header included
+      const frameLength = ((data[offset + 3] & 0x03) << 11) | (data[offset + 4] << 3) | (data[offset + 5] >> 5);
+      if (frameLength < ADTS_HEADER_SIZE) {
+        throw new SegmentValidationError(`ADTS frame at byte ${offset} has an invalid length of ${frameLength}`, 'adts');
+      }
+      if (offset + frameLength > data.length) {
+        throw new SegmentValidationError(`Segment truncated inside the ADTS frame at byte ${offset}`, 'truncated');
+      }
+      offset += frameLength;
+    }
+  }
+
+  private static startsWithBox(data: Uint8Array): boolean {
+    const type = data.length >= BOX_HEADER_SIZE ? this.boxType(data, 0) : null;
+    return type !== null && MP4_SEGMENT_BOXES.has(type);
+  }
+
+  // Box types are four printable ASCII characters
+  private static boxType(data: Uint8Array, offset: number): string | null {
+    let type = '';
+    for (let i = 4; i < 8; i++) {
+      const byte = data[offset + i];
+      if (byte < 0x20 || byte > 0x7e) {
+        return null;
+      }
+      type += String.fromCharCode(byte);
+    }
+    return type;
+  }
+
+  // Syncsafe size: 7 bits per byte, plus a 10-byte footer when flagged
+  private static id3Length(data: Uint8Array): number {
+    if (data.length < 10 || data[0] !== 0x49 || data[1] !== 0x44 || data[2] !== 0x33) {
+      return 0;
+    }
+    const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+    const footer = (data[5] & 0x10) !== 0 ? 10 : 0;
+    return Math.min(data.length, 10 + size + footer);
+  }
+
+  // 12-bit sync word and layer 0
+  private static isAdtsSync(data: Uint8Array, offset: number): boolean {
+    return data[offset] === 0xff && (data[offset + 1] & 0xf6) === 0xf0;
+  }
+
+  private static isMpegAudioSync(data: Uint8Array, offset: number): boolean {
+    return data[offset] === 0xff && (data[offset + 1] & 0xe0) === 0xe0;
+  }
+
+  private static isAc3Sync(data: Uint8Array, offset: number): boolean {
+    return data[offset] === 0x0b && data[offset + 1] === 0x77;
+  }
+
+  private static looksLikeDocument(data: Uint8Array): boolean {
+    const head = new TextDecoder().decode(data.subarray(0, 64)).trimStart();
+    return head.startsWith('<') || head.startsWith('{') || head.startsWith('[');
+  }
+}
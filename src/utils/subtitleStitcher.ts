@@ -0,0 +1,153 @@
+import { SubtitleFormat } from '../types';
+
+const MPEGTS_CLOCK = 90000;
+const TIMESTAMP_ROLLOVER = 8589934592; // 2^33
+
+interface SubtitleCue {
+  start: number;
+  end: number;
+  settings: string;
+  text: string;
+}
+
+// X-TIMESTAMP-MAP: the cue time LOCAL (seconds) plays at the 90kHz media timestamp MPEGTS
+interface TimestampMap {
+  mpegts: number;
+  local: number;
+}
+
+export interface SubtitleTiming {
+  // Media timestamp shown at 0:00 of the output; places cues of segments that have a timestamp map
+  startPts?: number;
+  // Playlist time in seconds shown at 0:00; places cues when there is no usable timestamp map
+  startTime: number;
+  // Length of the output in seconds, later cues are dropped
+  duration?: number;
+}
+
+// Joins WebVTT subtitle segments into one file on the output's timeline
+export class SubtitleStitcher {
+  static stitch(segments: string[], timing: SubtitleTiming, format: SubtitleFormat): string {
+    const cues: SubtitleCue[] = [];
+    const seen = new Set<string>();
+
+    for (const segment of segments) {
+      const { cues: parsed, timestampMap } = this.parseWebVtt(segment);
+      const offset = timestampMap && timing.startPts !== undefined
+        ? this.ptsDifference(timestampMap.mpegts, timing.startPts) / MPEGTS_CLOCK - timestampMap.local
+        : -timing.startTime;
+
+      for (const cue of parsed) {
+        const start = Math.max(0, cue.start + offset);
+        const end = Math.min(timing.duration ?? Infinity, cue.end + offset);
+        if (end <= start) continue;
+
+        // Cues that cross a segment boundary are repeated in both segments
+        const key = `${start.toFixed(3)}|${end.toFixed(3)}|${cue.text}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        cues.push({ ...cue, start, end });
+      }
+    }
+
+    cues.sort((a, b) => a.start - b.start);
+    return format === 'srt' ? this.toSrt(cues) : this.toWebVtt(cues);
+  }
+
+  private static parseWebVtt(content: string): { cues: SubtitleCue[]; timestampMap?: TimestampMap } {
+    const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+    if (!blocks[0].startsWith('WEBVTT')) {
+      throw new Error('Subtitle segment is not a WebVTT file');
+    }
+
+    const mapLine = blocks[0].match(/X-TIMESTAMP-MAP=(.*)/);
+    const timestampMap = mapLine ? this.parseTimestampMap(mapLine[1]) : undefined;
+
+    const cues: SubtitleCue[] = [];
+    for (const block of blocks.slice(1)) {
+      const lines = block.split('\n');
+      // The timing line is first, or second after a cue identifier; NOTE, STYLE and REGION blocks have none
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      if (timingIndex < 0 || timingIndex > 1) continue;
+
+      const match = lines[timingIndex].match(/^\s*(\S+)\s+-->\s+(\S+)(.*)$/);
+      const text = lines.slice(timingIndex + 1).join('\n').trim();
+      if (!match || !text) continue;
+
+      cues.push({
+        start: this.parseTimestamp(match[1]),
+        end: this.parseTimestamp(match[2]),
+        settings: match[3].trim(),
+        text
+      });
+    }
+
+    return { cues, timestampMap };
+  }
+
+  // "MPEGTS:900000,LOCAL:00:00:00.000", in either order
+  private static parseTimestampMap(value: string): TimestampMap | undefined {
+    let mpegts: number | undefined;
+    let local: number | undefined;
+
+    for (const part of value.split(',')) {
+      const separator = part.indexOf(':');
+      const name = part.substring(0, separator).trim().toUpperCase();
+      const field = part.substring(separator + 1).trim();
+      if (name === 'MPEGTS') {
+        mpegts = parseInt(field);
+      } else if (name === 'LOCAL') {
+        local = this.parseTimestamp(field);
+      }
+    }
+
+    return mpegts !== undefined && !isNaN(mpegts) && local !== undefined ? { mpegts, local } : undefined;
+  }
+
+  // "hh:mm:ss.ttt" or "mm:ss.ttt"
+  static parseTimestamp(value: string): number {
+    const match = value.trim().match(/^(?:(\d+):)?(\d{2}):(\d{2})[.,](\d{3})$/);
+    if (!match) {
+      throw new Error(`Invalid WebVTT timestamp "${value}"`);
+    }
+    return parseInt(match[1] ?? '0') * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]) + parseInt(match[4]) / 1000;
+  }
+
+  static formatTimestamp(seconds: number, separator: '.' | ','): string {
+    const totalMs = Math.round(seconds * 1000);
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+  }
+
+  private static toWebVtt(cues: SubtitleCue[]): string {
+    const blocks = cues.map(cue =>
+      `${this.formatTimestamp(cue.start, '.')} --> ${this.formatTimestamp(cue.end, '.')}${cue.settings ? ` ${cue.settings}` : ''}\n${cue.text}`
+    );
+    return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+  }
+
+  // SRT has no cue settings and only understands the b, i and u tags
+  private static toSrt(cues: SubtitleCue[]): string {
+    return cues.map((cue, index) => {
+      const text = cue.text
+        .replace(/<(?!\/?[biu]>)[^>]*>/g, '')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&');
+      return `${index + 1}\n${this.formatTimestamp(cue.start, ',')} --> ${this.formatTimestamp(cue.end, ',')}\n${text}\n`;
+    }).join('\n');
+  }
+
+  // Difference of two 33-bit timestamps, allowing for one wraparound between them
+  private static ptsDifference(timestamp: number, reference: number): number {
+    let difference = timestamp - reference;
+    if (difference > TIMESTAMP_ROLLOVER / 2) difference -= TIMESTAMP_ROLLOVER;
+    if (difference < -TIMESTAMP_ROLLOVER / 2) difference += TIMESTAMP_ROLLOVER;
+    return difference;
+  }
+}
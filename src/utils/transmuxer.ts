@@ -0,0 +1,307 @@
+import { DemuxedSegment, ExternalAudioTrack, MediaSample } from '../types';
+import { Mp4Muxer, Mp4Sample, Mp4Track, Mp4TrackFragment } from './mp4Muxer';
+import { TsDemuxer } from './tsDemuxer';
+
+const VIDEO_TIMESCALE = 90000;
+const DEFAULT_FRAME_DURATION = 3000;
+const MAX_FRAME_DURATION = VIDEO_TIMESCALE * 10;
+const TIMESTAMP_ROLLOVER = 8589934592; // 2^33
+
+interface TransmuxerOptions {
+  duration?: number;
+  // Clip bounds in seconds from the start of the first pushed segment
+  trimStart?: number;
+  trimEnd?: number;
+  // Replaces the audio carried in the pushed segments
+  externalAudio?: ExternalAudioTrack;
+  // Writes an M4A with just the audio track; video packets are never reassembled
+  audioOnly?: boolean;
+}
+
+// Converts MPEG-TS segments into a fragmented MP4, one moof/mdat per pushed segment
+export class Transmuxer {
+  private demuxer: TsDemuxer;
+  private videoTrack: Mp4Track | null = null;
+  private audioTrack: Mp4Track | null = null;
+  private initialized = false;
+  private sequenceNumber = 1;
+  private baseTime: number | null = null;
+  private lastVideoDts: number | null = null;
+  private lastAudioPts: number | null = null;
+  private pendingVideoSample: MediaSample | null = null;
+  private lastVideoDuration = DEFAULT_FRAME_DURATION;
+  private nextAudioDecodeTime: number | null = null;
+  private videoStarted = false;
+  private videoEnded = false;
+  private externalAudio: MediaSample[] | null = null;
+  private externalAudioCursor = 0;
+
+  constructor(private options: TransmuxerOptions = {}) {
+    this.demuxer = new TsDemuxer({ audioOnly: options.audioOnly });
+  }
+
+  get tracks(): Mp4Track[] {
+    return [this.videoTrack, this.audioTrack].filter((track): track is Mp4Track => track !== null);
+  }
+
+  push(segment: Uint8Array): Uint8Array[] {
+    return this.process(this.demuxer.demux(segment));
+  }
+
+  // Media timestamp that plays at 0:00 of the output, once the first segment has been pushed
+  get startPts(): number | null {
+    return this.baseTime === null ? null : this.baseTime + (this.options.trimStart ?? 0) * VIDEO_TIMESCALE;
+  }
+
+  flush(): Uint8Array[] {
+    const fragments: Mp4TrackFragment[] = [];
+
+    if (this.pendingVideoSample && this.videoTrack) {
+      const sample = this.pendingVideoSample;
+      this.pendingVideoSample = null;
+      fragments.push({
+        track: this.videoTrack,
+        baseMediaDecodeTime: sample.dts - this.baseTime!,
+        samples: [this.toMp4Sample(sample, this.lastVideoDuration)]
+      });
+    }
+    if (this.externalAudio) {
+      const remaining = this.trimAudio(this.takeExternalAudio(Infinity));
+      if (remaining.length > 0) {
+        fragments.push(this.createAudioFragment(remaining));
+      }
+    }
+
+    const fragment = Mp4Muxer.createFragment(this.sequenceNumber, fragments);
+    if (fragment.length === 0) {
+      return [];
+    }
+    this.sequenceNumber++;
+    return [fragment];
+  }
+
+  // Probes the first timestamp of a segment that is written without transmuxing
+  static probeStartPts(segment: Uint8Array): number | null {
+    const demuxed = new TsDemuxer().demux(segment);
+    const times = [demuxed.videoSamples[0]?.dts, demuxed.audioSamples[0]?.pts].filter((time): time is number => time !== undefined);
+    return times.length > 0 ? Math.min(...times) : null;
+  }
+
+  private process(demuxed: DemuxedSegment): Uint8Array[] {
+    const output: Uint8Array[] = [];
+
+    if (!this.initialized) {
+      if (!this.initialize(demuxed)) {
+        return output;
+      }
+      output.push(Mp4Muxer.createInitSegment(this.tracks, this.options.duration));
+    }
+
+    const fragments: Mp4TrackFragment[] = [];
+
+    if (this.videoTrack && demuxed.videoSamples.length > 0 && !this.videoEnded) {
+      const fragment = this.createVideoFragment(demuxed.videoSamples);
+      if (fragment) fragments.push(fragment);
+    }
+    const audioSamples = !this.audioTrack ? []
+      : this.externalAudio ? this.trimAudio(this.takeExternalAudio(this.lastVideoDts ?? Infinity))
+      : this.trimAudio(this.unwrapAudio(demuxed.audioSamples));
+    if (audioSamples.length > 0) {
+      fragments.push(this.createAudioFragment(audioSamples));
+    }
+
+    const fragment = Mp4Muxer.createFragment(this.sequenceNumber, fragments);
+    if (fragment.length > 0) {
+      this.sequenceNumber++;
+      output.push(fragment);
+    }
+    return output;
+  }
+
+  private initialize(demuxed: DemuxedSegment): boolean {
+    const external = this.options.externalAudio;
+    const audio = external ? external.info : demuxed.audio;
+    if (!demuxed.video && !audio) {
+      return false;
+    }
+
+    // Both tracks share one zero point so audio/video sync is preserved. External audio
+    // usually starts on an earlier segment boundary, so only the video decides it then
+    const firstTimes = [
+      demuxed.videoSamples[0]?.dts,
+      external ? (demuxed.video ? undefined : external.samples[0]?.pts) : demuxed.audioSamples[0]?.pts
+    ].filter((time): time is number => time !== undefined);
+    if (firstTimes.length === 0) {
+      return false;
+    }
+
+    let trackId = 1;
+    if (demuxed.video) {
+      this.videoTrack = { id: trackId++, type: 'video', timescale: VIDEO_TIMESCALE, video: demuxed.video };
+    }
+    if (audio) {
+      this.audioTrack = { id: trackId++, type: 'audio', timescale: audio.sampleRate, audio };
+    }
+
+    this.baseTime = Math.min(...firstTimes);
+    this.initialized = true;
+    if (external) {
+      this.externalAudio = this.unwrapAudio(external.samples).filter(sample => sample.pts >= this.baseTime!);
+    }
+
+    // The edit list makes playback start exactly at the clip start even though the
+    // output has to begin on the keyframe before it
+    const trimStart = this.options.trimStart;
+    if (trimStart !== undefined && trimStart > 0) {
+      for (const track of this.tracks) {
+        track.editStart = trimStart * track.timescale;
+      }
+    }
+    return true;
+  }
+
+  private get trimStartTime(): number | null {
+    return this.options.trimStart ? this.baseTime! + this.options.trimStart * VIDEO_TIMESCALE : null;
+  }
+
+  private get trimEndTime(): number | null {
+    return this.options.trimEnd !== undefined ? this.baseTime! + this.options.trimEnd * VIDEO_TIMESCALE : null;
+  }
+
+  // Drops whole GOPs before the clip start and everything from the first keyframe after its end
+  private trimVideo(samples: MediaSample[]): MediaSample[] {
+    let trimmed = samples;
+
+    const startTime = this.trimStartTime;
+    if (!this.videoStarted && startTime !== null) {
+      let firstKept = 0;
+      trimmed.forEach((sample, index) => {
+        if (sample.keyframe && sample.pts <= startTime) firstKept = index;
+      });
+      trimmed = trimmed.slice(firstKept);
+    }
+    if (trimmed.length > 0) {
+      this.videoStarted = true;
+    }
+
+    const endTime = this.trimEndTime;
+    if (endTime !== null) {
+      const cut = trimmed.findIndex(sample => sample.keyframe && sample.pts >= endTime);
+      if (cut !== -1) {
+        this.videoEnded = true;
+        trimmed = trimmed.slice(0, cut);
+      }
+    }
+    return trimmed;
+  }
+
+  private trimAudio(samples: MediaSample[]): MediaSample[] {
+    const startTime = this.trimStartTime;
+    const endTime = this.trimEndTime;
+    const frameTicks = VIDEO_TIMESCALE * this.audioTrack!.audio!.samplesPerFrame / this.audioTrack!.audio!.sampleRate;
+
+    return samples.filter(sample =>
+      (startTime === null || sample.pts + frameTicks > startTime) &&
+      (endTime === null || sample.pts < endTime)
+    );
+  }
+
+  // External audio is interleaved up to the last video timestamp written so far
+  private takeExternalAudio(until: number): MediaSample[] {
+    const audio = this.externalAudio!;
+    const from = this.externalAudioCursor;
+    while (this.externalAudioCursor < audio.length && audio[this.externalAudioCursor].pts <= until) {
+      this.externalAudioCursor++;
+    }
+    return audio.slice(from, this.externalAudioCursor);
+  }
+
+  private createVideoFragment(samples: MediaSample[]): Mp4TrackFragment | null {
+    const ordered: MediaSample[] = [];
+    if (this.pendingVideoSample) {
+      ordered.push(this.pendingVideoSample);
+    }
+
+    const unwrapped = samples.map(sample => {
+      const dts = Transmuxer.unwrap(sample.dts, this.lastVideoDts ?? this.baseTime!);
+      const pts = Transmuxer.unwrap(sample.pts, dts);
+      this.lastVideoDts = dts;
+      return { ...sample, dts, pts };
+    });
+    ordered.push(...this.trimVideo(unwrapped));
+
+    // Hold back the last sample: its duration is only known once the next segment arrives
+    this.pendingVideoSample = ordered.pop() ?? null;
+    if (ordered.length === 0) {
+      return null;
+    }
+
+    const mp4Samples = ordered.map((sample, index) => {
+      const next = ordered[index + 1] ?? this.pendingVideoSample;
+      let duration = next ? next.dts - sample.dts : this.lastVideoDuration;
+      if (duration <= 0 || duration > MAX_FRAME_DURATION) {
+        duration = this.lastVideoDuration;
+      }
+      this.lastVideoDuration = duration;
+      return this.toMp4Sample(sample, duration);
+    });
+
+    return {
+      track: this.videoTrack!,
+      baseMediaDecodeTime: ordered[0].dts - this.baseTime!,
+      samples: mp4Samples
+    };
+  }
+
+  private unwrapAudio(samples: MediaSample[]): MediaSample[] {
+    return samples.map(sample => {
+      const pts = Transmuxer.unwrap(sample.pts, this.lastAudioPts ?? this.baseTime!);
+      this.lastAudioPts = pts;
+      return { ...sample, pts, dts: pts };
+    });
+  }
+
+  private createAudioFragment(samples: MediaSample[]): Mp4TrackFragment {
+    const track = this.audioTrack!;
+    const audio = track.audio!;
+    const firstPts = samples[0].pts;
+
+    let decodeTime = Math.max(0, Math.round((firstPts - this.baseTime!) * audio.sampleRate / VIDEO_TIMESCALE));
+    if (this.nextAudioDecodeTime !== null) {
+      // Keep audio contiguous across segments unless there is a real gap in the stream
+      const drift = decodeTime - this.nextAudioDecodeTime;
+      if (drift < audio.samplesPerFrame * 4) {
+        decodeTime = this.nextAudioDecodeTime;
+      }
+    }
+    this.nextAudioDecodeTime = decodeTime + samples.length * audio.samplesPerFrame;
+
+    return {
+      track,
+      baseMediaDecodeTime: decodeTime,
+      samples: samples.map(sample => ({
+        data: sample.data,
+        duration: audio.samplesPerFrame,
+        keyframe: true,
+        compositionOffset: 0
+      }))
+    };
+  }
+
+  private toMp4Sample(sample: MediaSample, duration: number): Mp4Sample {
+    return {
+      data: sample.data,
+      duration,
+      keyframe: sample.keyframe,
+      compositionOffset: sample.pts - sample.dts
+    };
+  }
+
+  // Undo 33-bit PTS/DTS wraparound relative to a nearby reference timestamp
+  private static unwrap(timestamp: number, reference: number): number {
+    let value = timestamp;
+    while (value - reference > TIMESTAMP_ROLLOVER / 2) value -= TIMESTAMP_ROLLOVER;
+    while (reference - value > TIMESTAMP_ROLLOVER / 2) value += TIMESTAMP_ROLLOVER;
+    return value;
+  }
+}
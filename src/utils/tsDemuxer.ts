@@ -0,0 +1,747 @@
+import { AudioTrackInfo, DemuxedSegment, MediaSample, VideoTrackInfo } from '../types';
+import { BitReader } from './bitReader';
+
+const PACKET_SIZE = 188;
+const SYNC_BYTE = 0x47;
+
+const STREAM_TYPE_MPEG1_AUDIO = 0x03;
+const STREAM_TYPE_MPEG2_AUDIO = 0x04;
+const STREAM_TYPE_AAC = 0x0f;
+const STREAM_TYPE_H264 = 0x1b;
+const STREAM_TYPE_H265 = 0x24;
+
+// ID3 PRIV owner whose data is the 33-bit MPEG-TS timestamp of a packed audio segment's first frame
+const TIMESTAMP_OWNER = 'com.apple.streaming.transportStreamTimestamp';
+
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// MPEG audio sample rates by version (2.5, reserved, 2, 1) and bitrates in kbps by version and layer
+const MPEG_AUDIO_SAMPLE_RATES = [[11025, 12000, 8000], [], [22050, 24000, 16000], [44100, 48000, 32000]];
+const MPEG1_BITRATES = [
+  [],
+  [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448]
+];
+const MPEG2_BITRATES = [
+  [],
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256]
+];
+
+// H.264 profiles whose SPS carries chroma format and scaling list fields
+const AVC_HIGH_PROFILES = [100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135];
+
+interface PesPacket {
+  pts: number;
+  dts: number;
+  payload: Uint8Array;
+}
+
+interface AudioFrame {
+  // ADTS headers are stripped from samples, MPEG audio frames keep theirs
+  headerLength: number;
+  frameLength: number;
+}
+
+interface TsDemuxerOptions {
+  // Video packets are skipped without being buffered
+  audioOnly?: boolean;
+}
+
+interface ParameterSets {
+  vps: Uint8Array[];
+  sps: Uint8Array[];
+  pps: Uint8Array[];
+}
+
+export class TsDemuxer {
+  private pmtPid = -1;
+  private videoPid = -1;
+  private audioPid = -1;
+  private videoCodec: 'avc' | 'hevc' | null = null;
+  private audioCodec: AudioTrackInfo['codec'] | null = null;
+  private pesBuffers = new Map<number, Uint8Array[]>();
+  private parameterSets: ParameterSets = { vps: [], sps: [], pps: [] };
+  private videoTrack: VideoTrackInfo | null = null;
+  private audioTrack: AudioTrackInfo | null = null;
+  private seenKeyframe = false;
+  private audioRemainder: Uint8Array | null = null;
+  private nextAudioPts = -1;
+  private videoSamples: MediaSample[] = [];
+  private audioSamples: MediaSample[] = [];
+
+  constructor(private options: TsDemuxerOptions = {}) {}
+
+  static isTransportStream(data: Uint8Array): boolean {
+    return this.findSyncOffset(data, 0) >= 0;
+  }
+
+  demux(data: Uint8Array): DemuxedSegment {
+    if (TsDemuxer.isPackedAudio(data)) {
+      this.demuxPackedAudio(data);
+      return this.takeResult();
+    }
+
+    let offset = TsDemuxer.findSyncOffset(data, 0);
+    if (offset < 0) {
+      throw new Error('Segment is not an MPEG-TS stream (no sync byte found)');
+    }
+
+    while (offset + PACKET_SIZE <= data.length) {
+      if (data[offset] !== SYNC_BYTE) {
+        // Lost packet alignment, look for the next run of sync bytes
+        offset = TsDemuxer.findSyncOffset(data, offset + 1);
+        if (offset < 0) break;
+        continue;
+      }
+      this.parsePacket(data.subarray(offset, offset + PACKET_SIZE));
+      offset += PACKET_SIZE;
+    }
+
+    // Segments end on a PES boundary, so anything still buffered is complete
+    for (const pid of [...this.pesBuffers.keys()]) {
+      this.flushPes(pid);
+    }
+    return this.takeResult();
+  }
+
+  // Packed audio segments (RFC 8216 3.4) start with an ID3 tag or directly with an ADTS or MPEG audio frame
+  static isPackedAudio(data: Uint8Array): boolean {
+    const start = this.id3Length(data);
+    return start + 4 <= data.length && data[start] === 0xff && (data[start + 1] & 0xe0) === 0xe0;
+  }
+
+  // The whole segment is one run of audio frames; without a timestamp it continues where the last one ended
+  private demuxPackedAudio(data: Uint8Array): void {
+    const id3Length = TsDemuxer.id3Length(data);
+    const payload = data.subarray(id3Length);
+    if (!this.audioCodec) {
+      this.audioCodec = TsDemuxer.adtsFrame(payload, 0) ? 'aac' : 'mp3';
+    }
+    const pts = TsDemuxer.id3Timestamp(data.subarray(0, id3Length)) ?? (this.nextAudioPts >= 0 ? -1 : 0);
+    this.handleAudioPes({ pts, dts: pts, payload });
+  }
+
+  private takeResult(): DemuxedSegment {
+    const result: DemuxedSegment = {
+      video: this.videoTrack,
+      audio: this.audioTrack,
+      videoSamples: this.videoSamples,
+      audioSamples: this.audioSamples
+    };
+    this.videoSamples = [];
+    this.audioSamples = [];
+    return result;
+  }
+
+  // Syncsafe size: 7 bits per byte, plus a 10-byte footer when flagged
+  private static id3Length(data: Uint8Array): number {
+    if (data.length < 10 || data[0] !== 0x49 || data[1] !== 0x44 || data[2] !== 0x33) {
+      return 0;
+    }
+    const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+    const footer = (data[5] & 0x10) !== 0 ? 10 : 0;
+    return Math.min(data.length, 10 + size + footer);
+  }
+
+  // Looks for the PRIV frame carrying the timestamp among the tag's frames
+  private static id3Timestamp(tag: Uint8Array): number | null {
+    const decoder = new TextDecoder('latin1');
+    let offset = 10;
+    while (offset + 10 <= tag.length) {
+      const id = decoder.decode(tag.subarray(offset, offset + 4));
+      const size = (tag[offset + 4] << 24 | tag[offset + 5] << 16 | tag[offset + 6] << 8 | tag[offset + 7]) >>> 0;
+      if (!/^[A-Z0-9]{4}$/.test(id) || size === 0) {
+        return null;
+      }
+      const body = tag.subarray(offset + 10, offset + 10 + size);
+      const ownerEnd = body.indexOf(0);
+      if (id === 'PRIV' && ownerEnd >= 0 && decoder.decode(body.subarray(0, ownerEnd)) === TIMESTAMP_OWNER && body.length >= ownerEnd + 9) {
+        const timestamp = body.subarray(ownerEnd + 1, ownerEnd + 9);
+        return (timestamp[3] & 0x01) * 0x100000000 +
+          ((timestamp[4] << 24 | timestamp[5] << 16 | timestamp[6] << 8 | timestamp[7]) >>> 0);
+      }
+      offset += 10 + size;
+    }
+    return null;
+  }
+
+  private static findSyncOffset(data: Uint8Array, from: number): number {
+    for (let i = from; i < Math.min(data.length, from + PACKET_SIZE * 4); i++) {
+      if (data[i] === SYNC_BYTE && (i + PACKET_SIZE >= data.length || data[i + PACKET_SIZE] === SYNC_BYTE)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private parsePacket(packet: Uint8Array): void {
+    const payloadUnitStart = (packet[1] & 0x40) !== 0;
+    const pid = ((packet[1] & 0x1f) << 8) | packet[2];
+    const adaptationControl = (packet[3] >> 4) & 0x03;
+
+    let offset = 4;
+    if (adaptationControl & 0x02) {
+      offset += 1 + packet[4];
+    }
+    if (!(adaptationControl & 0x01) || offset >= PACKET_SIZE) {
+      return;
+    }
+
+    const payload = packet.subarray(offset);
+
+    if (pid === 0) {
+      if (payloadUnitStart) this.parsePat(payload);
+      return;
+    }
+    if (pid === this.pmtPid) {
+      if (payloadUnitStart) this.parsePmt(payload);
+      return;
+    }
+    if (pid !== this.videoPid && pid !== this.audioPid) {
+      return;
+    }
+
+    if (payloadUnitStart) {
+      this.flushPes(pid);
+      this.pesBuffers.set(pid, []);
+    }
+    // Payload continuing a PES whose start we never saw is dropped
+    this.pesBuffers.get(pid)?.push(payload);
+  }
+
+  private parsePat(payload: Uint8Array): void {
+    const section = payload.subarray(1 + payload[0]);
+    const sectionLength = ((section[1] & 0x0f) << 8) | section[2];
+    const end = Math.min(3 + sectionLength - 4, section.length);
+
+    for (let i = 8; i + 4 <= end; i += 4) {
+      const programNumber = (section[i] << 8) | section[i + 1];
+      if (programNumber !== 0) {
+        this.pmtPid = ((section[i + 2] & 0x1f) << 8) | section[i + 3];
+        return;
+      }
+    }
+  }
+
+  private parsePmt(payload: Uint8Array): void {
+    const section = payload.subarray(1 + payload[0]);
+    const sectionLength = ((section[1] & 0x0f) << 8) | section[2];
+    const programInfoLength = ((section[10] & 0x0f) << 8) | section[11];
+    const end = Math.min(3 + sectionLength - 4, section.length);
+
+    for (let i = 12 + programInfoLength; i + 5 <= end;) {
+      const streamType = section[i];
+      const pid = ((section[i + 1] & 0x1f) << 8) | section[i + 2];
+      const esInfoLength = ((section[i + 3] & 0x0f) << 8) | section[i + 4];
+
+      if (this.videoPid < 0 && !this.options.audioOnly && (streamType === STREAM_TYPE_H264 || streamType === STREAM_TYPE_H265)) {
+        this.videoPid = pid;
+        this.videoCodec = streamType === STREAM_TYPE_H264 ? 'avc' : 'hevc';
+      } else if (this.audioPid < 0 && (streamType === STREAM_TYPE_AAC || streamType === STREAM_TYPE_MPEG1_AUDIO || streamType === STREAM_TYPE_MPEG2_AUDIO)) {
+        this.audioPid = pid;
+        this.audioCodec = streamType === STREAM_TYPE_AAC ? 'aac' : 'mp3';
+      }
+
+      i += 5 + esInfoLength;
+    }
+  }
+
+  private flushPes(pid: number): void {
+    const chunks = this.pesBuffers.get(pid);
+    this.pesBuffers.delete(pid);
+    if (!chunks || chunks.length === 0) {
+      return;
+    }
+
+    const pes = TsDemuxer.parsePes(TsDemuxer.concat(chunks));
+    if (!pes) {
+      return;
+    }
+
+    if (pid === this.videoPid) {
+      this.handleVideoPes(pes);
+    } else if (pid === this.audioPid) {
+      this.handleAudioPes(pes);
+    }
+  }
+
+  private static parsePes(data: Uint8Array): PesPacket | null {
+    if (data.length < 9 || data[0] !== 0 || data[1] !== 0 || data[2] !== 1) {
+      return null;
+    }
+
+    const timestampFlags = data[7] >> 6;
+    const headerLength = data[8];
+    let pts = -1;
+    let dts = -1;
+
+    if (timestampFlags & 0x02) {
+      pts = this.readTimestamp(data, 9);
+      dts = timestampFlags === 0x03 ? this.readTimestamp(data, 14) : pts;
+    }
+
+    return { pts, dts, payload: data.subarray(9 + headerLength) };
+  }
+
+  // 33-bit PTS/DTS spread over 5 bytes with marker bits; multiplication keeps it exact beyond 32 bits
+  private static readTimestamp(data: Uint8Array, offset: number): number {
+    return (data[offset] & 0x0e) * 536870912 +
+      data[offset + 1] * 4194304 +
+      (data[offset + 2] & 0xfe) * 16384 +
+      data[offset + 3] * 128 +
+      (data[offset + 4] & 0xfe) / 2;
+  }
+
+  private handleVideoPes(pes: PesPacket): void {
+    const sampleUnits: Uint8Array[] = [];
+    let keyframe = false;
+
+    for (const unit of TsDemuxer.splitNalUnits(pes.payload)) {
+      if (this.videoCodec === 'avc') {
+        const type = unit[0] & 0x1f;
+        if (type === 7) this.storeParameterSet('sps', unit);
+        else if (type === 8) this.storeParameterSet('pps', unit);
+        else if (type !== 9) {
+          if (type === 5) keyframe = true;
+          sampleUnits.push(unit);
+        }
+      } else {
+        const type = (unit[0] >> 1) & 0x3f;
+        if (type === 32) this.storeParameterSet('vps', unit);
+        else if (type === 33) this.storeParameterSet('sps', unit);
+        else if (type === 34) this.storeParameterSet('pps', unit);
+        else if (type !== 35) {
+          if (type >= 16 && type <= 23) keyframe = true;
+          sampleUnits.push(unit);
+        }
+      }
+    }
+
+    if (!this.videoTrack) {
+      this.videoTrack = this.createVideoTrack();
+    }
+    if (sampleUnits.length === 0 || !this.videoTrack) {
+      return;
+    }
+
+    const data = TsDemuxer.toLengthPrefixed(sampleUnits);
+
+    if (pes.pts < 0) {
+      // A PES without timestamps continues the previous access unit
+      const previous = this.videoSamples[this.videoSamples.length - 1];
+      if (previous) {
+        previous.data = TsDemuxer.concat([previous.data, data]);
+      }
+      return;
+    }
+
+    // Decoders need an IDR/IRAP picture before anything else
+    if (!this.seenKeyframe && !keyframe) {
+      return;
+    }
+    this.seenKeyframe = true;
+
+    this.videoSamples.push({ data, pts: pes.pts, dts: pes.dts, keyframe });
+  }
+
+  private storeParameterSet(kind: keyof ParameterSets, unit: Uint8Array): void {
+    const existing = this.parameterSets[kind];
+    if (!existing.some(stored => TsDemuxer.equals(stored, unit))) {
+      existing.push(unit.slice());
+    }
+  }
+
+  private createVideoTrack(): VideoTrackInfo | null {
+    const { vps, sps, pps } = this.parameterSets;
+    if (sps.length === 0 || pps.length === 0) {
+      return null;
+    }
+
+    try {
+      if (this.videoCodec === 'avc') {
+        return TsDemuxer.createAvcTrack(sps, pps);
+      }
+      if (vps.length > 0) {
+        return TsDemuxer.createHevcTrack(vps, sps, pps);
+      }
+    } catch (error) {
+      console.warn('Failed to parse video parameter sets:', error);
+    }
+    return null;
+  }
+
+  private static createAvcTrack(sps: Uint8Array[], pps: Uint8Array[]): VideoTrackInfo {
+    const { width, height } = this.parseAvcSps(sps[0]);
+    const config: number[] = [1, sps[0][1], sps[0][2], sps[0][3], 0xff, 0xe0 | sps.length];
+
+    for (const unit of sps) {
+      config.push(unit.length >> 8, unit.length & 0xff, ...unit);
+    }
+    config.push(pps.length);
+    for (const unit of pps) {
+      config.push(unit.length >> 8, unit.length & 0xff, ...unit);
+    }
+
+    const profile = [sps[0][1], sps[0][2], sps[0][3]].map(value => value.toString(16).padStart(2, '0')).join('');
+    return {
+      codec: 'avc',
+      codecString: `avc1.${profile}`,
+      width,
+      height,
+      decoderConfig: new Uint8Array(config)
+    };
+  }
+
+  private static parseAvcSps(sps: Uint8Array): { width: number; height: number } {
+    const reader = new BitReader(BitReader.toRbsp(sps.subarray(1)));
+    const profileIdc = reader.readBits(8);
+    reader.skipBits(16); // constraint flags and level_idc
+    reader.readUE(); // seq_parameter_set_id
+
+    let chromaFormatIdc = 1;
+    if (AVC_HIGH_PROFILES.includes(profileIdc)) {
+      chromaFormatIdc = reader.readUE();
+      if (chromaFormatIdc === 3) reader.skipBits(1);
+      reader.readUE(); // bit_depth_luma_minus8
+      reader.readUE(); // bit_depth_chroma_minus8
+      reader.skipBits(1);
+      if (reader.readBit()) {
+        const listCount = chromaFormatIdc !== 3 ? 8 : 12;
+        for (let i = 0; i < listCount; i++) {
+          if (reader.readBit()) this.skipScalingList(reader, i < 6 ? 16 : 64);
+        }
+      }
+    }
+
+    reader.readUE(); // log2_max_frame_num_minus4
+    const picOrderCntType = reader.readUE();
+    if (picOrderCntType === 0) {
+      reader.readUE();
+    } else if (picOrderCntType === 1) {
+      reader.skipBits(1);
+      reader.readSE();
+      reader.readSE();
+      const cycleLength = reader.readUE();
+      for (let i = 0; i < cycleLength; i++) reader.readSE();
+    }
+
+    reader.readUE(); // max_num_ref_frames
+    reader.skipBits(1);
+    const widthInMbs = reader.readUE() + 1;
+    const heightInMapUnits = reader.readUE() + 1;
+    const frameMbsOnly = reader.readBit();
+    if (!frameMbsOnly) reader.skipBits(1);
+    reader.skipBits(1); // direct_8x8_inference_flag
+
+    let cropLeft = 0, cropRight = 0, cropTop = 0, cropBottom = 0;
+    if (reader.readBit()) {
+      cropLeft = reader.readUE();
+      cropRight = reader.readUE();
+      cropTop = reader.readUE();
+      cropBottom = reader.readUE();
+    }
+
+    const cropUnitX = chromaFormatIdc === 0 || chromaFormatIdc === 3 ? 1 : 2;
+    const cropUnitY = (chromaFormatIdc === 1 ? 2 : 1) * (2 - frameMbsOnly);
+
+    return {
+      width: widthInMbs * 16 - (cropLeft + cropRight) * cropUnitX,
+      height: (2 - frameMbsOnly) * heightInMapUnits * 16 - (cropTop + cropBottom) * cropUnitY
+    };
+  }
+
+  private static skipScalingList(reader: BitReader, size: number): void {
+    let lastScale = 8;
+    let nextScale = 8;
+    for (let i = 0; i < size; i++) {
+      if (nextScale !== 0) {
+        nextScale = (lastScale + reader.readSE() + 256) % 256;
+      }
+      lastScale = nextScale === 0 ? lastScale : nextScale;
+    }
+  }
+
+  private static createHevcTrack(vps: Uint8Array[], sps: Uint8Array[], pps: Uint8Array[]): VideoTrackInfo {
+    const info = this.parseHevcSps(sps[0]);
+    const profile = info.generalProfile;
+    const config: number[] = [
+      1,
+      ...profile,
+      0xf0, 0x00, // min_spatial_segmentation_idc
+      0xfc, // parallelismType
+      0xfc | info.chromaFormatIdc,
+      0xf8 | (info.bitDepthLuma - 8),
+      0xf8 | (info.bitDepthChroma - 8),
+      0x00, 0x00, // avgFrameRate
+      ((info.maxSubLayers & 0x07) << 3) | (info.temporalIdNested << 2) | 0x03,
+      3
+    ];
+
+    const arrays: [number, Uint8Array[]][] = [[32, vps], [33, sps], [34, pps]];
+    for (const [type, units] of arrays) {
+      config.push(0x80 | type, units.length >> 8, units.length & 0xff);
+      for (const unit of units) {
+        config.push(unit.length >> 8, unit.length & 0xff, ...unit);
+      }
+    }
+
+    return {
+      codec: 'hevc',
+      codecString: this.hevcCodecString(profile),
+      width: info.width,
+      height: info.height,
+      decoderConfig: new Uint8Array(config)
+    };
+  }
+
+  private static parseHevcSps(sps: Uint8Array) {
+    const rbsp = BitReader.toRbsp(sps.subarray(2));
+    const reader = new BitReader(rbsp);
+
+    reader.skipBits(4); // sps_video_parameter_set_id
+    const maxSubLayersMinus1 = reader.readBits(3);
+    const temporalIdNested = reader.readBit();
+    // general profile_tier_level: profile space/tier/idc, compatibility flags, constraint flags, level
+    const generalProfile = Array.from(rbsp.subarray(1, 13));
+    reader.skipBits(96);
+
+    const subLayerProfilePresent: number[] = [];
+    const subLayerLevelPresent: number[] = [];
+    for (let i = 0; i < maxSubLayersMinus1; i++) {
+      subLayerProfilePresent.push(reader.readBit());
+      subLayerLevelPresent.push(reader.readBit());
+    }
+    if (maxSubLayersMinus1 > 0) {
+      reader.skipBits((8 - maxSubLayersMinus1) * 2);
+    }
+    for (let i = 0; i < maxSubLayersMinus1; i++) {
+      if (subLayerProfilePresent[i]) reader.skipBits(88);
+      if (subLayerLevelPresent[i]) reader.skipBits(8);
+    }
+
+    reader.readUE(); // sps_seq_parameter_set_id
+    const chromaFormatIdc = reader.readUE();
+    if (chromaFormatIdc === 3) reader.skipBits(1);
+
+    let width = reader.readUE();
+    let height = reader.readUE();
+    if (reader.readBit()) {
+      const subWidth = chromaFormatIdc === 1 || chromaFormatIdc === 2 ? 2 : 1;
+      const subHeight = chromaFormatIdc === 1 ? 2 : 1;
+      const left = reader.readUE();
+      const right = reader.readUE();
+      const top = reader.readUE();
+      const bottom = reader.readUE();
+      width -= (left + right) * subWidth;
+      height -= (top + bottom) * subHeight;
+    }
+
+    return {
+      width,
+      height,
+      generalProfile,
+      chromaFormatIdc,
+      bitDepthLuma: reader.readUE() + 8,
+      bitDepthChroma: reader.readUE() + 8,
+      maxSubLayers: maxSubLayersMinus1 + 1,
+      temporalIdNested
+    };
+  }
+
+  // RFC 6381 style codec string, e.g. hvc1.1.6.L93.B0
+  private static hevcCodecString(profile: number[]): string {
+    const profileSpace = ['', 'A', 'B', 'C'][profile[0] >> 6];
+    const tier = (profile[0] & 0x20) ? 'H' : 'L';
+    const profileIdc = profile[0] & 0x1f;
+
+    let compatibility = 0;
+    for (let i = 0; i < 32; i++) {
+      const bit = (profile[1 + (i >> 3)] >> (7 - (i & 7))) & 1;
+      compatibility += bit * Math.pow(2, i);
+    }
+
+    const constraints = profile.slice(5, 11);
+    while (constraints.length > 0 && constraints[constraints.length - 1] === 0) {
+      constraints.pop();
+    }
+
+    return [
+      'hvc1',
+      `${profileSpace}${profileIdc}`,
+      compatibility.toString(16),
+      `${tier}${profile[11]}`,
+      ...constraints.map(value => value.toString(16).toUpperCase())
+    ].join('.');
+  }
+
+  private handleAudioPes(pes: PesPacket): void {
+    const data = this.audioRemainder ? TsDemuxer.concat([this.audioRemainder, pes.payload]) : pes.payload;
+    // A frame carried over from the previous PES starts before this packet's PTS
+    let pts = (this.audioRemainder || pes.pts < 0) && this.nextAudioPts >= 0 ? this.nextAudioPts : pes.pts;
+    this.audioRemainder = null;
+
+    if (pts < 0) {
+      return;
+    }
+
+    const mpegAudio = this.audioCodec === 'mp3';
+    let offset = 0;
+    while (offset + 7 <= data.length) {
+      const frame = mpegAudio ? TsDemuxer.mpegAudioFrame(data, offset) : TsDemuxer.adtsFrame(data, offset);
+      if (!frame) {
+        offset++;
+        continue;
+      }
+      if (offset + frame.frameLength > data.length) {
+        break;
+      }
+
+      if (!this.audioTrack) {
+        this.audioTrack = mpegAudio ? TsDemuxer.createMpegAudioTrack(data, offset) : TsDemuxer.createAacTrack(data, offset);
+      }
+
+      this.audioSamples.push({
+        data: data.slice(offset + frame.headerLength, offset + frame.frameLength),
+        pts,
+        dts: pts,
+        keyframe: true
+      });
+
+      pts += this.audioTrack.samplesPerFrame * 90000 / this.audioTrack.sampleRate;
+      offset += frame.frameLength;
+    }
+
+    this.nextAudioPts = pts;
+    if (offset < data.length) {
+      this.audioRemainder = data.slice(offset);
+    }
+  }
+
+  private static adtsFrame(data: Uint8Array, offset: number): AudioFrame | null {
+    if (data[offset] !== 0xff || (data[offset + 1] & 0xf6) !== 0xf0) {
+      return null;
+    }
+    const headerLength = (data[offset + 1] & 0x01) ? 7 : 9;
+    const frameLength = ((data[offset + 3] & 0x03) << 11) | (data[offset + 4] << 3) | ((data[offset + 5] & 0xe0) >> 5);
+    return frameLength > headerLength ? { headerLength, frameLength } : null;
+  }
+
+  private static mpegAudioFrame(data: Uint8Array, offset: number): AudioFrame | null {
+    if (data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) {
+      return null;
+    }
+    const version = (data[offset + 1] >> 3) & 0x03;
+    const layer = (data[offset + 1] >> 1) & 0x03;
+    const bitrateIndex = (data[offset + 2] >> 4) & 0x0f;
+    const sampleRate = MPEG_AUDIO_SAMPLE_RATES[version][(data[offset + 2] >> 2) & 0x03];
+    const bitrate = (version === 3 ? MPEG1_BITRATES : MPEG2_BITRATES)[layer][bitrateIndex];
+    if (!sampleRate || !bitrate) {
+      return null;
+    }
+
+    const padding = (data[offset + 2] >> 1) & 0x01;
+    const frameLength = layer === 3
+      ? (Math.floor(12000 * bitrate / sampleRate) + padding) * 4
+      : Math.floor(TsDemuxer.mpegAudioSamplesPerFrame(version, layer) / 8 * 1000 * bitrate / sampleRate) + padding;
+    return { headerLength: 0, frameLength };
+  }
+
+  // Layer I has 384 samples per frame, layer II 1152, layer III 1152 or 576 below MPEG-1
+  private static mpegAudioSamplesPerFrame(version: number, layer: number): number {
+    if (layer === 3) return 384;
+    return layer === 1 && version !== 3 ? 576 : 1152;
+  }
+
+  private static createAacTrack(data: Uint8Array, offset: number): AudioTrackInfo {
+    const objectType = ((data[offset + 2] >> 6) & 0x03) + 1;
+    const frequencyIndex = (data[offset + 2] >> 2) & 0x0f;
+    const channelConfig = ((data[offset + 2] & 0x01) << 2) | ((data[offset + 3] >> 6) & 0x03);
+
+    return {
+      codec: 'aac',
+      codecString: `mp4a.40.${objectType}`,
+      sampleRate: AAC_SAMPLE_RATES[frequencyIndex] || 44100,
+      channelCount: channelConfig || 2,
+      samplesPerFrame: 1024,
+      // AudioSpecificConfig: object type, frequency index, channel configuration
+      decoderConfig: new Uint8Array([
+        (objectType << 3) | (frequencyIndex >> 1),
+        ((frequencyIndex & 0x01) << 7) | (channelConfig << 3)
+      ])
+    };
+  }
+
+  // MPEG audio needs no decoder configuration; MPEG-1 and the lower MPEG-2 rates have their own object types
+  private static createMpegAudioTrack(data: Uint8Array, offset: number): AudioTrackInfo {
+    const version = (data[offset + 1] >> 3) & 0x03;
+    const layer = (data[offset + 1] >> 1) & 0x03;
+
+    return {
+      codec: 'mp3',
+      codecString: version === 3 ? 'mp4a.6B' : 'mp4a.69',
+      sampleRate: MPEG_AUDIO_SAMPLE_RATES[version][(data[offset + 2] >> 2) & 0x03],
+      channelCount: ((data[offset + 3] >> 6) & 0x03) === 3 ? 1 : 2,
+      samplesPerFrame: this.mpegAudioSamplesPerFrame(version, layer),
+      decoderConfig: new Uint8Array(0)
+    };
+  }
+
+  static splitNalUnits(data: Uint8Array): Uint8Array[] {
+    const units: Uint8Array[] = [];
+    let start = -1;
+    let i = 0;
+
+    while (i + 2 < data.length) {
+      if (data[i] === 0 && data[i + 1] === 0 && data[i + 2] === 1) {
+        if (start >= 0) {
+          let end = i;
+          while (end > start && data[end - 1] === 0) end--;
+          if (end > start) units.push(data.subarray(start, end));
+        }
+        start = i + 3;
+        i += 3;
+      } else {
+        i++;
+      }
+    }
+
+    if (start >= 0 && start < data.length) {
+      units.push(data.subarray(start));
+    }
+    return units;
+  }
+
+  private static toLengthPrefixed(units: Uint8Array[]): Uint8Array {
+    const total = units.reduce((sum, unit) => sum + 4 + unit.length, 0);
+    const output = new Uint8Array(total);
+    const view = new DataView(output.buffer);
+    let offset = 0;
+
+    for (const unit of units) {
+      view.setUint32(offset, unit.length);
+      output.set(unit, offset + 4);
+      offset += 4 + unit.length;
+    }
+    return output;
+  }
+
+  static concat(chunks: Uint8Array[]): Uint8Array {
+    if (chunks.length === 1) {
+      return chunks[0];
+    }
+    const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      output.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return output;
+  }
+
+  private static equals(a: Uint8Array, b: Uint8Array): boolean {
+    return a.length === b.length && a.every((value, index) => value === b[index]);
+  }
+}
@@ -0,0 +1,68 @@
+import { M3U8Key, M3U8Playlist } from '../types';
+
+export class UrlResolver {
+  // RFC 3986 reference resolution: handles root-relative, protocol-relative, ../ and query-only URIs
+  static resolve(uri: string, baseUrl: string): string {
+    try {
+      return new URL(uri, baseUrl).href;
+    } catch {
+      throw new Error(`Cannot resolve URI "${uri}" against ${baseUrl}`);
+    }
+  }
+
+  static queryParamNames(url: string): string[] {
+    try {
+      return [...new Set(new URL(url).searchParams.keys())];
+    } catch {
+      return [];
+    }
+  }
+
+  // Copies the named query parameters of sourceUrl onto url; parameters url already has are kept
+  static forwardQueryParams(url: string, sourceUrl: string | undefined, names: string[] = []): string {
+    if (!sourceUrl || names.length === 0) {
+      return url;
+    }
+
+    const source = new URL(sourceUrl);
+    const target = new URL(url);
+    let changed = false;
+    for (const name of names) {
+      const value = source.searchParams.get(name);
+      if (value !== null && !target.searchParams.has(name)) {
+        target.searchParams.set(name, value);
+        changed = true;
+      }
+    }
+    return changed ? target.href : url;
+  }
+
+  // Signed CDNs often put the token only on the playlist URL, so segment, key and map requests need it too
+  static forwardToPlaylist(playlist: M3U8Playlist, names: string[] = []): M3U8Playlist {
+    const sourceUrl = playlist.url;
+    if (!sourceUrl || names.length === 0) {
+      return playlist;
+    }
+    return this.mapUrls(playlist, url => this.forwardQueryParams(url, sourceUrl, names));
+  }
+
+  // Rewrites every URL the download fetches: segments, keys and init sections
+  static mapUrls(playlist: M3U8Playlist, transform: (url: string) => string): M3U8Playlist {
+    const mapKey = (key?: M3U8Key) => key?.uri ? { ...key, uri: transform(key.uri) } : key;
+
+    return {
+      ...playlist,
+      segments: playlist.segments.map(segment => ({
+        ...segment,
+        uri: transform(segment.uri),
+        key: mapKey(segment.key),
+        map: segment.map && { ...segment.map, uri: transform(segment.map.uri), key: mapKey(segment.map.key) }
+      }))
+    };
+  }
+
+  // "token, Policy Signature" -> ['token', 'Policy', 'Signature']
+  static parseNames(value: string | null | undefined): string[] {
+    return [...new Set((value ?? '').split(/[\s,]+/).filter(name => name))];
+  }
+}
@@ -0,0 +1,121 @@
+import { M3U8Variant, QualityPreference } from '../types';
+
+const AUDIO_CODEC = /^(mp4a|ac-3|ec-3|opus|flac|mp3)\b/i;
+// Typical bitrates in bits per second for audio codecs whose variant does not say
+const HE_AAC_BITRATE = 64000;
+const HE_AAC_V2_BITRATE = 48000;
+const DEFAULT_AUDIO_BITRATE = 128000;
+
+export class VariantSelector {
+  static sortByBandwidth(variants: M3U8Variant[]): M3U8Variant[] {
+    return [...variants].sort((a, b) => b.bandwidth - a.bandwidth);
+  }
+
+  static select(
+    variants: M3U8Variant[],
+    preference: QualityPreference,
+    quality?: string | null
+  ): M3U8Variant {
+    if (variants.length === 0) {
+      throw new Error('No variants available to select from');
+    }
+
+    const sorted = this.sortByBandwidth(variants);
+
+    if (quality) {
+      const match = this.matchQuality(sorted, quality);
+      if (match) {
+        return match;
+      }
+      console.warn(`No variant matches quality "${quality}", falling back to ${preference}`);
+    }
+
+    return preference === 'highest' ? sorted[0] : sorted[sorted.length - 1];
+  }
+
+  // Accepts "highest", "lowest", a height such as "720p"/"720", or a bandwidth in bits per second
+  static matchQuality(variants: M3U8Variant[], quality: string): M3U8Variant | null {
+    const sorted = this.sortByBandwidth(variants);
+    const normalized = quality.trim().toLowerCase();
+
+    if (normalized === 'highest' || normalized === 'best') {
+      return sorted[0];
+    }
+    if (normalized === 'lowest' || normalized === 'worst') {
+      return sorted[sorted.length - 1];
+    }
+
+    const heightMatch = normalized.match(/^(\d{3,4})p?$/);
+    if (heightMatch) {
+      const height = parseInt(heightMatch[1]);
+      const sameHeight = sorted.filter(variant => variant.resolution?.height === height);
+      if (sameHeight.length > 0) {
+        return sameHeight[0];
+      }
+    }
+
+    const bandwidth = parseInt(normalized);
+    if (!isNaN(bandwidth) && bandwidth >= 10000) {
+      return sorted.reduce((closest, variant) =>
+        Math.abs(variant.bandwidth - bandwidth) < Math.abs(closest.bandwidth - bandwidth) ? variant : closest
+      );
+    }
+
+    return null;
+  }
+
+  static label(variant: M3U8Variant): string {
+    const parts: string[] = [];
+    if (variant.resolution) {
+      parts.push(`${variant.resolution.height}p`);
+    }
+    parts.push(this.formatBandwidth(variant.bandwidth));
+    if (variant.frameRate) {
+      parts.push(`${Math.round(variant.frameRate)} fps`);
+    }
+    return parts.join(' • ');
+  }
+
+  // Variants whose CODECS list only audio, e.g. CODECS="mp4a.40.2"
+  static isAudioOnly(variant: M3U8Variant): boolean {
+    const codecs = this.codecs(variant);
+    return codecs.length > 0 && !variant.resolution && codecs.every(codec => AUDIO_CODEC.test(codec));
+  }
+
+  static selectAudioOnly(variants: M3U8Variant[], preference: QualityPreference = 'highest'): M3U8Variant | null {
+    const audio = this.sortByBandwidth(variants).filter(variant => this.isAudioOnly(variant));
+    if (audio.length === 0) {
+      return null;
+    }
+    return preference === 'highest' ? audio[0] : audio[audio.length - 1];
+  }
+
+  // An audio-only variant's own bitrate, otherwise a typical one for the audio codec the variant lists
+  static audioBitrate(variant?: M3U8Variant | null): number {
+    if (!variant) {
+      return DEFAULT_AUDIO_BITRATE;
+    }
+    if (this.isAudioOnly(variant)) {
+      return this.bitrate(variant);
+    }
+    const codec = this.codecs(variant).find(codec => AUDIO_CODEC.test(codec))?.toLowerCase();
+    const typical = codec === 'mp4a.40.5' ? HE_AAC_BITRATE : codec === 'mp4a.40.29' ? HE_AAC_V2_BITRATE : DEFAULT_AUDIO_BITRATE;
+    return Math.min(typical, this.bitrate(variant));
+  }
+
+  // AVERAGE-BANDWIDTH is closer to the real size of the media than the peak BANDWIDTH
+  static bitrate(variant: M3U8Variant): number {
+    return variant.averageBandwidth ?? variant.bandwidth;
+  }
+
+  static formatBandwidth(bandwidth: number): string {
+    if (bandwidth >= 1000000) {
+      return `${(bandwidth / 1000000).toFixed(1)} Mbps`;
+    }
+    return `${Math.round(bandwidth / 1000)} kbps`;
+  }
+
+  private static codecs(variant: M3U8Variant): string[] {
+    return variant.codecs?.split(',').map(codec => codec.trim()).filter(Boolean) ?? [];
+  }
+}
@@ -1,92 +1,828 @@
-import { M3U8Playlist, DownloadProgress } from '../types';
+import { M3U8Playlist, DownloadEngine, DownloadProgress, DownloadOptions, DownloadResult, DownloadAttachment, ExternalAudioTrack, M3U8Rendition, M3U8Segment, OutputSink, SegmentFailure, SegmentStore, SegmentValidationIssue } from '../types';
+import { SegmentDecryptor } from './segmentDecryptor';
+import { Transmuxer } from './transmuxer';
+import { DEFAULT_SUBTITLE_FORMAT, OUTPUT_FORMATS, isAudioFormat, resolveOutputFormat } from './outputFormats';
+import { DEFAULT_CONCURRENCY, SegmentScheduler } from './segmentScheduler';
+import { DEFAULT_MAX_RETRIES, RetryPolicy, SegmentDownloadError, SegmentValidationError } from './retryPolicy';
+import { MemorySegmentStore } from './segmentStore';
+import { BlobSink } from './outputSink';
+import { ClipPlan, ClipPlanner } from './clipPlanner';
+import { M3U8Parser } from './m3u8Parser';
+import { PlaylistLoader } from './playlistLoader';
+import { UrlResolver } from './urlResolver';
+import { RelayClient } from './relayClient';
+import { MediaFetcher } from './mediaFetcher';
+import { InitSectionWriter } from './initSections';
+import { RangeMerger } from './rangeMerger';
+import { RenditionMedia, RenditionTracks } from './renditionTracks';
+import { SegmentValidator } from './segmentValidator';
+import { ProgressTracker, TransferMeter } from './progressTracker';
+import { HlsPackager } from './hlsPackager';
+import { AdtsWriter } from './adtsWriter';
 
-export class VideoDownloader {
+// Byte-level updates within segments are batched to this rate; finished segments report at once
+const PROGRESS_INTERVAL_MS = 250;
+
+interface DownloadSession {
+  playlist: M3U8Playlist;
+  clip: ClipPlan;
+  options: DownloadOptions;
+  decryptor: SegmentDecryptor;
+  // Keyed by playlist position so assembly order does not depend on completion order
+  store: SegmentStore;
+  failures: SegmentFailure[];
+  progress: ProgressTracker;
+  // Segments fetched and validated in this session, and those rejected along the way
+  checkedSegments: number;
+  validationIssues: Map<number, SegmentValidationIssue>;
+  // Output is written in playlist order as soon as the next segment is available
+  sink: OutputSink;
+  transmuxer: Transmuxer | null;
+  // Raw AAC output; M4A output uses an audio-only transmuxer instead
+  adtsWriter: AdtsWriter | null;
+  audioOnly: boolean;
+  initSections: InitSectionWriter;
+  nextWriteIndex: number;
+  writtenBytes: number;
+  writing: Promise<void>;
+  writeError: unknown;
+  // Media timestamp at 0:00 of the output, used to line up subtitles
+  startPts: number | null;
+  subtitles: RenditionMedia[];
+  // Alternate audio saved next to the video instead of muxed into it
+  attachments: DownloadAttachment[];
+}
+
+export class VideoDownloader implements DownloadEngine {
   private abortController: AbortController | null = null;
+  private runController: AbortController | null = null;
+  private session: DownloadSession | null = null;
+  private paused = false;
+  private resumeWaiter: (() => void) | null = null;
+  private stopRequested = false;
+  private stopWaiter: (() => void) | null = null;
 
+  // Segments already present in the store (e.g. from a resumed journal) are not fetched again
   async downloadM3U8(
     playlist: M3U8Playlist,
     onProgress: (progress: DownloadProgress) => void,
-    onError: (error: string) => void
-  ): Promise<Blob> {
-    this.abortController = new AbortController();
-    const segments: Uint8Array[] = [];
-    let totalBytes = 0;
-    let downloadedBytes = 0;
+    onError: (error: string) => void,
+    options: DownloadOptions = {},
+    store: SegmentStore = new MemorySegmentStore(),
+    sink?: OutputSink
+  ): Promise<DownloadResult> {
+    const format = resolveOutputFormat(playlist, options);
+    if (format === 'hls') {
+      // A package keeps every file as it is, so there is no segment store, transmuxing or gap handling
+      this.session = null;
+      this.paused = false;
+      this.abortController = new AbortController();
+      const output = sink ?? new BlobSink(OUTPUT_FORMATS[format].mimeType);
+      return new HlsPackager(options).package(playlist, output, onProgress, this.abortController.signal);
+    }
+    const decryptor = new SegmentDecryptor(options.keyOverride);
+    // Store indices refer to the clipped playlist, which re-planning a journaled job reproduces
+    const clip = ClipPlanner.plan(RelayClient.requestPlaylist(playlist, options), options.clip);
+    // fMP4 segments are already fragments and only need their init sections
+    const transmux = (format === 'mp4' || format === 'm4a') && !M3U8Parser.isFragmentedMp4(playlist);
+    this.session = null;
+    this.paused = false;
 
+    // Alternate renditions are small next to the video, so they are fetched completely up front
+    const output = sink ?? new BlobSink(OUTPUT_FORMATS[format].mimeType);
+    let externalAudio: ExternalAudioTrack | undefined;
+    let subtitles: RenditionMedia[];
+    const attachments: DownloadAttachment[] = [];
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
     try {
-      // First pass: get total size estimate
-      onProgress({
-        segmentIndex: 0,
-        totalSegments: playlist.segments.length,
-        downloadedBytes: 0,
-        totalBytes: 0,
-        percentage: 0
+      const audio = options.audioRendition?.uri ? await this.fetchRendition(options.audioRendition, playlist.url, options, signal) : null;
+      subtitles = await Promise.all((options.subtitleRenditions ?? [])
+        .filter(rendition => rendition.uri)
+        .map(rendition => this.fetchRendition(rendition, playlist.url, options, signal)));
+      subtitles = subtitles.filter(media => {
+        if (media.fragmented) {
+          console.warn(`Subtitle track "${media.rendition.name}" uses fMP4 segments, only WebVTT is supported`);
+        }
+        return !media.fragmented;
       });
 
-      for (let i = 0; i < playlist.segments.length; i++) {
-        if (this.abortController.signal.aborted) {
-          throw new Error('Download cancelled');
+      if (audio) {
+        const wantsMux = (options.audioMode ?? 'mux') === 'mux';
+        if (wantsMux && transmux && RenditionTracks.canMux(audio)) {
+          externalAudio = RenditionTracks.toExternalAudio(audio);
+        } else {
+          if (wantsMux) {
+            console.warn('Audio track cannot be muxed into this output, saving it as a separate file');
+          }
+          attachments.push(RenditionTracks.audioAttachment(audio));
         }
+      }
+    } catch (error) {
+      await output.abort();
+      throw signal.aborted ? new Error('Download cancelled') : error;
+    }
 
-        const segment = playlist.segments[i];
-        
-        try {
-          const response = await fetch(segment.uri, {
-            signal: this.abortController.signal,
-            mode: 'cors'
-          });
+    this.session = {
+      playlist: clip.playlist,
+      clip,
+      options,
+      decryptor,
+      store,
+      failures: [],
+      progress: new ProgressTracker(clip.playlist, options.bandwidth),
+      checkedSegments: 0,
+      validationIssues: new Map(),
+      sink: output,
+      transmuxer: transmux
+        ? new Transmuxer({
+          duration: clip.duration,
+          trimStart: clip.trimStart,
+          trimEnd: clip.trimEnd,
+          externalAudio,
+          audioOnly: format === 'm4a'
+        })
+        : null,
+      adtsWriter: format === 'aac' ? new AdtsWriter() : null,
+      audioOnly: isAudioFormat(format),
+      initSections: new InitSectionWriter(decryptor, options.maxRetries ?? DEFAULT_MAX_RETRIES),
+      nextWriteIndex: 0,
+      writtenBytes: 0,
+      writing: Promise.resolve(),
+      writeError: null,
+      startPts: null,
+      subtitles,
+      attachments
+    };
+
+    // EXT-X-GAP segments do not exist on the server and are left out of the output
+    const pending = clip.playlist.segments
+      .map((_, index) => index)
+      .filter(index => !store.storedIndices.has(index) && !clip.playlist.segments[index].gap);
+    return this.runSession(pending, onProgress, onError);
+  }
+
+  // Re-download only the segments that failed in the previous attempt
+  async retryFailedSegments(
+    onProgress: (progress: DownloadProgress) => void,
+    onError: (error: string) => void
+  ): Promise<DownloadResult> {
+    if (!this.session) {
+      throw new Error('No download to retry');
+    }
+
+    const indices = this.session.failures.map(failure => failure.index);
+    this.session.failures = [];
+    return this.runSession(indices, onProgress, onError);
+  }
+
+  // Assemble whatever was downloaded, skipping failed segments
+  async saveWithGaps(): Promise<DownloadResult> {
+    if (!this.session) {
+      throw new Error('No download to save');
+    }
+
+    const session = this.session;
+    try {
+      return await this.finish(session);
+    } catch (error) {
+      await session.sink.abort();
+      throw error;
+    }
+  }
+
+  get failedSegments(): SegmentFailure[] {
+    return this.session?.failures ?? [];
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Stops in-flight requests but keeps every finished segment; downloadM3U8 resolves after resume()
+  pause(): void {
+    if (!this.session || this.paused) {
+      return;
+    }
+    this.paused = true;
+    this.runController?.abort();
+  }
+
+  resume(): void {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    this.resumeWaiter?.();
+  }
+
+  private waitForResume(cancelSignal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onCancel = () => reject(new DOMException('Download cancelled', 'AbortError'));
+      cancelSignal.addEventListener('abort', onCancel, { once: true });
+      this.resumeWaiter = () => {
+        cancelSignal.removeEventListener('abort', onCancel);
+        this.resumeWaiter = null;
+        resolve();
+      };
+    });
+  }
+
+  private async runSession(
+    indices: number[],
+    onProgress: (progress: DownloadProgress) => void,
+    onError: (error: string) => void
+  ): Promise<DownloadResult> {
+    const session = this.session!;
+    const { playlist, options, store } = session;
+    this.abortController = new AbortController();
+    const cancelSignal = this.abortController.signal;
+    const scheduler = new SegmentScheduler(options.concurrency ?? DEFAULT_CONCURRENCY);
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const totalSegments = playlist.segments.length;
+    let lastReport = 0;
 
-          if (!response.ok) {
-            throw new Error(`Failed to download segment ${i + 1}: ${response.statusText}`);
+    const reportProgress = (force = true) => {
+      const now = Date.now();
+      if (!force && now - lastReport < PROGRESS_INTERVAL_MS) {
+        return;
+      }
+      lastReport = now;
+      onProgress(session.progress.snapshot(store.storedIndices));
+    };
+
+    // A group is one segment, or several whose byte ranges are fetched with a single request
+    const downloadGroup = async (group: number[], signal: AbortSignal) => {
+      const label = group.length === 1 ? `Segment ${group[0] + 1}` : `Segments ${group[0] + 1}-${group[group.length - 1] + 1}`;
+      const rejections: SegmentValidationError[] = [];
+      let received = 0;
+
+      try {
+        const { result } = await RetryPolicy.execute(
+          attemptSignal => this.fetchGroup(playlist.segments, group, session.decryptor, attemptSignal, true, (loaded, total) => {
+            received = loaded;
+            session.progress.received(group, loaded, total);
+            reportProgress(false);
+          }),
+          {
+            maxRetries,
+            signal,
+            onRetry: (attempt, error, delay) => {
+              if (error instanceof SegmentValidationError) {
+                rejections.push(error);
+              }
+              console.warn(`${label} failed (${error.message}), retry ${attempt}/${maxRetries} in ${delay}ms`);
+            }
           }
+        );
+
+        for (let i = 0; i < group.length; i++) {
+          await store.put(group[i], result[i]);
+        }
+        // Sizes as fetched rather than decrypted, matching the bytes counted while they were received
+        const sizes = group.length > 1
+          ? group.map(index => playlist.segments[index].byteRange!.length)
+          : [received || result[0].length];
+        session.progress.completed(group, sizes);
+        session.checkedSegments += group.length;
+        this.noteRejections(session, group, rejections, true);
+        reportProgress();
+        this.queueWrite(session);
+
+      } catch (error) {
+        session.progress.abandoned(group);
+        if (signal.aborted) {
+          throw error;
+        }
 
-          const arrayBuffer = await response.arrayBuffer();
-          const uint8Array = new Uint8Array(arrayBuffer);
-          segments.push(uint8Array);
-          
-          downloadedBytes += uint8Array.length;
-          totalBytes += uint8Array.length;
-
-          onProgress({
-            segmentIndex: i + 1,
-            totalSegments: playlist.segments.length,
-            downloadedBytes,
-            totalBytes,
-            percentage: Math.round(((i + 1) / playlist.segments.length) * 100)
+        // Record the failure and keep going; the caller decides whether to retry or save with gaps
+        const failure = RetryPolicy.classify(error);
+        if (failure instanceof SegmentValidationError) {
+          rejections.push(failure);
+        }
+        this.noteRejections(session, group, rejections, false);
+        for (const index of group) {
+          session.failures.push({
+            index,
+            uri: playlist.segments[index].uri,
+            kind: failure.kind,
+            message: failure.message,
+            attempts: failure.attempts,
+            status: failure.status
           });
+        }
+      }
+    };
 
+    try {
+      session.progress.resetSpeed();
+      reportProgress();
+      // Segments restored from a journal can be written out straight away
+      this.queueWrite(session);
+
+      for (;;) {
+        // A fresh controller per run lets pause() abort in-flight requests without cancelling
+        this.runController = new AbortController();
+        const runSignal = this.runController.signal;
+        const abortRun = () => this.runController?.abort();
+        cancelSignal.addEventListener('abort', abortRun, { once: true });
+
+        try {
+          const failed = new Set(session.failures.map(failure => failure.index));
+          const pending = indices.filter(index => !store.storedIndices.has(index) && !failed.has(index));
+          const groups = RangeMerger.group(playlist.segments, pending);
+          await scheduler.run(groups.map((_, group) => group), group => downloadGroup(groups[group], runSignal), runSignal);
+          break;
         } catch (error) {
-          if (error instanceof Error && error.name === 'AbortError') {
+          if (!this.paused || cancelSignal.aborted || session.writeError) {
             throw error;
           }
-          onError(`Error downloading segment ${i + 1}: ${error}`);
-          throw error;
+          console.log('Download paused at segment', store.storedIndices.size, 'of', totalSegments);
+          await this.waitForResume(cancelSignal);
+          session.progress.resetSpeed();
+          console.log('Download resumed');
+        } finally {
+          cancelSignal.removeEventListener('abort', abortRun);
         }
       }
 
-      // Combine all segments
-      const totalLength = segments.reduce((sum, segment) => sum + segment.length, 0);
-      const combined = new Uint8Array(totalLength);
-      let offset = 0;
-
-      for (const segment of segments) {
-        combined.set(segment, offset);
-        offset += segment.length;
+      if (session.failures.length > 0) {
+        session.failures.sort((a, b) => a.index - b.index);
+        const failureError = new SegmentDownloadError(session.failures, totalSegments);
+        onError(failureError.message);
+        throw failureError;
       }
 
-      return new Blob([combined], { type: 'video/mp4' });
+      return await this.finish(session);
 
     } catch (error) {
+      if (error instanceof SegmentDownloadError) {
+        // Keep the output open so the failed segments can still be retried or skipped
+        throw error;
+      }
+      await session.sink.abort();
+      if (session.writeError) {
+        throw session.writeError;
+      }
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error('Download cancelled');
       }
+      if (cancelSignal.aborted) {
+        throw new Error('Download cancelled');
+      }
       throw error;
     }
   }
 
+  // Records a live or EVENT playlist until stopRecording() is called or the server adds ENDLIST
+  async recordLive(
+    playlistUrl: string,
+    playlist: M3U8Playlist,
+    onProgress: (progress: DownloadProgress) => void,
+    onError: (error: string) => void,
+    options: DownloadOptions = {},
+    sink?: OutputSink
+  ): Promise<DownloadResult> {
+    const format = resolveOutputFormat(playlist, options);
+    if (format === 'hls') {
+      await sink?.abort();
+      throw new Error('Live streams cannot be exported as an HLS package; record them as MP4 or MPEG-TS instead');
+    }
+    const output = sink ?? new BlobSink(OUTPUT_FORMATS[format].mimeType);
+    const audioOnly = isAudioFormat(format);
+    const transmuxer = (format === 'mp4' || format === 'm4a') && !M3U8Parser.isFragmentedMp4(playlist)
+      ? new Transmuxer({ audioOnly: format === 'm4a' })
+      : null;
+    const adtsWriter = format === 'aac' ? new AdtsWriter() : null;
+    const decryptor = new SegmentDecryptor(options.keyOverride);
+    const scheduler = new SegmentScheduler(options.concurrency ?? DEFAULT_CONCURRENCY);
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const initSections = new InitSectionWriter(decryptor, maxRetries);
+    if (options.audioRendition?.uri || options.subtitleRenditions?.length) {
+      console.warn('Alternate audio and subtitle tracks are not recorded from live streams');
+    }
+
+    this.session = null;
+    this.paused = false;
+    this.stopRequested = false;
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
+
+    const startedAt = Date.now();
+    let current = RelayClient.requestPlaylist(playlist, options);
+    let lastSequence = -1;
+    let recordedSegments = 0;
+    let recordedDuration = 0;
+    let missedSegments = 0;
+    let downloadedBytes = 0;
+    let writtenBytes = 0;
+    let pollFailures = 0;
+    const meter = new TransferMeter();
+
+    const reportProgress = () => onProgress({
+      segmentIndex: recordedSegments,
+      totalSegments: recordedSegments,
+      downloadedBytes,
+      totalBytes: downloadedBytes,
+      percentage: 0,
+      bytesPerSecond: meter.bytesPerSecond(),
+      isLive: true,
+      elapsedSeconds: (Date.now() - startedAt) / 1000
+    });
+    // Keeps the elapsed time ticking while waiting for the next playlist refresh
+    const ticker = setInterval(reportProgress, 1000);
+
+    try {
+      for (;;) {
+        // Media sequence numbers identify segments across refreshes of the sliding window
+        const fresh = current.segments.filter(segment => segment.mediaSequence > lastSequence);
+        if (lastSequence >= 0 && fresh.length > 0 && fresh[0].mediaSequence > lastSequence + 1) {
+          const skipped = fresh[0].mediaSequence - lastSequence - 1;
+          missedSegments += skipped;
+          console.warn(`Live window moved past ${skipped} segments before they could be fetched`);
+        }
+
+        const results = new Map<number, Uint8Array>();
+        await scheduler.run(fresh.map((_, index) => index), async index => {
+          if (fresh[index].gap) {
+            return;
+          }
+          let received = 0;
+          try {
+            const { result } = await RetryPolicy.execute(
+              attemptSignal => this.fetchSegment(fresh[index], decryptor, attemptSignal, true, loaded => {
+                // A retry starts counting from zero again
+                meter.record(loaded >= received ? loaded - received : loaded);
+                received = loaded;
+              }),
+              { maxRetries, signal }
+            );
+            results.set(index, result);
+          } catch (error) {
+            if (signal.aborted) {
+              throw error;
+            }
+            // A live segment cannot be fetched later, so record the gap and carry on
+            missedSegments++;
+            console.warn(`Live segment ${fresh[index].mediaSequence} failed:`, error);
+          }
+        }, signal);
+
+        for (let index = 0; index < fresh.length; index++) {
+          const data = results.get(index);
+          if (!data) continue;
+          const init = await initSections.before(fresh[index], signal);
+          const chunks = VideoDownloader.convert(data, init, transmuxer, adtsWriter, audioOnly);
+          for (const chunk of chunks) {
+            writtenBytes += chunk.length;
+            await output.write(chunk);
+          }
+          recordedSegments++;
+          recordedDuration += fresh[index].duration;
+          downloadedBytes += data.length;
+        }
+        if (fresh.length > 0) {
+          lastSequence = fresh[fresh.length - 1].mediaSequence;
+        }
+        reportProgress();
+
+        if (current.endList || this.stopRequested) {
+          break;
+        }
+
+        // RFC 8216 6.3.4: reload after a target duration, or half of one when nothing changed
+        const targetDuration = current.targetDuration || 2;
+        await this.waitForPoll(targetDuration * (fresh.length > 0 ? 1000 : 500), signal);
+        if (this.stopRequested) {
+          break;
+        }
+
+        try {
+          const loaded = await PlaylistLoader.load(playlistUrl, options.relay);
+          current = RelayClient.requestPlaylist(M3U8Parser.parsePlaylist(loaded.content, loaded.url), options);
+          pollFailures = 0;
+        } catch (error) {
+          if (++pollFailures > maxRetries) {
+            throw error;
+          }
+          console.warn(`Live playlist refresh failed (${pollFailures}/${maxRetries}):`, error);
+        }
+      }
+
+      if (transmuxer) {
+        for (const chunk of transmuxer.flush()) {
+          writtenBytes += chunk.length;
+          await output.write(chunk);
+        }
+      }
+      VideoDownloader.checkOutput(transmuxer, adtsWriter, audioOnly);
+      if (missedSegments > 0) {
+        onError(`${missedSegments} live segments could not be recorded and are missing from the output`);
+      }
+
+      const blob = await output.close();
+      return { blob, size: writtenBytes, sinkKind: output.kind, duration: recordedDuration };
+
+    } catch (error) {
+      await output.abort();
+      if (signal.aborted) {
+        throw new Error('Download cancelled');
+      }
+      throw error;
+
+    } finally {
+      clearInterval(ticker);
+      this.stopWaiter = null;
+    }
+  }
+
+  // Finishes a live recording after the segments already being fetched
+  stopRecording(): void {
+    this.stopRequested = true;
+    this.stopWaiter?.();
+  }
+
+  private waitForPoll(delay: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+        this.stopWaiter = null;
+        resolve();
+      };
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Download cancelled', 'AbortError'));
+      };
+      const timer = setTimeout(finish, delay);
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.stopWaiter = finish;
+    });
+  }
+
+  // Rejections leading up to the outcome of a fetch, added to any from earlier runs of the same segments
+  private noteRejections(session: DownloadSession, group: number[], rejections: SegmentValidationError[], recovered: boolean): void {
+    const last = rejections[rejections.length - 1];
+    if (!last) {
+      return;
+    }
+    for (const index of group) {
+      session.validationIssues.set(index, {
+        index,
+        uri: session.playlist.segments[index].uri,
+        check: last.check,
+        message: last.message,
+        rejections: (session.validationIssues.get(index)?.rejections ?? 0) + rejections.length,
+        recovered
+      });
+    }
+  }
+
+  // Container checks run on decrypted data; subtitle segments are text and skip them
+  private async fetchSegment(
+    segment: M3U8Segment,
+    decryptor: SegmentDecryptor,
+    signal: AbortSignal,
+    validate = true,
+    onProgress?: (loaded: number, total?: number) => void
+  ): Promise<Uint8Array> {
+    const data = await MediaFetcher.fetchBytes(segment.uri, signal, segment.byteRange, onProgress);
+    return this.decryptChecked(data, segment, decryptor, signal, validate);
+  }
+
+  private async decryptChecked(
+    data: Uint8Array,
+    segment: M3U8Segment,
+    decryptor: SegmentDecryptor,
+    signal: AbortSignal,
+    validate: boolean
+  ): Promise<Uint8Array> {
+    const decrypted = await decryptor.decrypt(data, segment, signal);
+    if (validate) {
+      SegmentValidator.checkContainer(decrypted, segment);
+    }
+    return decrypted;
+  }
+
+  // Unlike a video segment, a rendition segment that cannot be fetched fails the download before it starts
+  private async fetchRendition(
+    rendition: M3U8Rendition,
+    videoPlaylistUrl: string | undefined,
+    options: DownloadOptions,
+    signal: AbortSignal
+  ): Promise<RenditionMedia> {
+    const renditionUrl = UrlResolver.forwardQueryParams(rendition.uri!, videoPlaylistUrl, options.forwardQueryParams);
+    const loaded = await PlaylistLoader.load(renditionUrl, options.relay);
+    const source = RelayClient.requestPlaylist(M3U8Parser.parsePlaylist(loaded.content, loaded.url), options);
+
+    let clip: ClipPlan;
+    try {
+      clip = ClipPlanner.plan(source, options.clip);
+    } catch {
+      // The clip lies beyond the end of this rendition, so none of it is needed
+      clip = { playlist: { ...source, segments: [], totalDuration: 0 }, trimStart: 0, start: 0, end: 0, duration: 0 };
+    }
+
+    const { segments } = clip.playlist;
+    const decryptor = new SegmentDecryptor(options.keyOverride);
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const scheduler = new SegmentScheduler(options.concurrency ?? DEFAULT_CONCURRENCY);
+    const groups = RangeMerger.group(segments, segments.map((_, index) => index).filter(index => !segments[index].gap));
+    const data: Uint8Array[] = [];
+
+    try {
+      await scheduler.run(groups.map((_, group) => group), async group => {
+        const { result } = await RetryPolicy.execute(
+          attemptSignal => this.fetchGroup(segments, groups[group], decryptor, attemptSignal, rendition.type !== 'SUBTITLES'),
+          { maxRetries, signal }
+        );
+        groups[group].forEach((index, position) => {
+          data[index] = result[position];
+        });
+      }, signal);
+    } catch (error) {
+      if (signal.aborted) {
+        throw error;
+      }
+      const kind = rendition.type === 'AUDIO' ? 'audio' : 'subtitle';
+      throw new Error(`Failed to download ${kind} track "${rendition.name}": ${error instanceof Error ? error.message : error}`);
+    }
+
+    const initSections = new InitSectionWriter(decryptor, maxRetries);
+    const chunks: Uint8Array[] = [];
+    for (let index = 0; index < segments.length; index++) {
+      if (segments[index].gap) {
+        continue;
+      }
+      const init = await initSections.before(segments[index], signal);
+      if (init) {
+        chunks.push(init);
+      }
+      chunks.push(data[index]);
+    }
+
+    console.log(`Fetched ${rendition.type.toLowerCase()} track "${rendition.name}":`, segments.length, 'segments');
+    return { rendition, clip, chunks, fragmented: M3U8Parser.isFragmentedMp4(clip.playlist) };
+  }
+
+  private async fetchGroup(
+    segments: M3U8Segment[],
+    group: number[],
+    decryptor: SegmentDecryptor,
+    signal: AbortSignal,
+    validate = true,
+    onProgress?: (loaded: number, total?: number) => void
+  ): Promise<Uint8Array[]> {
+    if (group.length === 1) {
+      return [await this.fetchSegment(segments[group[0]], decryptor, signal, validate, onProgress)];
+    }
+
+    const merged = RangeMerger.mergedRange(segments, group);
+    const data = await MediaFetcher.fetchBytes(segments[group[0]].uri, signal, merged, onProgress);
+
+    return Promise.all(group.map(index => {
+      const segment = segments[index];
+      const start = segment.byteRange!.offset - merged.offset;
+      // slice() copies, so a stored segment does not keep the whole merged buffer alive
+      return this.decryptChecked(data.slice(start, start + segment.byteRange!.length), segment, decryptor, signal, validate);
+    }));
+  }
+
+  private queueWrite(session: DownloadSession, skipGaps = false): Promise<void> {
+    session.writing = session.writing.then(() => this.writeContiguous(session, skipGaps));
+    session.writing.catch(error => {
+      // Output failures are fatal; stop fetching and let runSession report the cause
+      session.writeError ??= error;
+      this.runController?.abort();
+    });
+    return session.writing;
+  }
+
+  private async writeContiguous(session: DownloadSession, skipGaps: boolean): Promise<void> {
+    const { playlist, store } = session;
+
+    while (session.nextWriteIndex < playlist.segments.length) {
+      const index = session.nextWriteIndex;
+      if (playlist.segments[index].gap) {
+        session.nextWriteIndex++;
+        continue;
+      }
+      if (!store.storedIndices.has(index)) {
+        // Missing segments are gaps the user chose to accept
+        if (!skipGaps) {
+          return;
+        }
+        session.nextWriteIndex++;
+        continue;
+      }
+
+      const segment = await store.get(index);
+      if (segment) {
+        if (session.startPts === null && !session.transmuxer && session.subtitles.length > 0 && !playlist.segments[index].map) {
+          session.startPts = VideoDownloader.probeStartPts(segment);
+        }
+        const init = await session.initSections.before(playlist.segments[index], this.abortController!.signal);
+        const chunks = VideoDownloader.convert(segment, init, session.transmuxer, session.adtsWriter, session.audioOnly);
+        await this.writeOutput(session, chunks);
+      }
+      store.release(index);
+      session.nextWriteIndex++;
+    }
+  }
+
+  private async writeOutput(session: DownloadSession, chunks: Uint8Array[]): Promise<void> {
+    for (const chunk of chunks) {
+      // Counted first: a worker sink transfers the buffer, which leaves chunk empty
+      session.writtenBytes += chunk.length;
+      await session.sink.write(chunk);
+    }
+  }
+
+  private async finish(session: DownloadSession): Promise<DownloadResult> {
+    await this.queueWrite(session, true);
+
+    if (session.transmuxer) {
+      await this.writeOutput(session, session.transmuxer.flush());
+    }
+    VideoDownloader.checkOutput(session.transmuxer, session.adtsWriter, session.audioOnly);
+
+    const attachments = [...session.attachments, ...this.subtitleAttachments(session)];
+    const blob = await session.sink.close();
+    const validation = {
+      checkedSegments: session.checkedSegments,
+      issues: [...session.validationIssues.values()].sort((a, b) => a.index - b.index)
+    };
+    // Only a transmuxed MP4 is trimmed to the exact clip
+    const duration = session.transmuxer ? session.clip.duration : session.clip.playlist.totalDuration;
+    return { blob, size: session.writtenBytes, sinkKind: session.sink.kind, attachments, validation, duration };
+  }
+
+  // A subtitle track that cannot be stitched is left out rather than failing the finished video
+  private subtitleAttachments(session: DownloadSession): DownloadAttachment[] {
+    const { clip, transmuxer } = session;
+    const startPts = (transmuxer ? transmuxer.startPts : session.startPts) ?? undefined;
+    // A trimmed MP4 starts exactly at the clip start, other outputs at the first selected segment
+    const timing = transmuxer
+      ? { startPts, startTime: clip.start, duration: clip.duration }
+      : { startPts, startTime: clip.start - clip.trimStart, duration: clip.playlist.totalDuration };
+    const format = session.options.subtitleFormat ?? DEFAULT_SUBTITLE_FORMAT;
+
+    return session.subtitles.flatMap(media => {
+      try {
+        return [RenditionTracks.subtitleAttachment(media, timing, format)];
+      } catch (error) {
+        console.warn(`Skipping subtitle track "${media.rendition.name}":`, error);
+        return [];
+      }
+    });
+  }
+
+  // MP4 and M4A are transmuxed from MPEG-TS or packed audio and AAC is unwrapped to ADTS; fMP4 segments follow their init sections as they are
+  private static convert(
+    segment: Uint8Array,
+    init: Uint8Array | null,
+    transmuxer: Transmuxer | null,
+    adtsWriter: AdtsWriter | null,
+    audioOnly: boolean
+  ): Uint8Array[] {
+    if (transmuxer) {
+      return transmuxer.push(segment);
+    }
+    if (adtsWriter) {
+      return adtsWriter.push(segment);
+    }
+    if (audioOnly && init && InitSectionWriter.hasVideoTrack(init)) {
+      throw new Error('The fMP4 segments of this stream carry video and there is no separate audio track to save as M4A. Choose MP4 instead.');
+    }
+    return init ? [init, segment] : [segment];
+  }
+
+  private static checkOutput(transmuxer: Transmuxer | null, adtsWriter: AdtsWriter | null, audioOnly: boolean): void {
+    if (transmuxer && transmuxer.tracks.length === 0) {
+      throw new Error(audioOnly
+        ? 'No AAC or MP3 audio found to save as M4A.'
+        : 'No H.264/H.265 video or AAC/MP3 audio found to convert to MP4. Try MPEG-TS output instead.');
+    }
+    if (adtsWriter && !adtsWriter.hasAudio) {
+      throw new Error('No AAC audio found to extract.');
+    }
+  }
+
+  private static probeStartPts(segment: Uint8Array): number | null {
+    try {
+      return Transmuxer.probeStartPts(segment);
+    } catch (error) {
+      console.warn('Could not read the first timestamp for subtitle timing:', error);
+      return null;
+    }
+  }
+
   cancelDownload(): void {
+    this.paused = false;
     if (this.abortController) {
       this.abortController.abort();
     }
+    // Also releases an output left open by a partial download
+    this.session?.sink.abort().catch(error => console.warn('Failed to release download output:', error));
   }
 }
@@ -0,0 +1,278 @@
+import {
+  DownloadEngine,
+  DownloadOptions,
+  DownloadProgress,
+  DownloadResult,
+  DownloadWorkerRequest,
+  DownloadWorkerResponse,
+  M3U8Playlist,
+  OutputSink,
+  SegmentFailure,
+  SegmentStore,
+  SerializedError,
+  WorkerStoreSpec
+} from '../types';
+import { JournalSegmentStore } from './downloadJournal';
+import { OUTPUT_FORMATS, resolveOutputFormat } from './outputFormats';
+import { BlobSink } from './outputSink';
+import { SegmentDownloadError } from './retryPolicy';
+import { VideoDownloader } from './videoDownloader';
+
+interface PendingRun {
+  onProgress: (progress: DownloadProgress) => void;
+  onError: (error: string) => void;
+  resolve: (result: DownloadResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Main-thread side of the download worker, with the same API as VideoDownloader. Fetching,
+ * decryption, transmuxing and assembly run in the worker; the output sink stays here because
+ * save pickers and the service worker download belong to the page.
+ */
+export class WorkerDownloader implements DownloadEngine {
+  private worker: Worker | null = null;
+  private runs = new Map<number, PendingRun>();
+  private sinks = new Map<number, OutputSink>();
+  private store: SegmentStore | null = null;
+  private failures: SegmentFailure[] = [];
+  private paused = false;
+  private nextId = 1;
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  get failedSegments(): SegmentFailure[] {
+    return this.failures;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  async downloadM3U8(
+    playlist: M3U8Playlist,
+    onProgress: (progress: DownloadProgress) => void,
+    onError: (error: string) => void,
+    options: DownloadOptions = {},
+    store?: SegmentStore,
+    sink?: OutputSink
+  ): Promise<DownloadResult> {
+    this.store = store ?? null;
+    const storeSpec = await WorkerDownloader.storeSpec(store);
+    const sinkId = this.addSink(sink ?? new BlobSink(OUTPUT_FORMATS[resolveOutputFormat(playlist, options)].mimeType));
+    return this.start({ onProgress, onError }, runId => ({
+      type: 'start',
+      runId,
+      sinkId,
+      sinkKind: this.sinks.get(sinkId)!.kind,
+      playlist,
+      options,
+      store: storeSpec
+    }));
+  }
+
+  recordLive(
+    playlistUrl: string,
+    playlist: M3U8Playlist,
+    onProgress: (progress: DownloadProgress) => void,
+    onError: (error: string) => void,
+    options: DownloadOptions = {},
+    sink?: OutputSink
+  ): Promise<DownloadResult> {
+    this.store = null;
+    const sinkId = this.addSink(sink ?? new BlobSink(OUTPUT_FORMATS[resolveOutputFormat(playlist, options)].mimeType));
+    return this.start({ onProgress, onError }, runId => ({
+      type: 'record',
+      runId,
+      sinkId,
+      sinkKind: this.sinks.get(sinkId)!.kind,
+      playlistUrl,
+      playlist,
+      options
+    }));
+  }
+
+  retryFailedSegments(
+    onProgress: (progress: DownloadProgress) => void,
+    onError: (error: string) => void
+  ): Promise<DownloadResult> {
+    if (!this.worker) {
+      return Promise.reject(new Error('No download to retry'));
+    }
+    return this.start({ onProgress, onError }, runId => ({ type: 'retry', runId }));
+  }
+
+  saveWithGaps(): Promise<DownloadResult> {
+    if (!this.worker) {
+      return Promise.reject(new Error('No download to save'));
+    }
+    return this.start({ onProgress: () => {}, onError: () => {} }, runId => ({ type: 'save-with-gaps', runId }));
+  }
+
+  pause(): void {
+    this.paused = true;
+    this.post({ type: 'pause' });
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.post({ type: 'resume' });
+  }
+
+  stopRecording(): void {
+    this.post({ type: 'stop' });
+  }
+
+  cancelDownload(): void {
+    this.paused = false;
+    if (this.runs.size > 0) {
+      // The worker aborts its sink and rejects the run, which then shuts the worker down
+      this.post({ type: 'cancel' });
+      return;
+    }
+    // A download left open for retries has no run to report back, so release its output here
+    this.sinks.forEach(sink => sink.abort().catch(error => console.warn('Failed to release download output:', error)));
+    this.terminate();
+  }
+
+  private start(
+    callbacks: Pick<PendingRun, 'onProgress' | 'onError'>,
+    createRequest: (runId: number) => DownloadWorkerRequest
+  ): Promise<DownloadResult> {
+    const runId = this.nextId++;
+    this.failures = [];
+    return new Promise<DownloadResult>((resolve, reject) => {
+      this.runs.set(runId, { ...callbacks, resolve, reject });
+      this.post(createRequest(runId));
+    });
+  }
+
+  private addSink(sink: OutputSink): number {
+    const sinkId = this.nextId++;
+    this.sinks.set(sinkId, sink);
+    return sinkId;
+  }
+
+  private post(message: DownloadWorkerRequest): void {
+    if (!this.worker) {
+      if (message.type !== 'start' && message.type !== 'record') {
+        return;
+      }
+      this.worker = new Worker(new URL('./downloadWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<DownloadWorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => this.fail(new Error(`Download worker crashed: ${event.message || 'unknown error'}`));
+    }
+    this.worker.postMessage(message);
+  }
+
+  private handleMessage(message: DownloadWorkerResponse): void {
+    switch (message.type) {
+      case 'progress':
+        this.runs.get(message.runId)?.onProgress(message.progress);
+        break;
+      case 'segment-done':
+        // Keeps the caller's store in step, e.g. for a journal that is resumed later
+        this.store?.storedIndices.add(message.index);
+        break;
+      case 'notice':
+        this.runs.get(message.runId)?.onError(message.message);
+        break;
+      case 'done':
+        this.settle(message.runId, run => run.resolve(message.result));
+        this.terminate();
+        break;
+      case 'error': {
+        const error = WorkerDownloader.deserializeError(message.error);
+        this.settle(message.runId, run => run.reject(error));
+        if (error instanceof SegmentDownloadError) {
+          // The worker keeps the session so the failed segments can be retried or skipped
+          this.failures = error.failures;
+        } else {
+          this.terminate();
+        }
+        break;
+      }
+      case 'sink-write':
+        this.answer(message.requestId, this.sinks.get(message.sinkId)?.write(message.chunk).then(() => null));
+        break;
+      case 'sink-close': {
+        const sink = this.sinks.get(message.sinkId);
+        this.sinks.delete(message.sinkId);
+        this.answer(message.requestId, sink?.close());
+        break;
+      }
+      case 'sink-abort': {
+        const sink = this.sinks.get(message.sinkId);
+        this.sinks.delete(message.sinkId);
+        this.answer(message.requestId, sink?.abort().then(() => null));
+        break;
+      }
+    }
+  }
+
+  private answer(requestId: number, pending: Promise<Blob | null> | undefined): void {
+    (pending ?? Promise.resolve(null)).then(
+      blob => this.post({ type: 'sink-reply', requestId, blob }),
+      error => this.post({ type: 'sink-reply', requestId, error: error instanceof Error ? error.message : String(error) })
+    );
+  }
+
+  private settle(runId: number, callback: (run: PendingRun) => void): void {
+    const run = this.runs.get(runId);
+    this.runs.delete(runId);
+    if (run) {
+      callback(run);
+    }
+  }
+
+  // A crashed worker takes its session with it, so every open run fails and every output is released
+  private fail(error: Error): void {
+    this.runs.forEach(run => run.reject(error));
+    this.runs.clear();
+    this.sinks.forEach(sink => sink.abort().catch(error => console.warn('Failed to release download output:', error)));
+    this.terminate();
+  }
+
+  private terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.sinks.clear();
+    this.paused = false;
+  }
+
+  // Segments already in a memory store (e.g. seeded from the preview cache) are copied to the worker
+  private static async storeSpec(store?: SegmentStore): Promise<WorkerStoreSpec> {
+    if (store instanceof JournalSegmentStore) {
+      return { kind: 'journal', jobId: store.jobId, storedIndices: [...store.storedIndices] };
+    }
+    const segments: { index: number; data: Uint8Array }[] = [];
+    if (!store) {
+      return { kind: 'memory', segments };
+    }
+    for (const index of store.storedIndices) {
+      const data = await store.get(index);
+      if (data) {
+        segments.push({ index, data });
+      }
+    }
+    return { kind: 'memory', segments };
+  }
+
+  private static deserializeError(serialized: SerializedError): Error {
+    const error = serialized.failures
+      ? new SegmentDownloadError(serialized.failures, 0)
+      : new Error(serialized.message);
+    error.name = serialized.name;
+    error.message = serialized.message;
+    return error;
+  }
+}
+
+export class DownloadEngineFactory {
+  // Falls back to the main thread where workers are unavailable
+  static create(): DownloadEngine {
+    return WorkerDownloader.isSupported() ? new WorkerDownloader() : new VideoDownloader();
+  }
+}
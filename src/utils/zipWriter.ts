@@ -0,0 +1,202 @@
+import { OutputSink } from '../types';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_SIGNATURE = 0x06054b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EXTRA_ID = 0x0001;
+// 2.0 for plain stored entries, 4.5 once ZIP64 fields are needed
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+// File names are UTF-8
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORED = 0;
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Streams a ZIP archive into an OutputSink one file at a time. Media is already compressed, so
+ * entries are stored rather than deflated; ZIP64 records are added once the archive outgrows
+ * 4 GB or 65535 entries.
+ */
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private sink: OutputSink) {}
+
+  get size(): number {
+    return this.offset;
+  }
+
+  // Calls may overlap; entries are written in call order
+  add(name: string, data: Uint8Array, modified = new Date()): Promise<void> {
+    const write = this.writing.then(() => this.write(name, data, modified));
+    // A failed write fails every later one too
+    this.writing = write;
+    return write;
+  }
+
+  // Writes the central directory; nothing can be added afterwards
+  async finish(): Promise<number> {
+    await this.writing;
+    const start = this.offset;
+    for (const entry of this.entries) {
+      await this.emit(this.centralHeader(entry));
+    }
+    const size = this.offset - start;
+
+    const count = this.entries.length;
+    if (count > MAX_UINT16 || start > MAX_UINT32 || size > MAX_UINT32) {
+      const zip64End = this.offset;
+      await this.emit(this.zip64EndRecord(count, size, start));
+      await this.emit(this.zip64Locator(zip64End));
+    }
+    await this.emit(this.endRecord(count, size, start));
+    return this.offset;
+  }
+
+  private async write(name: string, data: Uint8Array, modified: Date): Promise<void> {
+    const entry: ZipEntry = {
+      name: new TextEncoder().encode(name),
+      crc: ZipWriter.crc32(data),
+      size: data.length,
+      offset: this.offset,
+      ...ZipWriter.dosDateTime(modified)
+    };
+    if (entry.size > MAX_UINT32) {
+      throw new Error(`${name} is too large to store in a ZIP archive`);
+    }
+    this.entries.push(entry);
+    await this.emit(this.localHeader(entry));
+    await this.emit(data);
+  }
+
+  // Counted before writing: a worker sink transfers the buffer, which leaves it empty
+  private async emit(chunk: Uint8Array): Promise<void> {
+    this.offset += chunk.length;
+    await this.sink.write(chunk);
+  }
+
+  private localHeader(entry: ZipEntry): Uint8Array {
+    const header = new Uint8Array(30 + entry.name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, VERSION_DEFAULT, true);
+    view.setUint16(6, FLAG_UTF8, true);
+    view.setUint16(8, METHOD_STORED, true);
+    view.setUint16(10, entry.time, true);
+    view.setUint16(12, entry.date, true);
+    view.setUint32(14, entry.crc, true);
+    view.setUint32(18, entry.size, true);
+    view.setUint32(22, entry.size, true);
+    view.setUint16(26, entry.name.length, true);
+    header.set(entry.name, 30);
+    return header;
+  }
+
+  // Only the local header offset can outgrow 32 bits, since each entry is under 4 GB
+  private centralHeader(entry: ZipEntry): Uint8Array {
+    const zip64 = entry.offset > MAX_UINT32;
+    const extraLength = zip64 ? 12 : 0;
+    const header = new Uint8Array(46 + entry.name.length + extraLength);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    view.setUint16(6, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    view.setUint16(8, FLAG_UTF8, true);
+    view.setUint16(10, METHOD_STORED, true);
+    view.setUint16(12, entry.time, true);
+    view.setUint16(14, entry.date, true);
+    view.setUint32(16, entry.crc, true);
+    view.setUint32(20, entry.size, true);
+    view.setUint32(24, entry.size, true);
+    view.setUint16(28, entry.name.length, true);
+    view.setUint16(30, extraLength, true);
+    view.setUint32(42, zip64 ? MAX_UINT32 : entry.offset, true);
+    header.set(entry.name, 46);
+    if (zip64) {
+      const extra = 46 + entry.name.length;
+      view.setUint16(extra, ZIP64_EXTRA_ID, true);
+      view.setUint16(extra + 2, 8, true);
+      view.setBigUint64(extra + 4, BigInt(entry.offset), true);
+    }
+    return header;
+  }
+
+  private zip64EndRecord(count: number, size: number, start: number): Uint8Array {
+    const record = new Uint8Array(56);
+    const view = new DataView(record.buffer);
+    view.setUint32(0, ZIP64_END_SIGNATURE, true);
+    view.setBigUint64(4, BigInt(record.length - 12), true);
+    view.setUint16(12, VERSION_ZIP64, true);
+    view.setUint16(14, VERSION_ZIP64, true);
+    view.setBigUint64(24, BigInt(count), true);
+    view.setBigUint64(32, BigInt(count), true);
+    view.setBigUint64(40, BigInt(size), true);
+    view.setBigUint64(48, BigInt(start), true);
+    return record;
+  }
+
+  private zip64Locator(zip64End: number): Uint8Array {
+    const locator = new Uint8Array(20);
+    const view = new DataView(locator.buffer);
+    view.setUint32(0, ZIP64_LOCATOR_SIGNATURE, true);
+    view.setBigUint64(8, BigInt(zip64End), true);
+    view.setUint32(16, 1, true);
+    return locator;
+  }
+
+  // Fields that do not fit are set to all ones, pointing readers at the ZIP64 record
+  private endRecord(count: number, size: number, start: number): Uint8Array {
+    const record = new Uint8Array(22);
+    const view = new DataView(record.buffer);
+    view.setUint32(0, END_SIGNATURE, true);
+    view.setUint16(8, Math.min(count, MAX_UINT16), true);
+    view.setUint16(10, Math.min(count, MAX_UINT16), true);
+    view.setUint32(12, Math.min(size, MAX_UINT32), true);
+    view.setUint32(16, Math.min(start, MAX_UINT32), true);
+    return record;
+  }
+
+  // MS-DOS timestamps have two-second resolution and start in 1980
+  private static dosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.max(1980, date.getFullYear());
+    return {
+      time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+      date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+  }
+
+  private static crc32(data: Uint8Array): number {
+    if (!crcTable) {
+      crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        crcTable[n] = c >>> 0;
+      }
+    }
+
+    let crc = MAX_UINT32;
+    for (let i = 0; i < data.length; i++) {
+      crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ MAX_UINT32) >>> 0;
+  }
+}
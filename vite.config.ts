@@ -1,10 +1,15 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
+
+  // The CLI bundle (yarn build:cli) needs none of the web app's static files
+  build: {
+    copyPublicDir: !isSsrBuild,
+  },
   
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
-});
+}));